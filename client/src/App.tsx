@@ -4,16 +4,29 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "./hooks/use-auth";
+import { useLiveUpdates } from "./hooks/use-live-updates";
 import LoginPage from "./pages/login";
 import DashboardPage from "./pages/dashboard";
 import UsersPage from "./pages/users";
 import ProductsPage from "./pages/products";
+import ProductDetailPage from "./pages/product-detail";
 import InventoryPage from "./pages/inventory";
+import LocationsPage from "./pages/locations";
+import CountSessionsPage from "./pages/count-sessions";
+import CountSessionDetailPage from "./pages/count-session-detail";
+import InboundReceiptsPage from "./pages/inbound-receipts";
+import InboundReceiptDetailPage from "./pages/inbound-receipt-detail";
+import TransferOrdersPage from "./pages/transfer-orders";
+import TransferOrderDetailPage from "./pages/transfer-order-detail";
+import PickListsPage from "./pages/pick-lists";
+import PickListDetailPage from "./pages/pick-list-detail";
+import ActivityPage from "./pages/activity";
 import NotFound from "@/pages/not-found";
 import Sidebar from "./components/sidebar";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  useLiveUpdates(isAuthenticated);
 
   if (isLoading) {
     return (
@@ -36,7 +49,18 @@ function Router() {
           <Route path="/dashboard" component={DashboardPage} />
           <Route path="/users" component={UsersPage} />
           <Route path="/products" component={ProductsPage} />
+          <Route path="/products/:code" component={ProductDetailPage} />
           <Route path="/inventory" component={InventoryPage} />
+          <Route path="/locations" component={LocationsPage} />
+          <Route path="/count-sessions" component={CountSessionsPage} />
+          <Route path="/count-sessions/:id" component={CountSessionDetailPage} />
+          <Route path="/inbound-receipts" component={InboundReceiptsPage} />
+          <Route path="/inbound-receipts/:id" component={InboundReceiptDetailPage} />
+          <Route path="/transfer-orders" component={TransferOrdersPage} />
+          <Route path="/transfer-orders/:id" component={TransferOrderDetailPage} />
+          <Route path="/pick-lists" component={PickListsPage} />
+          <Route path="/pick-lists/:id" component={PickListDetailPage} />
+          <Route path="/activity" component={ActivityPage} />
           <Route component={NotFound} />
         </Switch>
       </div>
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Shape Detection API (Chrome/Edge on Android and desktop); not yet in the TypeScript DOM typings
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+  }
+}
+
+const SCAN_FORMATS = ["code_128", "ean_13", "ean_8", "upc_a", "itf", "qr_code"];
+const SCAN_INTERVAL_MS = 250;
+
+interface CameraScannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDetected: (value: string) => void;
+}
+
+function isCameraScanSupported() {
+  return typeof window !== "undefined" && !!window.BarcodeDetector && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// Reads the first barcode in front of the rear camera and closes
+export default function CameraScanner({ isOpen, onClose, onDetected }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Kept in a ref so a new callback from the parent doesn't restart the camera
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+
+    if (!isCameraScanSupported()) {
+      setError("Este navegador não suporta a leitura por câmera. Use o leitor de código de barras ou digite o código.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const detector = new window.BarcodeDetector!({ formats: SCAN_FORMATS });
+
+    const scan = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const [barcode] = await detector.detect(videoRef.current);
+        if (barcode?.rawValue && !stopped) {
+          stopped = true;
+          onDetectedRef.current(barcode.rawValue);
+          return;
+        }
+      } catch {
+        // The video may not have a frame yet; try again on the next tick
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play().then(scan).catch(() => scan());
+      })
+      .catch(() => setError("Não foi possível acessar a câmera. Verifique a permissão do navegador."));
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [isOpen]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ler código pela câmera</DialogTitle>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="space-y-2">
+            <video ref={videoRef} className="w-full rounded-md bg-black aspect-video object-cover" muted playsInline />
+            <p className="text-sm text-muted-foreground">Aponte a câmera para o código de barras ou QR Code.</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { X } from "lucide-react";
+import ProductAutocomplete from "./product-autocomplete";
+import LocationSelect from "./location-select";
+import type { CountSession, CreateCountSessionData, Location, Product } from "@shared/schema";
+
+interface CountSessionFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ItemType = CreateCountSessionData["itemTypes"][number];
+
+export default function CountSessionFormModal({
+  isOpen,
+  onClose,
+}: CountSessionFormModalProps) {
+  const [description, setDescription] = useState("");
+  const [blind, setBlind] = useState(true);
+  const [itemTypes, setItemTypes] = useState<ItemType[]>(["pico", "paletizado"]);
+  const [selectedProducts, setSelectedProducts] = useState<Product[]>([]);
+  const [selectedLocations, setSelectedLocations] = useState<Location[]>([]);
+  // Remounts the autocomplete after each pick so it starts empty again
+  const [productPickerKey, setProductPickerKey] = useState(0);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  useEffect(() => {
+    setDescription("");
+    setBlind(true);
+    setItemTypes(["pico", "paletizado"]);
+    setSelectedProducts([]);
+    setSelectedLocations([]);
+  }, [isOpen]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateCountSessionData) => {
+      const response = await apiRequest("POST", "/api/count-sessions", data);
+      return (await response.json()) as CountSession;
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/count-sessions"] });
+      toast({
+        title: "Inventário criado",
+        description: "Os saldos esperados foram registrados. Inicie a contagem.",
+      });
+      onClose();
+      navigate(`/count-sessions/${session.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar inventário",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleItemType = (type: ItemType, checked: boolean) => {
+    setItemTypes((prev) => (checked ? [...prev, type] : prev.filter((item) => item !== type)));
+  };
+
+  const handleProductSelect = (code: string, product?: Product) => {
+    if (!code || !product) return;
+    setSelectedProducts((prev) =>
+      prev.some((item) => item.id === product.id) ? prev : [...prev, product]
+    );
+    setProductPickerKey((key) => key + 1);
+  };
+
+  const handleLocationSelect = (_: number | null, location?: Location) => {
+    if (!location) return;
+    setSelectedLocations((prev) =>
+      prev.some((item) => item.id === location.id) ? prev : [...prev, location]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!description.trim()) {
+      toast({
+        title: "Descrição obrigatória",
+        description: "Informe uma descrição para o inventário.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (itemTypes.length === 0) {
+      toast({
+        title: "Escopo inválido",
+        description: "Selecione picos e/ou paletizados.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({
+      description,
+      blind,
+      itemTypes,
+      productIds: selectedProducts.map((product) => product.id),
+      locationIds: selectedLocations.map((location) => location.id),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Novo Inventário</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="description">Descrição *</Label>
+            <Input
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Ex.: Inventário rua 03"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Contar</Label>
+            <div className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="itemType-pico"
+                  checked={itemTypes.includes("pico")}
+                  onCheckedChange={(checked) => toggleItemType("pico", checked === true)}
+                />
+                <Label htmlFor="itemType-pico">Picos</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="itemType-paletizado"
+                  checked={itemTypes.includes("paletizado")}
+                  onCheckedChange={(checked) => toggleItemType("paletizado", checked === true)}
+                />
+                <Label htmlFor="itemType-paletizado">Paletizados</Label>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Produtos</Label>
+            <ProductAutocomplete
+              key={productPickerKey}
+              value=""
+              onChange={handleProductSelect}
+              placeholder="Todos os produtos"
+              searchByDescription={true}
+            />
+            {selectedProducts.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {selectedProducts.map((product) => (
+                  <Badge key={product.id} variant="secondary" className="gap-1">
+                    {product.code}
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() =>
+                        setSelectedProducts((prev) => prev.filter((item) => item.id !== product.id))
+                      }
+                    />
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="locationId">Endereços</Label>
+            <LocationSelect
+              id="locationId"
+              value={null}
+              onChange={handleLocationSelect}
+              placeholder="Todos os endereços"
+            />
+            {selectedLocations.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {selectedLocations.map((location) => (
+                  <Badge key={location.id} variant="secondary" className="gap-1">
+                    {location.code}
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() =>
+                        setSelectedLocations((prev) => prev.filter((item) => item.id !== location.id))
+                      }
+                    />
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch id="blind" checked={blind} onCheckedChange={setBlind} />
+            <Label htmlFor="blind">Contagem cega (armazenista não vê o saldo esperado)</Label>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="submit" disabled={createMutation.isPending} className="flex-1">
+              {createMutation.isPending ? "Criando..." : "Criar"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
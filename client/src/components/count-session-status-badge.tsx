@@ -0,0 +1,13 @@
+import { Badge } from "@/components/ui/badge";
+import { countSessionStatusLabels, type CountSessionStatus } from "@shared/schema";
+
+const statusVariants: Record<CountSessionStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "default",
+  submitted: "outline",
+  approved: "secondary",
+  cancelled: "destructive",
+};
+
+export default function CountSessionStatusBadge({ status }: { status: CountSessionStatus }) {
+  return <Badge variant={statusVariants[status]}>{countSessionStatusLabels[status]}</Badge>;
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarClock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatExpiryDate, type ExpiringStockItem } from "@shared/schema";
+
+const windowOptions = [7, 15, 30, 60, 90];
+
+export default function ExpiringStockCard() {
+  const [days, setDays] = useState(30);
+
+  const { data: items, isLoading } = useQuery<ExpiringStockItem[]>({
+    queryKey: ["/api/dashboard/expiring", days],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/dashboard/expiring?days=${days}`);
+      return response.json();
+    },
+  });
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <CalendarClock className="h-5 w-5 text-orange-500 mr-2" />
+          Vencimentos Próximos
+        </CardTitle>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {windowOptions.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                Próximos {option} dias
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Carregando...</p>
+        ) : items && items.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Validade</th>
+                  <th>Produto</th>
+                  <th>Tipo</th>
+                  <th>Endereço</th>
+                  <th>Lote</th>
+                  <th>Quantidade</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => {
+                  const expired = item.expiryDate < today;
+                  return (
+                    <tr key={`${item.itemType}-${item.id}`}>
+                      <td>
+                        <Badge variant={expired ? "destructive" : "outline"}>
+                          {formatExpiryDate(item.expiryDate)}
+                          {expired && " • Vencido"}
+                        </Badge>
+                      </td>
+                      <td>
+                        <span className="font-medium">{item.product.code}</span> - {item.product.description}
+                      </td>
+                      <td>{item.itemType === "pico" ? "Pico" : "Paletizado"}</td>
+                      <td>{item.location?.code ?? "-"}</td>
+                      <td>{item.lot ?? "-"}</td>
+                      <td>
+                        {item.quantity} {item.itemType === "pico" ? "unidades" : "paletes"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhum estoque vencendo nos próximos {days} dias
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+interface ExportMenuProps {
+  endpoint: string; // e.g. "/api/export/picos"
+  params?: Record<string, string | boolean | undefined>;
+  label?: string;
+}
+
+// Downloads the export in the chosen format; empty filters are left out of the URL
+export default function ExportMenu({ endpoint, params = {}, label = "Exportar" }: ExportMenuProps) {
+  const download = (format: "csv" | "xlsx") => {
+    const query = new URLSearchParams({ format });
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== "" && value !== false) {
+        query.set(key, String(value));
+      }
+    });
+
+    const link = document.createElement("a");
+    link.href = `${endpoint}?${query}`;
+    link.click();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("xlsx")}>Excel (XLSX)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import ProductAutocomplete from "./product-autocomplete";
+import type { CreateInboundReceiptData, InboundReceipt } from "@shared/schema";
+
+interface InboundReceiptFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface LineDraft {
+  key: number;
+  productCode: string;
+  expectedPallets: number;
+}
+
+export default function InboundReceiptFormModal({
+  isOpen,
+  onClose,
+}: InboundReceiptFormModalProps) {
+  const [supplier, setSupplier] = useState("");
+  const [documentNumber, setDocumentNumber] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [lines, setLines] = useState<LineDraft[]>([]);
+  // Keys keep each ProductAutocomplete bound to its own line when rows are removed
+  const [nextKey, setNextKey] = useState(1);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  useEffect(() => {
+    setSupplier("");
+    setDocumentNumber("");
+    setExpectedDate("");
+    setLines([{ key: 0, productCode: "", expectedPallets: 1 }]);
+    setNextKey(1);
+  }, [isOpen]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateInboundReceiptData) => {
+      const response = await apiRequest("POST", "/api/inbound-receipts", data);
+      return (await response.json()) as InboundReceipt;
+    },
+    onSuccess: (receipt) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inbound-receipts"] });
+      toast({
+        title: "Recebimento registrado",
+        description: "A entrega prevista foi registrada. Confira os itens na chegada.",
+      });
+      onClose();
+      navigate(`/inbound-receipts/${receipt.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao registrar recebimento",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (key: number, changes: Partial<LineDraft>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = () => {
+    setLines((prev) => [...prev, { key: nextKey, productCode: "", expectedPallets: 1 }]);
+    setNextKey((key) => key + 1);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!supplier.trim() || !documentNumber.trim()) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Fornecedor e número do documento são obrigatórios.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.some((line) => !line.productCode || line.expectedPallets <= 0)) {
+      toast({
+        title: "Itens inválidos",
+        description: "Selecione o produto e informe os paletes esperados em todos os itens.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({
+      supplier,
+      documentNumber,
+      expectedDate: expectedDate || null,
+      lines: lines.map(({ productCode, expectedPallets }) => ({ productCode, expectedPallets })),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Novo Recebimento</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier">Fornecedor *</Label>
+              <Input
+                id="supplier"
+                value={supplier}
+                onChange={(e) => setSupplier(e.target.value)}
+                placeholder="Nome do fornecedor"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="documentNumber">Nota fiscal / documento *</Label>
+              <Input
+                id="documentNumber"
+                value={documentNumber}
+                onChange={(e) => setDocumentNumber(e.target.value)}
+                placeholder="Ex.: 123456"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expectedDate">Data prevista</Label>
+            <Input
+              id="expectedDate"
+              type="date"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Itens *</Label>
+            {lines.map((line) => (
+              <div key={line.key} className="flex gap-2 items-center">
+                <div className="flex-1">
+                  <ProductAutocomplete
+                    value={line.productCode}
+                    onChange={(code) => updateLine(line.key, { productCode: code })}
+                    placeholder="Digite o código do produto"
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-28"
+                  value={line.expectedPallets}
+                  onChange={(e) =>
+                    updateLine(line.key, { expectedPallets: parseInt(e.target.value) || 0 })
+                  }
+                  aria-label="Paletes esperados"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLines((prev) => prev.filter((item) => item.key !== line.key))}
+                  disabled={lines.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addLine}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar item
+            </Button>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="submit" disabled={createMutation.isPending} className="flex-1">
+              {createMutation.isPending ? "Registrando..." : "Registrar"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+import { inboundStatusLabels, type InboundStatus } from "@shared/schema";
+
+const statusVariants: Record<InboundStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  expected: "default",
+  received: "secondary",
+  cancelled: "destructive",
+};
+
+export default function InboundStatusBadge({ status }: { status: InboundStatus }) {
+  return <Badge variant={statusVariants[status]}>{inboundStatusLabels[status]}</Badge>;
+}
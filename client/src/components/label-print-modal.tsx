@@ -0,0 +1,271 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import {
+  labelFieldLabels,
+  labelSymbologies,
+  labelSymbologyLabels,
+  labelTemplatePresets,
+  type LabelField,
+  type LabelFormat,
+  type LabelRequestData,
+  type LabelSymbology,
+  type LabelTarget,
+} from "@shared/schema";
+
+interface LabelPrintModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: LabelTarget;
+  ids: number[];
+}
+
+const targetTitles: Record<LabelTarget, string> = {
+  product: "Etiquetas de Produtos",
+  pico: "Etiquetas de Picos",
+  paletizado: "Etiquetas de Paletes",
+  location: "Etiquetas de Endereços",
+};
+
+// Fields that have a value for each kind of label
+const targetFields: Record<LabelTarget, LabelField[]> = {
+  product: ["description", "category", "unitsPerBase"],
+  pico: ["description", "category", "unitsPerBase", "location", "lot", "expiryDate", "quantity"],
+  paletizado: ["description", "category", "unitsPerBase", "location", "lot", "expiryDate", "quantity"],
+  location: ["description"],
+};
+
+const defaultPreset: Record<LabelTarget, number> = {
+  product: 0,
+  pico: 0,
+  paletizado: 1,
+  location: 2,
+};
+
+// PDFs open in a new tab; ZPL files are downloaded to be sent to the thermal printer
+async function requestLabels(data: LabelRequestData) {
+  const res = await fetch("/api/labels", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message ?? res.statusText);
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  if (data.format === "zpl") {
+    link.download = `etiquetas-${new Date().toISOString().slice(0, 10)}.zpl`;
+  } else {
+    link.target = "_blank";
+  }
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+export default function LabelPrintModal({ isOpen, onClose, target, ids }: LabelPrintModalProps) {
+  const [presetIndex, setPresetIndex] = useState(defaultPreset[target]);
+  const [widthMm, setWidthMm] = useState("");
+  const [heightMm, setHeightMm] = useState("");
+  const [symbology, setSymbology] = useState<LabelSymbology>("code128");
+  const [fields, setFields] = useState<LabelField[]>([]);
+  const [copies, setCopies] = useState("1");
+  const [format, setFormat] = useState<LabelFormat>("pdf");
+
+  const { toast } = useToast();
+
+  const applyPreset = (index: number) => {
+    const preset = labelTemplatePresets[index];
+    setPresetIndex(index);
+    setWidthMm(preset.widthMm.toString());
+    setHeightMm(preset.heightMm.toString());
+    setSymbology(preset.symbology);
+    setFields(preset.fields.filter((field) => targetFields[target].includes(field)));
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      applyPreset(defaultPreset[target]);
+      setCopies("1");
+    }
+  }, [isOpen, target]);
+
+  const toggleField = (field: LabelField, checked: boolean) => {
+    setFields((current) => (checked ? [...current, field] : current.filter((item) => item !== field)));
+  };
+
+  const printMutation = useMutation({
+    mutationFn: requestLabels,
+    onSuccess: () => onClose(),
+    onError: (error) => {
+      toast({
+        title: "Erro ao gerar etiquetas",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    printMutation.mutate({
+      target,
+      ids,
+      format,
+      widthMm: Number(widthMm),
+      heightMm: Number(heightMm),
+      symbology,
+      fields,
+      copies: parseInt(copies) || 1,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{targetTitles[target]}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {ids.length} item(ns) selecionado(s).
+          </p>
+
+          <div className="space-y-2">
+            <Label>Modelo</Label>
+            <Select value={presetIndex.toString()} onValueChange={(value) => applyPreset(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {labelTemplatePresets.map((preset, index) => (
+                  <SelectItem key={preset.name} value={index.toString()}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="widthMm">Largura (mm)</Label>
+              <Input
+                id="widthMm"
+                type="number"
+                min="20"
+                max="200"
+                value={widthMm}
+                onChange={(e) => setWidthMm(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="heightMm">Altura (mm)</Label>
+              <Input
+                id="heightMm"
+                type="number"
+                min="15"
+                max="300"
+                value={heightMm}
+                onChange={(e) => setHeightMm(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Código</Label>
+              <Select value={symbology} onValueChange={(value: LabelSymbology) => setSymbology(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {labelSymbologies.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {labelSymbologyLabels[item]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Formato</Label>
+              <Select value={format} onValueChange={(value: LabelFormat) => setFormat(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                  <SelectItem value="zpl">ZPL (impressora térmica)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Campos</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {targetFields[target].map((field) => (
+                <div key={field} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`field-${field}`}
+                    checked={fields.includes(field)}
+                    onCheckedChange={(checked) => toggleField(field, checked === true)}
+                  />
+                  <Label htmlFor={`field-${field}`}>
+                    {target === "location" && field === "description" ? "Tipo e capacidade" : labelFieldLabels[field]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="copies">Cópias por item</Label>
+            <Input
+              id="copies"
+              type="number"
+              min="1"
+              max="100"
+              value={copies}
+              onChange={(e) => setCopies(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="submit" disabled={printMutation.isPending || ids.length === 0} className="flex-1">
+              {printMutation.isPending ? "Gerando..." : "Gerar etiquetas"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
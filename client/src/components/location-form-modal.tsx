@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatLocationCode, type Location, type InsertLocation } from "@shared/schema";
+
+interface LocationFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  location?: Location | null;
+}
+
+const emptyLocation: InsertLocation = {
+  aisle: "",
+  tower: "",
+  level: "",
+  position: "",
+  type: "picking",
+  capacity: null,
+  isActive: true,
+};
+
+export default function LocationFormModal({
+  isOpen,
+  onClose,
+  location,
+}: LocationFormModalProps) {
+  const [formData, setFormData] = useState<InsertLocation>(emptyLocation);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (location) {
+      setFormData({
+        aisle: location.aisle,
+        tower: location.tower,
+        level: location.level,
+        position: location.position,
+        type: location.type,
+        capacity: location.capacity,
+        isActive: location.isActive,
+      });
+    } else {
+      setFormData(emptyLocation);
+    }
+  }, [location, isOpen]);
+
+  const onSuccess = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
+    toast({ title, description });
+    onClose();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertLocation) => {
+      const response = await apiRequest("POST", "/api/locations", data);
+      return response.json();
+    },
+    onSuccess: () => onSuccess("Endereço criado", "O endereço foi criado com sucesso."),
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar endereço",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: InsertLocation) => {
+      const response = await apiRequest("PUT", `/api/locations/${location!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => onSuccess("Endereço atualizado", "O endereço foi atualizado com sucesso."),
+    onError: (error) => {
+      toast({
+        title: "Erro ao atualizar endereço",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addressComplete = !!(formData.aisle && formData.tower && formData.level && formData.position);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!addressComplete) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Rua, torre, nível e posição são obrigatórios.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.capacity !== null && formData.capacity !== undefined && formData.capacity <= 0) {
+      toast({
+        title: "Valores inválidos",
+        description: "A capacidade deve ser maior que zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (location) {
+      updateMutation.mutate(formData);
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const setAddressPart = (field: "aisle" | "tower" | "level" | "position", value: string) => {
+    setFormData({ ...formData, [field]: value.replace(/[^a-z0-9]/gi, "").slice(0, 4).toUpperCase() });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {location ? "Editar Endereço" : "Novo Endereço"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="aisle">Rua *</Label>
+              <Input
+                id="aisle"
+                value={formData.aisle}
+                onChange={(e) => setAddressPart("aisle", e.target.value)}
+                placeholder="01"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tower">Torre *</Label>
+              <Input
+                id="tower"
+                value={formData.tower}
+                onChange={(e) => setAddressPart("tower", e.target.value)}
+                placeholder="01"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="level">Nível *</Label>
+              <Input
+                id="level"
+                value={formData.level}
+                onChange={(e) => setAddressPart("level", e.target.value)}
+                placeholder="01"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="position">Posição *</Label>
+              <Input
+                id="position"
+                value={formData.position}
+                onChange={(e) => setAddressPart("position", e.target.value)}
+                placeholder="01"
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Código: {addressComplete ? formatLocationCode(formData) : "-"}
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="type">Tipo *</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value: InsertLocation["type"]) =>
+                  setFormData({ ...formData, type: value })
+                }
+              >
+                <SelectTrigger id="type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="picking">Picking</SelectItem>
+                  <SelectItem value="porta_palete">Porta-palete</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="capacity">
+                Capacidade ({formData.type === "picking" ? "bases" : "paletes"})
+              </Label>
+              <Input
+                id="capacity"
+                type="number"
+                min="1"
+                value={formData.capacity ?? ""}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    capacity: e.target.value ? parseInt(e.target.value) || null : null,
+                  })
+                }
+                placeholder="Sem limite"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch
+              id="isActive"
+              checked={formData.isActive ?? true}
+              onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+            />
+            <Label htmlFor="isActive">Endereço ativo</Label>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || updateMutation.isPending}
+              className="flex-1"
+            >
+              {createMutation.isPending || updateMutation.isPending
+                ? "Salvando..."
+                : location
+                ? "Atualizar"
+                : "Criar"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Location, LocationType } from "@shared/schema";
+
+// Sentinel for the "no location" option, since Select items cannot have an empty value
+const NONE = "none";
+
+interface LocationSelectProps {
+  value: number | null;
+  onChange: (locationId: number | null, location?: Location) => void;
+  type?: LocationType; // omitted to list locations of every type
+  placeholder?: string;
+  allowEmpty?: boolean;
+  disabled?: boolean;
+  id?: string;
+}
+
+export default function LocationSelect({
+  value,
+  onChange,
+  type,
+  placeholder = "Selecione o endereço",
+  allowEmpty = false,
+  disabled = false,
+  id,
+}: LocationSelectProps) {
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  // Inactive locations stay visible only when already selected
+  const options = locations?.filter(
+    (location) => (!type || location.type === type) && (location.isActive || location.id === value)
+  );
+
+  const handleChange = (selected: string) => {
+    if (selected === NONE) {
+      onChange(null);
+      return;
+    }
+    const location = options?.find((option) => option.id === Number(selected));
+    onChange(Number(selected), location);
+  };
+
+  return (
+    <Select
+      value={value ? String(value) : allowEmpty ? NONE : ""}
+      onValueChange={handleChange}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowEmpty && <SelectItem value={NONE}>Sem endereço</SelectItem>}
+        {options?.map((location) => (
+          <SelectItem key={location.id} value={String(location.id)}>
+            {location.code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
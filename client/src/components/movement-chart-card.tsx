@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { BarChart3, CalendarDays } from "lucide-react";
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  subDays,
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { DateRange } from "react-day-picker";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  movementSeriesBucketLabels,
+  type ActivityItemType,
+  type MovementSeries,
+  type MovementSeriesBucket,
+} from "@shared/schema";
+
+const chartConfig = {
+  entries: { label: "Entradas", color: "hsl(142 71% 45%)" },
+  exits: { label: "Saídas", color: "hsl(var(--destructive))" },
+  net: { label: "Saldo", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const toDateParam = (date: Date) => format(date, "yyyy-MM-dd");
+
+// The API only returns periods that had movements; the chart needs every period in the range
+function periodsInRange(from: Date, to: Date, bucket: MovementSeriesBucket): string[] {
+  const interval = { start: from, end: to };
+  const starts = bucket === "day"
+    ? eachDayOfInterval(interval)
+    : bucket === "week"
+      ? eachWeekOfInterval(interval, { weekStartsOn: 1 })
+      : eachMonthOfInterval(interval);
+  return starts.map(toDateParam);
+}
+
+function formatPeriod(period: string, bucket: MovementSeriesBucket) {
+  const date = new Date(`${period}T00:00:00`);
+  return bucket === "month" ? format(date, "MMM/yy", { locale: ptBR }) : format(date, "dd/MM", { locale: ptBR });
+}
+
+async function fetchMovementSeries(from: string, to: string, bucket: MovementSeriesBucket): Promise<MovementSeries> {
+  const response = await apiRequest("GET", `/api/dashboard/movements?from=${from}&to=${to}&bucket=${bucket}`);
+  return response.json();
+}
+
+export default function MovementChartCard() {
+  const [range, setRange] = useState<DateRange | undefined>({ from: subDays(new Date(), 29), to: new Date() });
+  const [bucket, setBucket] = useState<MovementSeriesBucket>("day");
+  // Picos move in units and paletizados in pallets, so they are charted one at a time
+  const [itemType, setItemType] = useState<ActivityItemType>("pico");
+  const [category, setCategory] = useState("all");
+
+  const from = range?.from ? toDateParam(range.from) : undefined;
+  const to = range?.from ? toDateParam(range.to ?? range.from) : undefined;
+
+  // Live updates invalidate the series, and it is also refreshed whenever the dashboard opens
+  const { data: series, isLoading, error } = useQuery<MovementSeries>({
+    queryKey: ["/api/dashboard/movements", from, to, bucket],
+    queryFn: () => fetchMovementSeries(from!, to!, bucket),
+    enabled: !!from && !!to,
+    staleTime: 0,
+  });
+
+  // "Entrados ontem e entrando hoje", independent of the selected range
+  const today = new Date();
+  const { data: recent } = useQuery<MovementSeries>({
+    queryKey: ["/api/dashboard/movements", "recent", toDateParam(today)],
+    queryFn: () => fetchMovementSeries(toDateParam(subDays(today, 1)), toDateParam(today), "day"),
+    staleTime: 0,
+  });
+
+  const entriesOn = (date: Date, type: ActivityItemType) =>
+    recent?.points
+      .filter((point) => point.period === toDateParam(date) && point.itemType === type)
+      .reduce((sum, point) => sum + point.entries, 0) ?? 0;
+
+  const chartData = series && range?.from
+    ? periodsInRange(range.from, range.to ?? range.from, series.bucket).map((period) => {
+        const points = series.points.filter(
+          (point) =>
+            point.period === period &&
+            point.itemType === itemType &&
+            (category === "all" || point.category === category)
+        );
+        return {
+          period,
+          entries: points.reduce((sum, point) => sum + point.entries, 0),
+          exits: points.reduce((sum, point) => sum + point.exits, 0),
+          net: points.reduce((sum, point) => sum + point.net, 0),
+        };
+      })
+    : [];
+  const unit = itemType === "pico" ? "unidades" : "paletes";
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="space-y-4">
+        <CardTitle className="flex items-center">
+          <BarChart3 className="h-5 w-5 text-primary mr-2" />
+          Entradas x Saídas
+        </CardTitle>
+        <div className="flex flex-wrap gap-4">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="w-64 justify-start font-normal">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {range?.from
+                  ? `${format(range.from, "dd/MM/yyyy")} – ${format(range.to ?? range.from, "dd/MM/yyyy")}`
+                  : "Selecione o período"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                numberOfMonths={2}
+                defaultMonth={range?.from}
+                disabled={{ after: new Date() }}
+                locale={ptBR}
+              />
+            </PopoverContent>
+          </Popover>
+          <Select value={bucket} onValueChange={(value: MovementSeriesBucket) => setBucket(value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(movementSeriesBucketLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={itemType} onValueChange={(value: ActivityItemType) => setItemType(value)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pico">Picos (unidades)</SelectItem>
+              <SelectItem value="paletizado">Paletizados (paletes)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as categorias</SelectItem>
+              <SelectItem value="alta_rotacao">Alta Rotação</SelectItem>
+              <SelectItem value="baixa_rotacao">Baixa Rotação</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Entradas ontem: {entriesOn(subDays(today, 1), "pico")} unidades em picos e{" "}
+          {entriesOn(subDays(today, 1), "paletizado")} paletes • hoje: {entriesOn(today, "pico")} unidades em picos e{" "}
+          {entriesOn(today, "paletizado")} paletes
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Carregando...</p>
+        ) : error ? (
+          <p className="text-center text-destructive py-8">{error.message}</p>
+        ) : chartData.length > 0 ? (
+          <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+            <ComposedChart data={chartData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="period"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={16}
+                tickFormatter={(value: string) => formatPeriod(value, bucket)}
+              />
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      payload?.[0] ? `${formatPeriod(payload[0].payload.period, bucket)} (${unit})` : ""
+                    }
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="entries" fill="var(--color-entries)" radius={4} />
+              <Bar dataKey="exits" fill="var(--color-exits)" radius={4} />
+              <Line type="monotone" dataKey="net" stroke="var(--color-net)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-center text-muted-foreground py-8">Selecione um período</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
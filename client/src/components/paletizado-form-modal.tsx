@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,11 +8,19 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getStockConflict } from "@/lib/api";
 import { isUnauthorizedError, handleUnauthorizedError } from "@/lib/auth";
 import ProductAutocomplete from "./product-autocomplete";
-import type { PaletizadoStockWithProduct, Product } from "@shared/schema";
+import LocationSelect from "./location-select";
+import StockConflictAlert from "./stock-conflict-alert";
+import {
+  formatExpiryDate,
+  type Location,
+  type PaletizadoStockWithProduct,
+  type Product,
+  type StockConflict,
+} from "@shared/schema";
 import { toast } from "sonner";
 
 interface PaletizadoFormModalProps {
@@ -26,6 +34,9 @@ interface PaletizadoFormData {
   description: string;
   quantity: number;
   category: string;
+  locationId: number | null;
+  lot: string;
+  expiryDate: string;
 }
 
 export default function PaletizadoFormModal({
@@ -38,28 +49,52 @@ export default function PaletizadoFormModal({
     description: "",
     quantity: 0,
     category: "",
+    locationId: null,
+    lot: "",
+    expiryDate: "",
   });
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  // Version the edit is based on; the server answers 409 when the stock changed since then
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  const [conflict, setConflict] = useState<StockConflict<PaletizadoStockWithProduct> | null>(null);
 
   const queryClient = useQueryClient();
+  const quantityInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const fillForm = (source: PaletizadoStockWithProduct) => {
+    setFormData({
+      productCode: source.product.code,
+      description: source.product.description,
+      quantity: source.quantity,
+      category: source.product.category === "alta_rotacao" ? "Alta Rotação" : "Baixa Rotação",
+      locationId: source.locationId,
+      lot: source.lot ?? "",
+      expiryDate: source.expiryDate ?? "",
+    });
+    setSelectedProduct(source.product);
+    setVersion(source.version);
+  };
 
   useEffect(() => {
+    setConflict(null);
     if (stock) {
-      setFormData({
-        productCode: stock.product.code,
-        description: stock.product.description,
-        quantity: stock.quantity,
-        category: stock.product.category === "alta_rotacao" ? "Alta Rotação" : "Baixa Rotação",
-      });
-      setSelectedProduct(stock.product);
+      fillForm(stock);
     } else {
       setFormData({
         productCode: "",
         description: "",
         quantity: 0,
         category: "",
+        locationId: null,
+        lot: "",
+        expiryDate: "",
       });
       setSelectedProduct(null);
+      setVersion(undefined);
     }
   }, [stock, isOpen]);
 
@@ -76,12 +111,20 @@ export default function PaletizadoFormModal({
   };
 
   const createMutation = useMutation({
-    mutationFn: async (data: { productCode: string; quantity: number }) => {
+    mutationFn: async (data: {
+      productCode: string;
+      quantity: number;
+      locationId: number | null;
+      lot: string;
+      expiryDate: string;
+    }) => {
       return apiRequest<{ message?: string }>("POST", "/api/paletizado-stock", data);
     },
     onSuccess: (response) => {
       queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast.success(response.message || "Estoque criado com sucesso");
       onClose();
     },
@@ -91,18 +134,37 @@ export default function PaletizadoFormModal({
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: { id: number; quantity: number }) => {
+    mutationFn: async (data: {
+      id: number;
+      quantity: number;
+      locationId: number | null;
+      lot: string;
+      expiryDate: string;
+      version?: number;
+    }) => {
       return apiRequest<{ message?: string }>("PUT", `/api/paletizado-stock/${data.id}`, {
         quantity: data.quantity,
+        locationId: data.locationId,
+        lot: data.lot,
+        expiryDate: data.expiryDate,
+        version: data.version,
       });
     },
     onSuccess: (response) => {
       queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast.success(response.message || "Estoque atualizado com sucesso");
       onClose();
     },
     onError: (error) => {
+      const stale = getStockConflict<PaletizadoStockWithProduct>(error);
+      if (stale) {
+        setConflict(stale);
+        queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
+        return;
+      }
       toast.error(error instanceof Error ? error.message : "Erro ao atualizar estoque");
     },
   });
@@ -114,6 +176,8 @@ export default function PaletizadoFormModal({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast.success("Estoque eliminado com sucesso");
       onClose();
     },
@@ -161,18 +225,39 @@ export default function PaletizadoFormModal({
     }
 
     if (stock) {
+      // Submitting while a conflict is shown saves the form over the version that is current now
+      const expectedVersion = conflict ? conflict.current.version : version;
+      setVersion(expectedVersion);
+      setConflict(null);
       updateMutation.mutate({
         id: stock.id,
         quantity,
+        locationId: formData.locationId,
+        lot: formData.lot,
+        expiryDate: formData.expiryDate,
+        version: expectedVersion,
       });
     } else {
       createMutation.mutate({
         productCode: selectedProduct.code,
         quantity,
+        locationId: formData.locationId,
+        lot: formData.lot,
+        expiryDate: formData.expiryDate,
       });
     }
   };
 
+  const handleUseCurrent = () => {
+    if (conflict) {
+      fillForm(conflict.current);
+      setConflict(null);
+    }
+  };
+
+  const locationCode = (id: number | null) =>
+    locations?.find((location) => location.id === id)?.code ?? "Sem endereço";
+
   const handleEliminate = () => {
     if (confirm("Tem certeza que deseja eliminar este estoque? Esta ação não pode ser desfeita.")) {
       deleteMutation.mutate();
@@ -197,6 +282,7 @@ export default function PaletizadoFormModal({
               placeholder="Digite a descrição do produto"
               disabled={!!stock} // Disable for editing
               searchByDescription={true}
+              onScan={() => quantityInputRef.current?.select()}
             />
           </div>
 
@@ -213,6 +299,7 @@ export default function PaletizadoFormModal({
           <div className="space-y-2">
             <Label htmlFor="quantity">Quantidade *</Label>
             <Input
+              ref={quantityInputRef}
               id="quantity"
               type="number"
               min="0"
@@ -222,6 +309,40 @@ export default function PaletizadoFormModal({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="locationId">Endereço</Label>
+            <LocationSelect
+              id="locationId"
+              type="porta_palete"
+              value={formData.locationId}
+              onChange={(locationId) => setFormData(prev => ({ ...prev, locationId }))}
+              allowEmpty
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="lot">Lote</Label>
+              <Input
+                id="lot"
+                value={formData.lot}
+                maxLength={50}
+                onChange={(e) => setFormData(prev => ({ ...prev, lot: e.target.value }))}
+                placeholder="Sem lote"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expiryDate">Validade</Label>
+              <Input
+                id="expiryDate"
+                type="date"
+                value={formData.expiryDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, expiryDate: e.target.value }))}
+              />
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="category">Categoria</Label>
             <Input
@@ -232,6 +353,33 @@ export default function PaletizadoFormModal({
             />
           </div>
 
+          {conflict && (
+            <StockConflictAlert
+              message={conflict.message}
+              updatedBy={conflict.current.updatedByUser?.nickname}
+              fields={[
+                {
+                  label: "Quantidade",
+                  mine: `${formData.quantity} paletes`,
+                  current: `${conflict.current.quantity} paletes`,
+                },
+                {
+                  label: "Endereço",
+                  mine: locationCode(formData.locationId),
+                  current: conflict.current.location?.code ?? "Sem endereço",
+                },
+                { label: "Lote", mine: formData.lot.trim() || "-", current: conflict.current.lot ?? "-" },
+                {
+                  label: "Validade",
+                  mine: formatExpiryDate(formData.expiryDate || null),
+                  current: formatExpiryDate(conflict.current.expiryDate),
+                },
+              ]}
+              onUseCurrent={handleUseCurrent}
+              disabled={updateMutation.isPending}
+            />
+          )}
+
           <div className="flex justify-end gap-2">
             {stock && (
               <Button
@@ -242,7 +390,7 @@ export default function PaletizadoFormModal({
                 Eliminar
               </Button>
             )}
-            <Button type="submit">
+            <Button type="submit" disabled={!!conflict}>
               {stock ? "Atualizar" : "Criar"}
             </Button>
           </div>
@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CreatePickListData, PickList } from "@shared/schema";
+import type { Uom } from "@shared/uom";
+
+interface PickListFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ParsedLines = {
+  lines: CreatePickListData["lines"];
+  invalidRows: number[];
+};
+
+// Optional third column; anything not listed here makes the row invalid
+const uomAliases: Record<string, Uom> = {
+  un: "unit",
+  und: "unit",
+  unid: "unit",
+  unidade: "unit",
+  unidades: "unit",
+  cx: "case",
+  caixa: "case",
+  caixas: "case",
+  base: "base",
+  bases: "base",
+  pl: "pallet",
+  palete: "pallet",
+  paletes: "pallet",
+};
+
+// One "code quantity [uom]" row, separated by tab, semicolon, comma or spaces (as pasted from a spreadsheet)
+function parsePickRequest(text: string): ParsedLines {
+  const lines: CreatePickListData["lines"] = [];
+  const invalidRows: number[] = [];
+
+  text.split(/\r?\n/).forEach((row, index) => {
+    if (!row.trim()) return;
+    const [productCode, quantityText, uomText] = row.trim().split(/[\t;,\s]+/);
+    const quantity = Number(quantityText);
+    const uom = uomText ? uomAliases[uomText.toLowerCase().replace(/\.$/, "")] : "unit";
+    if (!productCode || !Number.isInteger(quantity) || quantity <= 0 || !uom) {
+      invalidRows.push(index + 1);
+      return;
+    }
+    lines.push({ productCode, quantity, uom });
+  });
+
+  return { lines, invalidRows };
+}
+
+export default function PickListFormModal({
+  isOpen,
+  onClose,
+}: PickListFormModalProps) {
+  const [reference, setReference] = useState("");
+  const [requestText, setRequestText] = useState("");
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  useEffect(() => {
+    setReference("");
+    setRequestText("");
+  }, [isOpen]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreatePickListData) => {
+      const response = await apiRequest("POST", "/api/pick-lists", data);
+      return (await response.json()) as PickList;
+    },
+    onSuccess: (pickList) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pick-lists"] });
+      toast({
+        title: "Lista gerada",
+        description: "Os itens foram ordenados pelo percurso de separação.",
+      });
+      onClose();
+      navigate(`/pick-lists/${pickList.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao gerar lista",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { lines, invalidRows } = parsePickRequest(requestText);
+    if (invalidRows.length > 0) {
+      toast({
+        title: "Linhas inválidas",
+        description: `Verifique as linhas ${invalidRows.join(", ")}: informe o código, a quantidade e, opcionalmente, a unidade (un, cx, base ou pl).`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.length === 0) {
+      toast({
+        title: "Nenhum item",
+        description: "Informe ao menos um código e quantidade.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({ reference: reference || null, lines });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Nova Lista de Separação</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reference">Referência</Label>
+            <Input
+              id="reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Ex.: Pedido 4512"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="requestText">Itens *</Label>
+            <Textarea
+              id="requestText"
+              value={requestText}
+              onChange={(e) => setRequestText(e.target.value)}
+              placeholder={"Um item por linha: código, quantidade e unidade (un, cx, base ou pl; padrão un)\n7891234 120\n7895678 3 cx"}
+              className="min-h-[200px] font-mono"
+            />
+            <p className="text-sm text-muted-foreground">
+              Cole direto da planilha. Picos são usados primeiro; o restante sai em paletes fechados.
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="submit" disabled={createMutation.isPending} className="flex-1">
+              {createMutation.isPending ? "Gerando..." : "Gerar lista"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
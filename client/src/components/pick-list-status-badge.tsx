@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+import { pickListStatusLabels, type PickListStatus } from "@shared/schema";
+
+const statusVariants: Record<PickListStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "default",
+  completed: "secondary",
+  cancelled: "destructive",
+};
+
+export default function PickListStatusBadge({ status }: { status: PickListStatus }) {
+  return <Badge variant={statusVariants[status]}>{pickListStatusLabels[status]}</Badge>;
+}
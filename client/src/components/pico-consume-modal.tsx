@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { isUnauthorizedError, handleUnauthorizedError } from "@/lib/auth";
+import type { ConsumePicoData, ConsumePicoResult, PicoWithProduct } from "@shared/schema";
+import { availableUoms, toUnits, uomLabels, type Uom } from "@shared/uom";
+import { toast } from "sonner";
+
+interface PicoConsumeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pico: PicoWithProduct | null;
+}
+
+export default function PicoConsumeModal({
+  isOpen,
+  onClose,
+  pico,
+}: PicoConsumeModalProps) {
+  const [quantity, setQuantity] = useState(1);
+  const [unit, setUnit] = useState<Uom>("unit");
+
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setQuantity(1);
+    setUnit("unit");
+  }, [pico, isOpen]);
+
+  const consumedUnits = pico ? toUnits(quantity, unit, pico.product) ?? 0 : 0;
+  const remainingUnits = pico ? pico.totalUnits - consumedUnits : 0;
+
+  const consumeMutation = useMutation({
+    mutationFn: async (data: ConsumePicoData) => {
+      return apiRequest<ConsumePicoResult>("POST", `/api/picos/${pico!.id}/consume`, data);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
+      toast.success(
+        result.closed
+          ? `Baixa de ${result.consumedUnits} unidades registrada. Pico encerrado.`
+          : `Baixa de ${result.consumedUnits} unidades registrada`
+      );
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        handleUnauthorizedError();
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : "Erro ao dar baixa no pico");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!pico) return;
+
+    if (quantity <= 0) {
+      toast.error("Informe a quantidade a remover");
+      return;
+    }
+
+    if (unit === "base" && quantity > pico.bases) {
+      toast.error(`Bases insuficientes no pico (disponível: ${pico.bases})`);
+      return;
+    }
+
+    if (remainingUnits < 0) {
+      toast.error(`Unidades insuficientes no pico (disponível: ${pico.totalUnits})`);
+      return;
+    }
+
+    if (remainingUnits === 0 && !confirm("O pico ficará zerado e será encerrado. Deseja continuar?")) {
+      return;
+    }
+
+    consumeMutation.mutate({ quantity, unit });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Baixa Parcial</DialogTitle>
+        </DialogHeader>
+
+        {pico && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="rounded-md bg-muted p-3 text-sm">
+              <p className="font-medium">{pico.product.code} - {pico.product.description}</p>
+              <p className="text-muted-foreground">
+                {pico.location.code} • {pico.bases} bases + {pico.looseUnits} unid. soltas = {pico.totalUnits} unidades
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quantity">Quantidade *</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  min="1"
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="unit">Unidade</Label>
+                <Select
+                  value={unit}
+                  onValueChange={(value: Uom) => setUnit(value)}
+                >
+                  <SelectTrigger id="unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableUoms(pico.product).map((uom) => (
+                      <SelectItem key={uom} value={uom}>
+                        {uomLabels[uom]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {remainingUnits >= 0
+                ? `Saída de ${consumedUnits} unidades. Restarão ${remainingUnits} unidades no pico.`
+                : "Quantidade maior que o disponível no pico."}
+            </p>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={consumeMutation.isPending}>
+                {consumeMutation.isPending ? "Registrando..." : "Dar baixa"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
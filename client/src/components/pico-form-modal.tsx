@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,11 +9,23 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { getStockConflict } from "@/lib/api";
 import { isUnauthorizedError, handleUnauthorizedError } from "@/lib/auth-utils";
 import ProductAutocomplete from "./product-autocomplete";
-import type { PicoWithProduct, Product } from "@shared/schema";
+import LocationSelect from "./location-select";
+import QuantityUomInput, { type QuantityUomValue } from "./quantity-uom-input";
+import StockConflictAlert from "./stock-conflict-alert";
+import {
+  formatExpiryDate,
+  type Location,
+  type PicoWithProduct,
+  type Product,
+  type ProductBarcode,
+  type StockConflict,
+} from "@shared/schema";
+import { formatUnitsBreakdown, splitIntoBases, toUnits } from "@shared/uom";
 
 interface PicoFormModalProps {
   isOpen: boolean;
@@ -24,11 +36,11 @@ interface PicoFormModalProps {
 interface PicoFormData {
   productCode: string;
   description: string;
-  bases: number;
-  looseUnits: number;
-  totalUnits: number;
+  quantity: QuantityUomValue;
   category: string;
-  towerLocation: string;
+  locationId: number | null;
+  lot: string;
+  expiryDate: string;
 }
 
 export default function PicoFormModal({
@@ -39,59 +51,80 @@ export default function PicoFormModal({
   const [formData, setFormData] = useState<PicoFormData>({
     productCode: "",
     description: "",
-    bases: 0,
-    looseUnits: 0,
-    totalUnits: 0,
+    quantity: { quantity: 0, uom: "unit" },
     category: "",
-    towerLocation: "",
+    locationId: null,
+    lot: "",
+    expiryDate: "",
   });
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  // Version the edit is based on; the server answers 409 when the pico changed since then
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  const [conflict, setConflict] = useState<StockConflict<PicoWithProduct> | null>(null);
 
   const { toast } = useToast();
+  const quantityInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
 
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const fillForm = (source: PicoWithProduct) => {
+    setFormData({
+      productCode: source.product.code,
+      description: source.product.description,
+      quantity: { quantity: source.totalUnits, uom: "unit" },
+      category: source.product.category === "alta_rotacao" ? "Alta Rotação" : "Baixa Rotação",
+      locationId: source.locationId,
+      lot: source.lot ?? "",
+      expiryDate: source.expiryDate ?? "",
+    });
+    setSelectedProduct(source.product);
+    setVersion(source.version);
+  };
+
   useEffect(() => {
+    setConflict(null);
     if (pico) {
-      setFormData({
-        productCode: pico.product.code,
-        description: pico.product.description,
-        bases: pico.bases,
-        looseUnits: pico.looseUnits,
-        totalUnits: pico.totalUnits,
-        category: pico.product.category === "alta_rotacao" ? "Alta Rotação" : "Baixa Rotação",
-        towerLocation: pico.towerLocation || "",
-      });
-      setSelectedProduct(pico.product);
+      fillForm(pico);
     } else {
       setFormData({
         productCode: "",
         description: "",
-        bases: 0,
-        looseUnits: 0,
-        totalUnits: 0,
+        quantity: { quantity: 0, uom: "unit" },
         category: "",
-        towerLocation: "",
+        locationId: null,
+        lot: "",
+        expiryDate: "",
       });
       setSelectedProduct(null);
+      setVersion(undefined);
     }
   }, [pico, isOpen]);
 
-  // Calculate total units when bases or looseUnits change
-  useEffect(() => {
-    if (selectedProduct) {
-      const totalUnits = (formData.bases * selectedProduct.unitsPerBase) + formData.looseUnits;
-      setFormData(prev => ({ ...prev, totalUnits }));
-    }
-  }, [formData.bases, formData.looseUnits, selectedProduct]);
+  // The quantity is entered in any UoM and stored as closed bases plus loose units
+  const totalUnits = selectedProduct
+    ? toUnits(formData.quantity.quantity, formData.quantity.uom, selectedProduct) ?? 0
+    : 0;
 
   const createMutation = useMutation({
-    mutationFn: async (data: { productCode: string; bases: number; looseUnits: number; towerLocation: string }) => {
+    mutationFn: async (data: {
+      productCode: string;
+      bases: number;
+      looseUnits: number;
+      locationId: number;
+      lot: string;
+      expiryDate: string;
+    }) => {
       const response = await apiRequest("POST", "/api/picos", data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast({
         title: "Pico criado",
         description: "O pico foi criado com sucesso.",
@@ -110,28 +143,6 @@ export default function PicoFormModal({
         }, 500);
         return;
       }
-      // Se o erro for sobre o log de atividade, ainda consideramos como sucesso
-      if (error instanceof Error && error.message.includes("log de atividade")) {
-        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-        toast({
-          title: "Pico criado",
-          description: "O pico foi criado com sucesso.",
-        });
-        onClose();
-        return;
-      }
-      // Se o erro for 400, mas o pico foi criado, consideramos como sucesso
-      if (error instanceof Error && error.message.includes("400")) {
-        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-        toast({
-          title: "Pico criado",
-          description: "O pico foi criado com sucesso.",
-        });
-        onClose();
-        return;
-      }
       toast({
         title: "Erro ao criar pico",
         description: error.message,
@@ -141,13 +152,22 @@ export default function PicoFormModal({
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: { bases: number; looseUnits: number; towerLocation?: string }) => {
+    mutationFn: async (data: {
+      bases: number;
+      looseUnits: number;
+      locationId?: number;
+      lot: string;
+      expiryDate: string;
+      version?: number;
+    }) => {
       const response = await apiRequest("PUT", `/api/picos/${pico!.id}`, data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast({
         title: "Pico atualizado",
         description: "O pico foi atualizado com sucesso.",
@@ -166,6 +186,12 @@ export default function PicoFormModal({
         }, 500);
         return;
       }
+      const stale = getStockConflict<PicoWithProduct>(error);
+      if (stale) {
+        setConflict(stale);
+        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
+        return;
+      }
       toast({
         title: "Erro ao atualizar pico",
         description: error.message,
@@ -181,6 +207,8 @@ export default function PicoFormModal({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast({
         title: "Pico eliminado",
         description: "O pico foi eliminado com sucesso.",
@@ -199,28 +227,6 @@ export default function PicoFormModal({
         }, 500);
         return;
       }
-      // Se o erro for sobre o log de atividade, ainda consideramos como sucesso
-      if (error instanceof Error && error.message.includes("log de atividade")) {
-        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-        toast({
-          title: "Pico eliminado",
-          description: "O pico foi eliminado com sucesso.",
-        });
-        onClose();
-        return;
-      }
-      // Se o erro for 400, mas o pico foi eliminado, consideramos como sucesso
-      if (error instanceof Error && error.message.includes("400")) {
-        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-        toast({
-          title: "Pico eliminado",
-          description: "O pico foi eliminado com sucesso.",
-        });
-        onClose();
-        return;
-      }
       toast({
         title: "Erro ao eliminar pico",
         description: error.message,
@@ -245,11 +251,21 @@ export default function PicoFormModal({
         ...prev,
         description: "",
         category: "",
-        totalUnits: 0,
       }));
     }
   };
 
+  // A case barcode (e.g. DUN-14) fills in its quantity; one matching the product's case size counts as 1 case
+  const handleScan = (product: Product, barcode: ProductBarcode | null) => {
+    if (barcode && barcode.units > 1) {
+      const quantity: QuantityUomValue = barcode.units === product.unitsPerCase
+        ? { quantity: 1, uom: "case" }
+        : { quantity: barcode.units, uom: "unit" };
+      setFormData(prev => ({ ...prev, quantity }));
+    }
+    quantityInputRef.current?.select();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -262,55 +278,70 @@ export default function PicoFormModal({
       return;
     }
 
-    if (formData.bases < 0 || formData.looseUnits < 0) {
+    if (totalUnits < 0) {
       toast({
         title: "Valores inválidos",
-        description: "Bases e unidades soltas não podem ser negativos.",
+        description: "A quantidade não pode ser negativa.",
         variant: "destructive",
       });
       return;
     }
 
-    if (formData.bases === 0 && formData.looseUnits === 0) {
+    if (totalUnits === 0) {
       toast({
         title: "Quantidade obrigatória",
-        description: "Informe pelo menos bases ou unidades soltas.",
+        description: "Informe a quantidade do pico.",
         variant: "destructive",
       });
       return;
     }
 
-    // Validar formato da torre
-    if (formData.towerLocation && !/^\d{2}$/.test(formData.towerLocation)) {
+    if (!formData.locationId) {
       toast({
-        title: "Formato inválido",
-        description: "A torre deve ter exatamente 2 dígitos (ex: 01, 12).",
+        title: "Endereço obrigatório",
+        description: "Selecione o endereço de picking do pico.",
         variant: "destructive",
       });
       return;
     }
 
+    const { bases, looseUnits } = splitIntoBases(totalUnits, selectedProduct);
     if (pico) {
+      // Submitting while a conflict is shown saves the form over the version that is current now
+      const expectedVersion = conflict ? conflict.current.version : version;
+      setVersion(expectedVersion);
+      setConflict(null);
       updateMutation.mutate({
-        bases: formData.bases,
-        looseUnits: formData.looseUnits,
-        towerLocation: formData.towerLocation,
+        bases,
+        looseUnits,
+        locationId: formData.locationId,
+        lot: formData.lot,
+        expiryDate: formData.expiryDate,
+        version: expectedVersion,
       });
     } else {
       createMutation.mutate({
         productCode: formData.productCode,
-        bases: formData.bases,
-        looseUnits: formData.looseUnits,
-        towerLocation: formData.towerLocation,
+        bases,
+        looseUnits,
+        locationId: formData.locationId,
+        lot: formData.lot,
+        expiryDate: formData.expiryDate,
       });
     }
   };
 
-  const handleTowerLocationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, '').slice(0, 2).padStart(2, '0');
-    setFormData(prev => ({ ...prev, towerLocation: value }));
+  const handleUseCurrent = () => {
+    if (conflict) {
+      fillForm(conflict.current);
+      setConflict(null);
+    }
   };
 
+  const locationCode = (id: number | null) => locations?.find((location) => location.id === id)?.code ?? "-";
+
+  const isPending = createMutation.isPending || updateMutation.isPending || deleteMutation.isPending;
+
   const handleEliminate = () => {
     if (confirm("Tem certeza que deseja eliminar este pico? Esta ação não pode ser desfeita.")) {
       deleteMutation.mutate();
@@ -332,6 +363,7 @@ export default function PicoFormModal({
               placeholder="Digite a descrição do produto"
               disabled={!!pico} // Disable for editing
               searchByDescription={true}
+              onScan={handleScan}
             />
           </div>
 
@@ -357,41 +389,22 @@ export default function PicoFormModal({
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="bases">Bases</Label>
-              <Input
-                id="bases"
-                type="number"
-                value={formData.bases}
-                onChange={(e) =>
-                  setFormData({ ...formData, bases: parseInt(e.target.value) || 0 })
-                }
-                placeholder="0"
-                min="0"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="looseUnits">Unidades Soltas</Label>
-              <Input
-                id="looseUnits"
-                type="number"
-                value={formData.looseUnits}
-                onChange={(e) =>
-                  setFormData({ ...formData, looseUnits: parseInt(e.target.value) || 0 })
-                }
-                placeholder="0"
-                min="0"
-              />
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="quantity">Quantidade *</Label>
+            <QuantityUomInput
+              ref={quantityInputRef}
+              id="quantity"
+              value={formData.quantity}
+              onChange={(quantity) => setFormData(prev => ({ ...prev, quantity }))}
+              product={selectedProduct}
+            />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="totalUnits">Total de Unidades</Label>
             <Input
               id="totalUnits"
-              value={formData.totalUnits}
+              value={selectedProduct ? `${totalUnits} (${formatUnitsBreakdown(totalUnits, selectedProduct)})` : ""}
               placeholder="Calculado automaticamente"
               readOnly
               className="bg-muted font-medium"
@@ -399,34 +412,79 @@ export default function PicoFormModal({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="towerLocation">Localização Torre *</Label>
-            <Input
-              id="towerLocation"
-              value={formData.towerLocation}
-              onChange={handleTowerLocationChange}
-              placeholder="01"
-              maxLength={2}
-              className="w-20"
+            <Label htmlFor="locationId">Endereço *</Label>
+            <LocationSelect
+              id="locationId"
+              type="picking"
+              value={formData.locationId}
+              onChange={(locationId) => setFormData(prev => ({ ...prev, locationId }))}
             />
-            <p className="text-sm text-muted-foreground">
-              {formData.towerLocation && `Torre${formData.towerLocation.padStart(2, '0')}`}
-            </p>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="lot">Lote</Label>
+              <Input
+                id="lot"
+                value={formData.lot}
+                maxLength={50}
+                onChange={(e) => setFormData({ ...formData, lot: e.target.value })}
+                placeholder="Sem lote"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expiryDate">Validade</Label>
+              <Input
+                id="expiryDate"
+                type="date"
+                value={formData.expiryDate}
+                onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {conflict && (
+            <StockConflictAlert
+              message={conflict.message}
+              updatedBy={conflict.current.updatedByUser?.nickname}
+              fields={[
+                {
+                  label: "Quantidade",
+                  mine: `${totalUnits} unid.`,
+                  current: `${conflict.current.totalUnits} unid.`,
+                },
+                {
+                  label: "Endereço",
+                  mine: locationCode(formData.locationId),
+                  current: conflict.current.location.code,
+                },
+                { label: "Lote", mine: formData.lot.trim() || "-", current: conflict.current.lot ?? "-" },
+                {
+                  label: "Validade",
+                  mine: formatExpiryDate(formData.expiryDate || null),
+                  current: formatExpiryDate(conflict.current.expiryDate),
+                },
+              ]}
+              onUseCurrent={handleUseCurrent}
+              disabled={isPending}
+            />
+          )}
+
           <div className="flex justify-end gap-2">
             {pico && (
               <Button
                 type="button"
                 variant="destructive"
                 onClick={handleEliminate}
-                disabled={createMutation.isPending || updateMutation.isPending || deleteMutation.isPending}
+                disabled={isPending}
               >
                 Eliminar
               </Button>
             )}
             <Button
               type="submit"
-              disabled={createMutation.isPending || updateMutation.isPending || deleteMutation.isPending}
+              disabled={isPending || !!conflict}
             >
               {pico ? "Atualizar" : "Criar"}
             </Button>
@@ -0,0 +1,241 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { isUnauthorizedError, handleUnauthorizedError } from "@/lib/auth";
+import ProductAutocomplete from "./product-autocomplete";
+import LocationSelect from "./location-select";
+import {
+  formatExpiryDate,
+  sortByFefo,
+  type Location,
+  type PaletizadoStockWithProduct,
+  type Product,
+  type ReplenishPicoData,
+  type ReplenishPicoResult,
+} from "@shared/schema";
+import { unitsPerPallet } from "@shared/uom";
+import { toast } from "sonner";
+
+interface PicoReplenishModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stock?: PaletizadoStockWithProduct | null;
+}
+
+export default function PicoReplenishModal({
+  isOpen,
+  onClose,
+  stock,
+}: PicoReplenishModalProps) {
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [productDescription, setProductDescription] = useState("");
+  const [sourceId, setSourceId] = useState<number | null>(null);
+  const [pallets, setPallets] = useState(1);
+  const [location, setLocation] = useState<Location | null>(null);
+
+  const palletsInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+
+  const { data: paletizadoStock } = useQuery<PaletizadoStockWithProduct[]>({
+    queryKey: ["/api/paletizado-stock"],
+  });
+
+  useEffect(() => {
+    setSelectedProduct(stock?.product ?? null);
+    setProductDescription(stock?.product.description ?? "");
+    setSourceId(stock?.id ?? null);
+    setPallets(1);
+    setLocation(null);
+  }, [stock, isOpen]);
+
+  // Registros paletizados do produto com saldo, em ordem FEFO (o primeiro é a sugestão)
+  const sources = selectedProduct
+    ? sortByFefo(paletizadoStock?.filter((item) => item.productId === selectedProduct.id && item.quantity > 0) ?? [])
+    : [];
+  const fefoSource = sources[0] ?? null;
+  const source = sources.find((item) => item.id === sourceId) ?? null;
+  const availablePallets = source?.quantity ?? 0;
+  const addedBases = selectedProduct ? pallets * selectedProduct.quantityBases : 0;
+  const addedUnits = selectedProduct ? pallets * unitsPerPallet(selectedProduct) : 0;
+
+  const replenishMutation = useMutation({
+    mutationFn: async (data: ReplenishPicoData) => {
+      return apiRequest<ReplenishPicoResult>("POST", "/api/picos/replenish", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
+      toast.success("Pico reposto com sucesso");
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        handleUnauthorizedError();
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : "Erro ao repor pico");
+    },
+  });
+
+  const handleProductSelect = (code: string, product?: Product) => {
+    setSelectedProduct(code && product ? product : null);
+    setProductDescription(product?.description ?? "");
+
+    // Sugere a origem FEFO ao escolher o produto
+    const productSources = code && product
+      ? sortByFefo(paletizadoStock?.filter((item) => item.productId === product.id && item.quantity > 0) ?? [])
+      : [];
+    setSourceId(productSources[0]?.id ?? null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedProduct) {
+      toast.error("Selecione um produto");
+      return;
+    }
+
+    if (!source) {
+      toast.error("Selecione o estoque paletizado de origem");
+      return;
+    }
+
+    if (pallets <= 0) {
+      toast.error("Informe a quantidade de paletes");
+      return;
+    }
+
+    if (pallets > availablePallets) {
+      toast.error(`Estoque paletizado insuficiente (disponível: ${availablePallets} paletes)`);
+      return;
+    }
+
+    if (!location) {
+      toast.error("Selecione o endereço de destino");
+      return;
+    }
+
+    replenishMutation.mutate({
+      paletizadoStockId: source.id,
+      pallets,
+      locationId: location.id,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Repor Pico</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="description">Produto *</Label>
+            <ProductAutocomplete
+              value={productDescription}
+              onChange={handleProductSelect}
+              placeholder="Digite a descrição do produto"
+              disabled={!!stock}
+              searchByDescription={true}
+              onScan={() => palletsInputRef.current?.select()}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="source">Origem *</Label>
+            <Select
+              value={sourceId ? String(sourceId) : ""}
+              onValueChange={(value) => setSourceId(Number(value))}
+              disabled={!selectedProduct || sources.length === 0}
+            >
+              <SelectTrigger id="source">
+                <SelectValue
+                  placeholder={
+                    selectedProduct && sources.length === 0
+                      ? "Sem estoque paletizado"
+                      : "Selecione o estoque de origem"
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.location?.code ?? "Sem endereço"} • Lote {item.lot ?? "-"} • Val. {formatExpiryDate(item.expiryDate)} • {item.quantity} paletes
+                    {item.id === fefoSource?.id && item.expiryDate ? " (FEFO)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {source && fefoSource?.expiryDate && source.id !== fefoSource.id && (
+              <p className="text-sm text-orange-600">
+                Sugestão FEFO: {fefoSource.location?.code ?? "sem endereço"}, lote {fefoSource.lot ?? "-"},
+                validade {formatExpiryDate(fefoSource.expiryDate)}.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pallets">Paletes *</Label>
+              <Input
+                ref={palletsInputRef}
+                id="pallets"
+                type="number"
+                min="1"
+                value={pallets}
+                onChange={(e) => setPallets(parseInt(e.target.value) || 0)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="locationId">Endereço destino *</Label>
+              <LocationSelect
+                id="locationId"
+                type="picking"
+                value={location?.id ?? null}
+                onChange={(_, selected) => setLocation(selected ?? null)}
+                placeholder="Selecione"
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {selectedProduct
+              ? `Serão adicionadas ${addedBases} bases (${addedUnits} unidades) ao pico${location ? ` em ${location.code}` : ""}.`
+              : "Selecione um produto para calcular as bases."}
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={replenishMutation.isPending}>
+              {replenishMutation.isPending ? "Repondo..." : "Repor"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,38 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Check, ChevronDown } from "lucide-react";
+import { Check, ChevronDown, ScanLine } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import type { Product } from "@shared/schema";
+import CameraScanner from "./camera-scanner";
+import type { Product, ProductBarcode, ProductBarcodeLookup } from "@shared/schema";
+
+// Keyboard-wedge scanners type the whole code a few milliseconds per key and finish with Enter
+const SCANNER_KEY_INTERVAL_MS = 50;
+// Shorter fast bursts are taken as typing, not as a scanned code
+const MIN_SCANNED_CODE_LENGTH = 4;
+
+// Exact internal code or alternate barcode from the cached lists, then the server; throws when the lookup fails
+async function resolveScannedCode(
+  code: string,
+  products: Product[] | undefined,
+  barcodes: ProductBarcode[] | undefined,
+): Promise<ProductBarcodeLookup | null> {
+  const byCode = products?.find((product) => product.code === code);
+  if (byCode) return { product: byCode, barcode: null };
+  const barcode = barcodes?.find((item) => item.code === code);
+  const byBarcode = barcode && products?.find((product) => product.id === barcode.productId);
+  if (byBarcode) return { product: byBarcode, barcode };
+  const res = await fetch(`/api/products/lookup/${encodeURIComponent(code)}`, { credentials: "include" });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`Erro ao buscar o código ${code} (${res.status})`);
+  }
+  return res.json();
+}
 
 interface ProductAutocompleteProps {
   value: string;
@@ -13,6 +40,9 @@ interface ProductAutocompleteProps {
   placeholder?: string;
   disabled?: boolean;
   searchByDescription?: boolean;
+  // Scan mode: shows the camera button and is called once a scanned code resolves, e.g. to focus the quantity.
+  // barcode is the alternate code that was read (null for the internal code), with the units it represents
+  onScan?: (product: Product, barcode: ProductBarcode | null) => void;
 }
 
 export default function ProductAutocomplete({
@@ -21,24 +51,36 @@ export default function ProductAutocomplete({
   placeholder = "Digite o código do produto",
   disabled = false,
   searchByDescription = false,
+  onScan,
 }: ProductAutocompleteProps) {
   const [open, setOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState(value);
   const [displayValue, setDisplayValue] = useState(value);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const lastKeyAt = useRef(0);
+  const rapidInput = useRef(false);
+  const burstLength = useRef(0);
+  const { toast } = useToast();
 
   const { data: allProducts } = useQuery<Product[]>({
     queryKey: ["/api/products"],
   });
 
-  // Filter products based on search mode and term
+  const { data: allBarcodes } = useQuery<ProductBarcode[]>({
+    queryKey: ["/api/product-barcodes"],
+  });
+
+  // Filter products based on search mode and term; code search also matches alternate barcodes
   const filteredProducts = allProducts?.filter(product => {
     if (!searchTerm || searchTerm.length < 2) return false;
     
     if (searchByDescription) {
       return product.description.toLowerCase().includes(searchTerm.toLowerCase());
     } else {
-      return product.code.toLowerCase().includes(searchTerm.toLowerCase());
+      const term = searchTerm.toLowerCase();
+      return product.code.toLowerCase().includes(term) ||
+        !!allBarcodes?.some(barcode => barcode.productId === product.id && barcode.code.toLowerCase().includes(term));
     }
   });
 
@@ -64,6 +106,62 @@ export default function ProductAutocomplete({
     setOpen(false);
   };
 
+  const handleScan = async (scanned: string) => {
+    const code = scanned.trim();
+    if (!code) return;
+    setOpen(false);
+    let lookup: ProductBarcodeLookup | null;
+    try {
+      lookup = await resolveScannedCode(code, allProducts, allBarcodes);
+    } catch (error) {
+      toast({
+        title: "Erro ao ler código",
+        description: error instanceof Error ? error.message : "Falha na comunicação com o servidor",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!lookup) {
+      toast({
+        title: "Código não encontrado",
+        description: `Nenhum produto com o código ${code}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    handleSelect(lookup.product);
+    onScan?.(lookup.product, lookup.barcode);
+  };
+
+  const handleCameraDetected = (scanned: string) => {
+    setIsCameraOpen(false);
+    handleScan(scanned);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      if (!displayValue.trim()) return;
+      // Only a burst that typed the whole value, with Enter right after it, is a scanned code
+      const scanned = burstLength.current >= Math.max(displayValue.length, MIN_SCANNED_CODE_LENGTH) &&
+        performance.now() - lastKeyAt.current < SCANNER_KEY_INTERVAL_MS;
+      if (scanned) {
+        e.preventDefault();
+        handleScan(displayValue);
+      } else if (filteredProducts?.length === 1) {
+        // A single suggestion typed by hand is picked as is; otherwise Enter keeps its usual behaviour
+        e.preventDefault();
+        handleSelect(filteredProducts[0]);
+      }
+      return;
+    }
+    if (e.key.length === 1) {
+      const now = performance.now();
+      rapidInput.current = now - lastKeyAt.current < SCANNER_KEY_INTERVAL_MS;
+      burstLength.current = rapidInput.current ? burstLength.current + 1 : 1;
+      lastKeyAt.current = now;
+    }
+  };
+
   const handleInputChange = (inputValue: string) => {
     setDisplayValue(inputValue);
     setSearchTerm(inputValue);
@@ -75,24 +173,26 @@ export default function ProductAutocomplete({
       onChange(inputValue);
     }
     
-    // Only open dropdown if search term is 2+ characters
-    if (inputValue && inputValue.length >= 2) {
+    // Only open dropdown if search term is 2+ characters, and not while a scanner is typing
+    if (inputValue && inputValue.length >= 2 && !rapidInput.current) {
       setOpen(true);
     } else {
       setOpen(false);
     }
   };
 
-  return (
+  const autocomplete = (
     <Popover open={open} onOpenChange={setOpen}>
       <PopoverTrigger asChild>
-        <div className="relative">
+        <div className="relative flex-1">
           <Input
             ref={inputRef}
             value={displayValue}
             onChange={(e) => handleInputChange(e.target.value)}
+            onKeyDown={handleKeyDown}
             placeholder={placeholder}
             disabled={disabled}
+            autoFocus={!!onScan && !disabled}
             className="pr-8"
           />
           <ChevronDown className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 opacity-50" />
@@ -148,4 +248,27 @@ export default function ProductAutocomplete({
       </PopoverContent>
     </Popover>
   );
+
+  if (!onScan) return autocomplete;
+
+  return (
+    <div className="flex gap-2">
+      {autocomplete}
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => setIsCameraOpen(true)}
+        disabled={disabled}
+        title="Ler código pela câmera"
+      >
+        <ScanLine className="h-4 w-4" />
+      </Button>
+      <CameraScanner
+        isOpen={isCameraOpen}
+        onClose={() => setIsCameraOpen(false)}
+        onDetected={handleCameraDetected}
+      />
+    </div>
+  );
 }
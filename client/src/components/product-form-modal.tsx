@@ -17,9 +17,33 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { Product, InsertProduct } from "@shared/schema";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  checkStockThresholds,
+  barcodeTypeLabels,
+  type Product,
+  type InsertProduct,
+  type ProductBarcode,
+  type BarcodeType,
+} from "@shared/schema";
+import { checkPackaging } from "@shared/uom";
+
+type ThresholdField = "minPicoUnits" | "maxPicoUnits" | "minPaletizadoPallets" | "maxPaletizadoPallets";
+
+const emptyThresholds = {
+  minPicoUnits: null,
+  maxPicoUnits: null,
+  minPaletizadoPallets: null,
+  maxPaletizadoPallets: null,
+};
+
+type BarcodeRow = {
+  code: string;
+  type: BarcodeType;
+  units: string;
+};
 
 interface ProductFormModalProps {
   isOpen: boolean;
@@ -37,12 +61,49 @@ export default function ProductFormModal({
     description: "",
     quantityBases: 0,
     unitsPerBase: 0,
+    unitsPerCase: null,
     category: "baixa_rotacao",
+    ...emptyThresholds,
   });
 
+  const [barcodes, setBarcodes] = useState<BarcodeRow[]>([]);
+
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: savedBarcodes } = useQuery<ProductBarcode[]>({
+    queryKey: [`/api/products/${product?.id}/barcodes`],
+    enabled: isOpen && !!product,
+  });
+
+  useEffect(() => {
+    setBarcodes(
+      product && savedBarcodes
+        ? savedBarcodes.map((barcode) => ({ code: barcode.code, type: barcode.type, units: barcode.units.toString() }))
+        : []
+    );
+  }, [product, savedBarcodes, isOpen]);
+
+  // Saved after the product itself; blank rows are dropped
+  const saveBarcodes = async (productId: number) => {
+    const rows = barcodes.filter((row) => row.code.trim());
+    if (!product && rows.length === 0) return;
+    await apiRequest("PUT", `/api/products/${productId}/barcodes`, {
+      barcodes: rows.map((row) => ({ code: row.code.trim(), type: row.type, units: parseInt(row.units) || 0 })),
+    });
+  };
+
+  const invalidateBarcodes = (productId?: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/product-barcodes"] });
+    if (productId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/products/${productId}/barcodes`] });
+    }
+  };
+
+  const updateBarcode = (index: number, changes: Partial<BarcodeRow>) => {
+    setBarcodes((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
   useEffect(() => {
     if (product) {
       setFormData({
@@ -50,7 +111,12 @@ export default function ProductFormModal({
         description: product.description,
         quantityBases: product.quantityBases,
         unitsPerBase: product.unitsPerBase,
+        unitsPerCase: product.unitsPerCase,
         category: product.category,
+        minPicoUnits: product.minPicoUnits,
+        maxPicoUnits: product.maxPicoUnits,
+        minPaletizadoPallets: product.minPaletizadoPallets,
+        maxPaletizadoPallets: product.maxPaletizadoPallets,
       });
     } else {
       setFormData({
@@ -58,7 +124,9 @@ export default function ProductFormModal({
         description: "",
         quantityBases: 0,
         unitsPerBase: 0,
+        unitsPerCase: null,
         category: "baixa_rotacao",
+        ...emptyThresholds,
       });
     }
   }, [product, isOpen]);
@@ -66,10 +134,14 @@ export default function ProductFormModal({
   const createMutation = useMutation({
     mutationFn: async (data: InsertProduct) => {
       const response = await apiRequest("POST", "/api/products", data);
-      return response.json();
+      const created = (await response.json()) as Product;
+      await saveBarcodes(created.id);
+      return created;
     },
-    onSuccess: () => {
+    onSuccess: (created) => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      invalidateBarcodes(created.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast({
         title: "Produto criado",
         description: "O produto foi criado com sucesso.",
@@ -88,10 +160,13 @@ export default function ProductFormModal({
   const updateMutation = useMutation({
     mutationFn: async (data: Partial<InsertProduct>) => {
       const response = await apiRequest("PUT", `/api/products/${product!.id}`, data);
+      await saveBarcodes(product!.id);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      invalidateBarcodes(product?.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast({
         title: "Produto atualizado",
         description: "O produto foi atualizado com sucesso.",
@@ -128,6 +203,26 @@ export default function ProductFormModal({
       return;
     }
 
+    const packagingError = checkPackaging(formData);
+    if (packagingError) {
+      toast({
+        title: "Embalagem inválida",
+        description: packagingError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const thresholdError = checkStockThresholds(formData);
+    if (thresholdError) {
+      toast({
+        title: "Limites inválidos",
+        description: thresholdError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (product) {
       // For editing, category cannot be changed as per requirements
       const updates = {
@@ -135,6 +230,11 @@ export default function ProductFormModal({
         description: formData.description,
         quantityBases: formData.quantityBases,
         unitsPerBase: formData.unitsPerBase,
+        unitsPerCase: formData.unitsPerCase,
+        minPicoUnits: formData.minPicoUnits,
+        maxPicoUnits: formData.maxPicoUnits,
+        minPaletizadoPallets: formData.minPaletizadoPallets,
+        maxPaletizadoPallets: formData.maxPaletizadoPallets,
         // category is not included in updates to maintain immutability
       };
       updateMutation.mutate(updates);
@@ -143,9 +243,31 @@ export default function ProductFormModal({
     }
   };
 
+  // Empty threshold inputs mean "no threshold"
+  const setThreshold = (field: ThresholdField, value: string) => {
+    setFormData({
+      ...formData,
+      [field]: value === "" ? null : Math.max(parseInt(value) || 0, 0),
+    });
+  };
+
+  const thresholdInput = (field: ThresholdField, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        type="number"
+        min="0"
+        value={formData[field] ?? ""}
+        onChange={(e) => setThreshold(field, e.target.value)}
+        placeholder="Sem limite"
+      />
+    </div>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {product ? "Editar Produto" : "Novo Produto"}
@@ -217,6 +339,26 @@ export default function ProductFormModal({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="unitsPerCase">Unidades/Caixa</Label>
+            <Input
+              id="unitsPerCase"
+              type="number"
+              min="1"
+              value={formData.unitsPerCase ?? ""}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  unitsPerCase: e.target.value === "" ? null : Math.max(parseInt(e.target.value) || 0, 1),
+                })
+              }
+              placeholder="Sem caixa"
+            />
+            <p className="text-xs text-muted-foreground">
+              Opcional. Permite lançar quantidades em caixas além de unidades, bases e paletes.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="category">
               Categoria * {product && "(não pode ser alterada)"}
@@ -238,6 +380,80 @@ export default function ProductFormModal({
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Limites de reposição</p>
+            <div className="grid grid-cols-2 gap-4">
+              {thresholdInput("minPicoUnits", "Mín. pico (unid.)")}
+              {thresholdInput("maxPicoUnits", "Máx. pico (unid.)")}
+              {thresholdInput("minPaletizadoPallets", "Mín. paletes")}
+              {thresholdInput("maxPaletizadoPallets", "Máx. paletes")}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Códigos de barras alternativos</p>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setBarcodes((rows) => [...rows, { code: "", type: "ean13", units: "1" }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar
+              </Button>
+            </div>
+            {barcodes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                EAN-13, DUN-14 ou outros códigos do fornecedor que também identificam este produto.
+              </p>
+            ) : (
+              barcodes.map((row, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={row.code}
+                    onChange={(e) => updateBarcode(index, { code: e.target.value })}
+                    placeholder="Código"
+                    className="flex-1"
+                  />
+                  <Select value={row.type} onValueChange={(value: BarcodeType) => updateBarcode(index, { type: value })}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(barcodeTypeLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={row.units}
+                    onChange={(e) => updateBarcode(index, { units: e.target.value })}
+                    className="w-20"
+                    title="Unidades por leitura (quantidade da caixa para DUN-14)"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setBarcodes((rows) => rows.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            {barcodes.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                O número ao lado do tipo é a quantidade de unidades que uma leitura representa.
+              </p>
+            )}
+          </div>
+
           <div className="flex gap-3 pt-4">
             <Button
               type="submit"
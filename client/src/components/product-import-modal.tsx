@@ -0,0 +1,182 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ProductImportResult, ProductImportRow } from "@shared/schema";
+
+interface ProductImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const actionBadges: Record<ProductImportRow["action"], { label: string; variant: "default" | "secondary" | "outline" }> = {
+  create: { label: "Criar", variant: "default" },
+  update: { label: "Atualizar", variant: "secondary" },
+  skip: { label: "Ignorar", variant: "outline" },
+};
+
+// The file goes as the raw request body; the format comes from its extension
+async function uploadImport(file: File, dryRun: boolean): Promise<ProductImportResult> {
+  const format = file.name.toLowerCase().endsWith(".xlsx") ? "xlsx" : "csv";
+  const res = await fetch(`/api/products/import?format=${format}&dryRun=${dryRun}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message ?? res.statusText);
+  }
+  return res.json();
+}
+
+export default function ProductImportModal({ isOpen, onClose }: ProductImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ProductImportResult | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setFile(null);
+    setPreview(null);
+  }, [isOpen]);
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) => uploadImport(selected, true),
+    onSuccess: setPreview,
+    onError: (error) => {
+      setPreview(null);
+      toast({
+        title: "Erro ao ler arquivo",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selected: File) => uploadImport(selected, false),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
+      toast({
+        title: "Importação concluída",
+        description: `${result.created} criado(s), ${result.updated} atualizado(s), ${result.skipped} ignorado(s).`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao importar produtos",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    if (selected) {
+      previewMutation.mutate(selected);
+    }
+  };
+
+  const invalidRows = preview?.rows.filter((row) => row.errors.length > 0).length ?? 0;
+  const hasChanges = !!preview && preview.created + preview.updated > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Importar Paletizados</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="importFile">Arquivo CSV ou XLSX</Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Colunas: código, descrição, qtd. bases, unidades/base e categoria (alta ou baixa rotação); unidades/caixa é opcional.
+              Produtos com o mesmo código são atualizados.
+            </p>
+          </div>
+
+          {previewMutation.isPending && (
+            <p className="text-center text-muted-foreground py-4">Validando arquivo...</p>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex gap-4 text-sm">
+                <span>{preview.created} a criar</span>
+                <span>{preview.updated} a atualizar</span>
+                <span>{preview.skipped} ignorado(s)</span>
+                {invalidRows > 0 && (
+                  <span className="text-destructive font-medium">{invalidRows} com erro</span>
+                )}
+              </div>
+              <div className="max-h-80 overflow-y-auto border rounded-md">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Linha</th>
+                      <th>Código</th>
+                      <th>Descrição</th>
+                      <th>Ação</th>
+                      <th>Erros</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map((row) => (
+                      <tr key={row.line}>
+                        <td>{row.line}</td>
+                        <td className="font-medium">{row.code || "-"}</td>
+                        <td>{row.description || "-"}</td>
+                        <td>
+                          <Badge variant={row.errors.length > 0 ? "destructive" : actionBadges[row.action].variant}>
+                            {row.errors.length > 0 ? "Erro" : actionBadges[row.action].label}
+                          </Badge>
+                        </td>
+                        <td className="text-sm text-destructive">{row.errors.join("; ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              onClick={() => file && importMutation.mutate(file)}
+              disabled={!hasChanges || importMutation.isPending || previewMutation.isPending}
+              className="flex-1"
+            >
+              {importMutation.isPending ? "Importando..." : "Importar"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
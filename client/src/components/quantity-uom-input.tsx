@@ -0,0 +1,86 @@
+import { forwardRef, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  availableUoms,
+  toUnits,
+  uomLabels,
+  type PackagingHierarchy,
+  type Uom,
+} from "@shared/uom";
+
+export type QuantityUomValue = {
+  quantity: number;
+  uom: Uom;
+};
+
+interface QuantityUomInputProps {
+  id?: string;
+  value: QuantityUomValue;
+  onChange: (value: QuantityUomValue) => void;
+  product: PackagingHierarchy | null;
+  min?: number;
+  disabled?: boolean;
+}
+
+// Number input plus the UoMs the product has configured; the hint shows the amount in units
+const QuantityUomInput = forwardRef<HTMLInputElement, QuantityUomInputProps>(
+  ({ id, value, onChange, product, min = 0, disabled }, ref) => {
+    const uoms = product ? availableUoms(product) : (["unit"] as Uom[]);
+    const units = product ? toUnits(value.quantity, value.uom, product) : null;
+
+    // A product without a case size can't keep "case" selected
+    useEffect(() => {
+      if (!uoms.includes(value.uom)) {
+        onChange({ ...value, uom: "unit" });
+      }
+    }, [product, value.uom]);
+
+    return (
+      <div className="space-y-1">
+        <div className="flex gap-2">
+          <Input
+            ref={ref}
+            id={id}
+            type="number"
+            min={min}
+            value={value.quantity}
+            onChange={(e) => onChange({ ...value, quantity: parseInt(e.target.value) || 0 })}
+            placeholder="0"
+            disabled={disabled}
+            className="flex-1"
+          />
+          <Select
+            value={value.uom}
+            onValueChange={(uom: Uom) => onChange({ ...value, uom })}
+            disabled={disabled || !product}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {uoms.map((uom) => (
+                <SelectItem key={uom} value={uom}>
+                  {uomLabels[uom]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {units !== null && value.uom !== "unit" && (
+          <p className="text-xs text-muted-foreground">= {units} unidades</p>
+        )}
+      </div>
+    );
+  }
+);
+
+QuantityUomInput.displayName = "QuantityUomInput";
+
+export default QuantityUomInput;
@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { ReplenishmentAlert } from "@shared/schema";
+
+export default function ReplenishmentAlertsCard() {
+  const { data: alerts, isLoading } = useQuery<ReplenishmentAlert[]>({
+    queryKey: ["/api/replenishment/alerts"],
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <AlertTriangle className="h-5 w-5 text-red-500 mr-2" />
+          Reposição Necessária
+          {alerts && alerts.length > 0 && (
+            <Badge variant="destructive" className="ml-2">
+              {alerts.length}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Carregando...</p>
+        ) : alerts && alerts.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Produto</th>
+                  <th>Categoria</th>
+                  <th>Pico (unid.)</th>
+                  <th>Paletizado (paletes)</th>
+                  <th>Sugestão</th>
+                </tr>
+              </thead>
+              <tbody>
+                {alerts.map((alert) => (
+                  <tr key={alert.product.id}>
+                    <td>
+                      <span className="font-medium">{alert.product.code}</span> - {alert.product.description}
+                    </td>
+                    <td>
+                      <Badge
+                        variant={alert.product.category === "alta_rotacao" ? "default" : "secondary"}
+                      >
+                        {alert.product.category === "alta_rotacao" ? "Alta" : "Baixa"}
+                      </Badge>
+                    </td>
+                    <td className={alert.picoShortfall > 0 ? "text-destructive font-medium" : undefined}>
+                      {alert.picoUnits}
+                      {alert.product.minPicoUnits !== null && ` / mín. ${alert.product.minPicoUnits}`}
+                    </td>
+                    <td className={alert.paletizadoShortfall > 0 ? "text-destructive font-medium" : undefined}>
+                      {alert.paletizadoPallets}
+                      {alert.product.minPaletizadoPallets !== null && ` / mín. ${alert.product.minPaletizadoPallets}`}
+                    </td>
+                    <td className="text-sm text-muted-foreground">
+                      {[
+                        alert.suggestedPicoUnits > 0 && `+${alert.suggestedPicoUnits} unid. no pico`,
+                        alert.suggestedPallets > 0 && `+${alert.suggestedPallets} paletes`,
+                      ]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-8">
+            Nenhum produto abaixo do estoque mínimo
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const DEFAULT_BLANK_ROWS = 10;
+const MAX_BLANK_ROWS = 60;
+
+type ReportGrouping = "none" | "category" | "tower";
+
+interface ReportPrintModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  endpoint: string; // e.g. "/api/reports/picos"
+  params?: Record<string, string | boolean | undefined>;
+  allowTowerGrouping?: boolean;
+}
+
+// Opens the server-generated PDF in a new tab; the current screen filters go along in the URL
+export default function ReportPrintModal({
+  isOpen,
+  onClose,
+  title,
+  endpoint,
+  params = {},
+  allowTowerGrouping = true,
+}: ReportPrintModalProps) {
+  const [groupBy, setGroupBy] = useState<ReportGrouping>("none");
+  const [blankRows, setBlankRows] = useState(DEFAULT_BLANK_ROWS.toString());
+
+  useEffect(() => {
+    if (!allowTowerGrouping && groupBy === "tower") {
+      setGroupBy("none");
+    }
+  }, [allowTowerGrouping, groupBy]);
+
+  const parsedBlankRows = Number(blankRows);
+  const isValid = Number.isInteger(parsedBlankRows) && parsedBlankRows >= 0 && parsedBlankRows <= MAX_BLANK_ROWS;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const query = new URLSearchParams({ groupBy, blankRows: parsedBlankRows.toString() });
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== "" && value !== false) {
+        query.set(key, String(value));
+      }
+    });
+
+    window.open(`${endpoint}?${query}`, "_blank");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Agrupar por</Label>
+            <Select value={groupBy} onValueChange={(value: ReportGrouping) => setGroupBy(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sem agrupamento</SelectItem>
+                <SelectItem value="category">Categoria</SelectItem>
+                {allowTowerGrouping && <SelectItem value="tower">Torre (rua e torre)</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="blankRows">Linhas em branco</Label>
+            <Input
+              id="blankRows"
+              type="number"
+              min="0"
+              max={MAX_BLANK_ROWS}
+              value={blankRows}
+              onChange={(e) => setBlankRows(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Linhas pautadas no final para anotar itens encontrados durante a contagem (0 a {MAX_BLANK_ROWS}).
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="submit" disabled={!isValid} className="flex-1">
+              Gerar PDF
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
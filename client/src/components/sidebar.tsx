@@ -12,6 +12,12 @@ import {
   ClipboardList,
   LogOut,
   UserCircle,
+  MapPin,
+  ClipboardCheck,
+  Truck,
+  Store,
+  ListChecks,
+  History,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -61,19 +67,55 @@ export default function Sidebar() {
       icon: Package,
       show: isAdmin,
     },
+    {
+      href: "/locations",
+      label: "Endereços",
+      icon: MapPin,
+      show: isAdmin,
+    },
     {
       href: "/inventory",
       label: "Estoque",
       icon: ClipboardList,
       show: true,
     },
+    {
+      href: "/inbound-receipts",
+      label: "Recebimento",
+      icon: Truck,
+      show: true,
+    },
+    {
+      href: "/pick-lists",
+      label: "Separação",
+      icon: ListChecks,
+      show: true,
+    },
+    {
+      href: "/transfer-orders",
+      label: "Reposição em Loja",
+      icon: Store,
+      show: true,
+    },
+    {
+      href: "/count-sessions",
+      label: "Inventário",
+      icon: ClipboardCheck,
+      show: true,
+    },
+    {
+      href: "/activity",
+      label: "Histórico",
+      icon: History,
+      show: true,
+    },
   ];
 
   const isActive = (href: string) => {
     if (href === "/dashboard") {
       return location === "/" || location === "/dashboard";
     }
-    return location === href;
+    return location === href || location.startsWith(`${href}/`);
   };
 
   return (
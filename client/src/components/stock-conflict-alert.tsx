@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+
+export type StockConflictField = {
+  label: string;
+  mine: string;
+  current: string;
+};
+
+interface StockConflictAlertProps {
+  message: string;
+  updatedBy?: string;
+  fields: StockConflictField[];
+  onUseCurrent: () => void;
+  disabled?: boolean;
+}
+
+// Rendered inside the edit form after a 409: "Salvar meus valores" submits the form again over the current version
+export default function StockConflictAlert({
+  message,
+  updatedBy,
+  fields,
+  onUseCurrent,
+  disabled,
+}: StockConflictAlertProps) {
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Conflito de edição</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{message}</p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th></th>
+              <th className="text-left font-medium">Seus valores</th>
+              <th className="text-left font-medium">Atual{updatedBy && ` (${updatedBy})`}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => (
+              <tr key={field.label} className={field.mine !== field.current ? "font-semibold" : undefined}>
+                <td>{field.label}</td>
+                <td>{field.mine}</td>
+                <td>{field.current}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onUseCurrent} disabled={disabled}>
+            Usar valores atuais
+          </Button>
+          <Button type="submit" size="sm" disabled={disabled}>
+            Salvar meus valores
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import ProductAutocomplete from "./product-autocomplete";
+import QuantityUomInput, { type QuantityUomValue } from "./quantity-uom-input";
+import type { CreateTransferOrderData, Product, TransferOrder } from "@shared/schema";
+import { toUnits } from "@shared/uom";
+
+interface TransferOrderFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ItemType = CreateTransferOrderData["lines"][number]["itemType"];
+
+interface LineDraft {
+  key: number;
+  productCode: string;
+  product: Product | null;
+  itemType: ItemType;
+  // Pallets for paletizado lines; pico lines accept any UoM and are sent in units
+  quantity: QuantityUomValue;
+}
+
+const emptyLine = (key: number): LineDraft => ({
+  key,
+  productCode: "",
+  product: null,
+  itemType: "paletizado",
+  quantity: { quantity: 1, uom: "unit" },
+});
+
+const requestedQuantity = (line: LineDraft) =>
+  line.itemType === "pico"
+    ? (line.product ? toUnits(line.quantity.quantity, line.quantity.uom, line.product) ?? 0 : 0)
+    : line.quantity.quantity;
+
+export default function TransferOrderFormModal({
+  isOpen,
+  onClose,
+}: TransferOrderFormModalProps) {
+  const [store, setStore] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<LineDraft[]>([]);
+  // Keys keep each ProductAutocomplete bound to its own line when rows are removed
+  const [nextKey, setNextKey] = useState(1);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  useEffect(() => {
+    setStore("");
+    setNotes("");
+    setLines([emptyLine(0)]);
+    setNextKey(1);
+  }, [isOpen]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateTransferOrderData) => {
+      const response = await apiRequest("POST", "/api/transfer-orders", data);
+      return (await response.json()) as TransferOrder;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfer-orders"] });
+      toast({
+        title: "Pedido criado",
+        description: "Separe os itens e confirme a expedição.",
+      });
+      onClose();
+      navigate(`/transfer-orders/${order.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar pedido",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (key: number, changes: Partial<LineDraft>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = () => {
+    setLines((prev) => [...prev, emptyLine(nextKey)]);
+    setNextKey((key) => key + 1);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!store.trim()) {
+      toast({
+        title: "Loja obrigatória",
+        description: "Informe a loja de destino.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.some((line) => !line.productCode || requestedQuantity(line) <= 0)) {
+      toast({
+        title: "Itens inválidos",
+        description: "Selecione o produto e informe a quantidade em todos os itens.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({
+      store,
+      notes: notes || null,
+      lines: lines.map((line) => ({
+        productCode: line.productCode,
+        itemType: line.itemType,
+        requestedQuantity: requestedQuantity(line),
+      })),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Novo Pedido de Reposição</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="store">Loja de destino *</Label>
+            <Input
+              id="store"
+              value={store}
+              onChange={(e) => setStore(e.target.value)}
+              placeholder="Ex.: Loja 12 - Centro"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">Observações</Label>
+            <Textarea
+              id="notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Itens *</Label>
+            {lines.map((line) => (
+              <div key={line.key} className="flex gap-2 items-center">
+                <div className="flex-1">
+                  <ProductAutocomplete
+                    value={line.productCode}
+                    onChange={(code, product) => updateLine(line.key, { productCode: code, product: product ?? null })}
+                    placeholder="Digite o código do produto"
+                  />
+                </div>
+                <Select
+                  value={line.itemType}
+                  onValueChange={(value: ItemType) => updateLine(line.key, { itemType: value })}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="paletizado">Paletes</SelectItem>
+                    <SelectItem value="pico">Pico</SelectItem>
+                  </SelectContent>
+                </Select>
+                {line.itemType === "pico" ? (
+                  <div className="w-56">
+                    <QuantityUomInput
+                      value={line.quantity}
+                      onChange={(quantity) => updateLine(line.key, { quantity })}
+                      product={line.product}
+                      min={1}
+                    />
+                  </div>
+                ) : (
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={line.quantity.quantity}
+                    onChange={(e) =>
+                      updateLine(line.key, { quantity: { ...line.quantity, quantity: parseInt(e.target.value) || 0 } })
+                    }
+                    aria-label="Quantidade solicitada"
+                  />
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLines((prev) => prev.filter((item) => item.key !== line.key))}
+                  disabled={lines.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addLine}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar item
+            </Button>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="submit" disabled={createMutation.isPending} className="flex-1">
+              {createMutation.isPending ? "Criando..." : "Criar"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
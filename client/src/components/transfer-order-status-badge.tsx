@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+import { transferOrderStatusLabels, type TransferOrderStatus } from "@shared/schema";
+
+const statusVariants: Record<TransferOrderStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  picking: "default",
+  dispatched: "secondary",
+  cancelled: "destructive",
+};
+
+export default function TransferOrderStatusBadge({ status }: { status: TransferOrderStatus }) {
+  return <Badge variant={statusVariants[status]}>{transferOrderStatusLabels[status]}</Badge>;
+}
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { liveEventTopics, type LiveEvent, type LiveEventTopic } from "@shared/schema";
+
+// Query key prefixes refetched for each topic; the stock card lives under /api/products/code/...
+const topicQueryPrefixes: Record<LiveEventTopic, string[]> = {
+  stock: ["/api/picos", "/api/paletizado-stock", "/api/dashboard", "/api/replenishment/alerts", "/api/products/code/"],
+  products: ["/api/products", "/api/product-barcodes", "/api/picos", "/api/paletizado-stock", "/api/replenishment/alerts"],
+  locations: ["/api/locations", "/api/picos", "/api/paletizado-stock"],
+  activity: ["/api/activity", "/api/dashboard/movements"],
+};
+
+function invalidateTopics(queryClient: QueryClient, topics: readonly LiveEventTopic[]) {
+  const prefixes = topics.flatMap((topic) => topicQueryPrefixes[topic]);
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === "string" && prefixes.some((prefix) => key.startsWith(prefix));
+    },
+  });
+}
+
+// Keeps the caches in sync with changes made by other operators while logged in
+export function useLiveUpdates(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource("/api/events", { withCredentials: true });
+    let disconnected = false;
+
+    source.addEventListener("change", (message) => {
+      const event = JSON.parse((message as MessageEvent<string>).data) as LiveEvent;
+      invalidateTopics(queryClient, event.topics);
+    });
+    // EventSource reconnects on its own; whatever changed in between is refetched
+    source.onerror = () => {
+      disconnected = true;
+    };
+    source.onopen = () => {
+      if (disconnected) {
+        disconnected = false;
+        invalidateTopics(queryClient, liveEventTopics);
+      }
+    };
+
+    return () => source.close();
+  }, [enabled, queryClient]);
+}
@@ -1,3 +1,5 @@
+import type { StockConflict } from "@shared/schema";
+
 export async function apiRequest<T>(
   method: string,
   url: string,
@@ -39,16 +41,6 @@ export async function apiRequest<T>(
       throw new Error("Resposta inválida: Formato inesperado dos dados");
     }
 
-    // Lógica especial para mensagens de log de atividade
-    if (
-      "message" in responseData &&
-      typeof responseData.message === "string" &&
-      responseData.message.includes("log de atividade")
-    ) {
-      console.warn("Resposta com mensagem de log:", responseData);
-      return responseData as T;
-    }
-
     // Tratamento final de erro HTTP
     if (!response.ok) {
       const errorMessage = 
@@ -79,8 +71,15 @@ export async function apiRequest<T>(
   }
 }
 
+// Corpo do 409 de uma edição de estoque com versão desatualizada; null para os demais erros
+export function getStockConflict<T>(error: unknown): StockConflict<T> | null {
+  return error instanceof ApiError && error.statusCode === 409
+    ? (error.details as StockConflict<T>)
+    : null;
+}
+
 // Classe personalizada para erros da API
-class ApiError extends Error {
+export class ApiError extends Error {
   constructor(
     public readonly message: string,
     public readonly statusCode: number = 0,
@@ -1,9 +1,16 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { ApiError } from "./api";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let details: unknown;
+    try {
+      details = JSON.parse(text);
+    } catch {
+      details = undefined;
+    }
+    throw new ApiError(`${res.status}: ${text}`, res.status, details);
   }
 }
 
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useSearch } from "wouter";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { apiRequest } from "@/lib/queryClient";
+import ExportMenu from "@/components/export-menu";
+import {
+  activityTypeLabels,
+  categoryLabels,
+  movementReasonLabels,
+  type ActivityLogPage,
+  type ActivityType,
+  type MovementReason,
+  type UserSummary,
+} from "@shared/schema";
+
+type ActivityFilterState = {
+  search: string;
+  from: string;
+  to: string;
+  type: string;
+  itemType: string;
+  category: string;
+  userId: string;
+};
+
+const emptyFilters: ActivityFilterState = {
+  search: "",
+  from: "",
+  to: "",
+  type: "all",
+  itemType: "all",
+  category: "all",
+  userId: "all",
+};
+
+const typeVariants: Record<ActivityType, "default" | "secondary" | "destructive" | "outline"> = {
+  entry: "default",
+  exit: "destructive",
+  update: "secondary",
+};
+
+// "all" is the select placeholder for "no filter" and never reaches the API
+function toParams(filters: ActivityFilterState): Record<string, string | undefined> {
+  return Object.fromEntries(
+    Object.entries(filters).map(([key, value]) => [key, value === "all" ? undefined : value.trim() || undefined])
+  );
+}
+
+export default function ActivityPage() {
+  // Other screens link here with ?search=<code> to open the history of one product
+  const initialSearch = new URLSearchParams(useSearch()).get("search") ?? "";
+  const [filters, setFilters] = useState<ActivityFilterState>({ ...emptyFilters, search: initialSearch });
+
+  const params = toParams(filters);
+  const query = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  ).toString();
+
+  const { data: users } = useQuery<UserSummary[]>({
+    queryKey: ["/api/activity/users"],
+  });
+
+  // Pages are chained by the cursor the server returns; always refetched so new movements show up
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [`/api/activity?${query}`],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `${query ? "&" : ""}cursor=${pageParam}` : "";
+      const response = await apiRequest("GET", `/api/activity?${query}${cursor}`);
+      return (await response.json()) as ActivityLogPage;
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    staleTime: 0,
+  });
+
+  const activities = data?.pages.flatMap((page) => page.items) ?? [];
+  const isFiltered = Object.values(params).some((value) => value !== undefined);
+
+  const setFilter = (key: keyof ActivityFilterState, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Histórico</h2>
+          <p className="text-muted-foreground">Todas as movimentações de picos e paletizados</p>
+        </div>
+        <ExportMenu endpoint="/api/export/activity" params={params} label="Exportar resultado" />
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="p-4 border-b border-border space-y-4">
+            <div className="flex gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar por código ou descrição..."
+                  value={filters.search}
+                  onChange={(e) => setFilter("search", e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilter("from", e.target.value)}
+                className="w-40"
+                aria-label="Data inicial"
+              />
+              <Input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilter("to", e.target.value)}
+                className="w-40"
+                aria-label="Data final"
+              />
+            </div>
+            <div className="flex gap-4">
+              <Select value={filters.type} onValueChange={(value) => setFilter("type", value)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os tipos</SelectItem>
+                  {Object.entries(activityTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filters.itemType} onValueChange={(value) => setFilter("itemType", value)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Pico e paletizado</SelectItem>
+                  <SelectItem value="pico">Pico</SelectItem>
+                  <SelectItem value="paletizado">Paletizado</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.category} onValueChange={(value) => setFilter("category", value)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as categorias</SelectItem>
+                  <SelectItem value="alta_rotacao">Alta Rotação</SelectItem>
+                  <SelectItem value="baixa_rotacao">Baixa Rotação</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.userId} onValueChange={(value) => setFilter("userId", value)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os usuários</SelectItem>
+                  {users?.map((user) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.nickname}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isFiltered && (
+                <Button variant="ghost" onClick={() => setFilters(emptyFilters)}>
+                  <X className="h-4 w-4 mr-2" />
+                  Limpar filtros
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Data</th>
+                  <th>Tipo</th>
+                  <th>Estoque</th>
+                  <th>Código</th>
+                  <th>Descrição</th>
+                  <th>Categoria</th>
+                  <th>Motivo</th>
+                  <th>Quantidade</th>
+                  <th>Variação</th>
+                  <th>Usuário</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={10} className="text-center py-8 text-muted-foreground">
+                      Carregando...
+                    </td>
+                  </tr>
+                ) : activities.length > 0 ? (
+                  activities.map((activity) => {
+                    const unit = activity.itemType === "pico" ? "unid." : "paletes";
+                    return (
+                      <tr key={activity.id}>
+                        <td>
+                          {activity.createdAt
+                            ? format(new Date(activity.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                            : "-"}
+                        </td>
+                        <td>
+                          <Badge variant={typeVariants[activity.type as ActivityType] ?? "outline"}>
+                            {activityTypeLabels[activity.type as ActivityType] ?? activity.type}
+                          </Badge>
+                        </td>
+                        <td>{activity.itemType === "pico" ? "Pico" : "Paletizado"}</td>
+                        <td className="font-medium">{activity.productCode}</td>
+                        <td>{activity.productDescription}</td>
+                        <td>{categoryLabels[activity.category]}</td>
+                        <td>{movementReasonLabels[activity.reason as MovementReason] ?? activity.reason}</td>
+                        <td>
+                          {activity.previousQuantity} → {activity.newQuantity} {unit}
+                        </td>
+                        <td
+                          className={
+                            activity.delta > 0
+                              ? "text-green-600 dark:text-green-400 font-medium"
+                              : activity.delta < 0
+                                ? "text-destructive font-medium"
+                                : undefined
+                          }
+                        >
+                          {activity.delta > 0 ? `+${activity.delta}` : activity.delta}
+                        </td>
+                        <td>{activity.user?.nickname ?? "-"}</td>
+                      </tr>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td colSpan={10} className="text-center py-8 text-muted-foreground">
+                      {isFiltered ? "Nenhuma movimentação encontrada com os filtros aplicados" : "Nenhuma movimentação registrada"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {hasNextPage && (
+            <div className="p-4 border-t border-border flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? "Carregando..." : "Carregar mais"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
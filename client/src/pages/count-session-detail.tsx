@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Send, CheckCircle, RotateCcw, XCircle } from "lucide-react";
+import CountSessionStatusBadge from "@/components/count-session-status-badge";
+import type { CountSessionItemWithProduct, CountSessionWithItems } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface CountInputProps {
+  item: CountSessionItemWithProduct;
+  disabled: boolean;
+  onSave: (itemId: number, countedQuantity: number) => void;
+}
+
+// Saves the counted quantity on blur or Enter, only when it changed
+function CountInput({ item, disabled, onSave }: CountInputProps) {
+  const [value, setValue] = useState(item.countedQuantity?.toString() ?? "");
+
+  useEffect(() => {
+    setValue(item.countedQuantity?.toString() ?? "");
+  }, [item.countedQuantity]);
+
+  const save = () => {
+    if (value === "") return;
+    const countedQuantity = parseInt(value);
+    if (isNaN(countedQuantity) || countedQuantity < 0 || countedQuantity === item.countedQuantity) return;
+    onSave(item.id, countedQuantity);
+  };
+
+  return (
+    <Input
+      type="number"
+      min="0"
+      className="w-28"
+      value={value}
+      disabled={disabled}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          save();
+        }
+      }}
+    />
+  );
+}
+
+export default function CountSessionDetailPage() {
+  const [, params] = useRoute("/count-sessions/:id");
+  const sessionId = params?.id;
+  const { user } = useAuth();
+  const isAdmin = user?.role === "administrador";
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: session, isLoading } = useQuery<CountSessionWithItems>({
+    queryKey: [`/api/count-sessions/${sessionId}`],
+    enabled: !!sessionId,
+  });
+
+  const invalidateSession = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/count-sessions/${sessionId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/count-sessions"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const countMutation = useMutation({
+    mutationFn: async ({ itemId, countedQuantity }: { itemId: number; countedQuantity: number }) => {
+      await apiRequest("PUT", `/api/count-sessions/${sessionId}/items/${itemId}`, { countedQuantity });
+    },
+    onSuccess: invalidateSession,
+    onError: onError("Erro ao registrar contagem"),
+  });
+
+  // Session transitions: submit, approve, reopen and cancel
+  const actionMutation = useMutation({
+    mutationFn: async (action: "submit" | "approve" | "reopen" | "cancel") => {
+      await apiRequest("POST", `/api/count-sessions/${sessionId}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      invalidateSession();
+      if (action === "approve") {
+        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
+      }
+      const messages = {
+        submit: "Contagem enviada para aprovação.",
+        approve: "Divergências aprovadas e lançadas como ajuste de inventário.",
+        reopen: "Inventário devolvido para contagem.",
+        cancel: "Inventário cancelado.",
+      };
+      toast({ title: "Inventário atualizado", description: messages[action] });
+    },
+    onError: onError("Erro ao atualizar inventário"),
+  });
+
+  if (isLoading || !session) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = session.status === "open";
+  const canCancel = (isAdmin || session.createdBy === user?.id) &&
+    (session.status === "open" || session.status === "submitted");
+  const countedItems = session.items.filter((item) => item.countedQuantity !== null).length;
+  const divergentItems = session.items.filter(
+    (item) =>
+      item.countedQuantity !== null &&
+      item.expectedQuantity !== null &&
+      item.countedQuantity !== item.expectedQuantity
+  ).length;
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-start">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-3" asChild>
+            <Link href="/count-sessions">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Inventários
+            </Link>
+          </Button>
+          <h2 className="text-3xl font-bold text-foreground">{session.description}</h2>
+          <div className="flex items-center gap-3 mt-2 text-muted-foreground">
+            <CountSessionStatusBadge status={session.status} />
+            <span>{session.blind ? "Contagem cega" : "Contagem aberta"}</span>
+            <span>•</span>
+            <span>{countedItems} / {session.items.length} contados</span>
+            {!isOpen || !session.blind || isAdmin ? (
+              <>
+                <span>•</span>
+                <span>{divergentItems} divergência(s)</span>
+              </>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {isOpen && (
+            <Button
+              onClick={() => actionMutation.mutate("submit")}
+              disabled={actionMutation.isPending || countedItems < session.items.length}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Enviar para aprovação
+            </Button>
+          )}
+          {isAdmin && session.status === "submitted" && (
+            <>
+              <Button variant="outline" onClick={() => actionMutation.mutate("reopen")} disabled={actionMutation.isPending}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reabrir contagem
+              </Button>
+              <Button
+                onClick={() => {
+                  if (confirm(`Aprovar ${divergentItems} divergência(s) e ajustar o estoque?`)) {
+                    actionMutation.mutate("approve");
+                  }
+                }}
+                disabled={actionMutation.isPending}
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Aprovar ajustes
+              </Button>
+            </>
+          )}
+          {canCancel && (
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (confirm("Cancelar este inventário? Nenhum ajuste será lançado.")) {
+                  actionMutation.mutate("cancel");
+                }
+              }}
+              disabled={actionMutation.isPending}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancelar
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Endereço</th>
+                  <th>Código</th>
+                  <th>Descrição</th>
+                  <th>Tipo</th>
+                  <th>Lote</th>
+                  <th>Esperado</th>
+                  <th>Contado</th>
+                  <th>Divergência</th>
+                  <th>Contado por</th>
+                </tr>
+              </thead>
+              <tbody>
+                {session.items.map((item) => {
+                  const unit = item.itemType === "pico" ? "unid." : "paletes";
+                  const variance =
+                    item.countedQuantity !== null && item.expectedQuantity !== null
+                      ? item.countedQuantity - item.expectedQuantity
+                      : null;
+
+                  return (
+                    <tr key={item.id}>
+                      <td className="font-medium">{item.location?.code ?? "-"}</td>
+                      <td>{item.product.code}</td>
+                      <td>{item.product.description}</td>
+                      <td>{item.itemType === "pico" ? "Pico" : "Paletizado"}</td>
+                      <td>{item.lot ?? "-"}</td>
+                      <td>{item.expectedQuantity !== null ? `${item.expectedQuantity} ${unit}` : "—"}</td>
+                      <td>
+                        {isOpen ? (
+                          <CountInput
+                            item={item}
+                            disabled={countMutation.isPending}
+                            onSave={(itemId, countedQuantity) => countMutation.mutate({ itemId, countedQuantity })}
+                          />
+                        ) : (
+                          `${item.countedQuantity ?? "-"} ${unit}`
+                        )}
+                      </td>
+                      <td
+                        className={cn(
+                          "font-medium",
+                          variance !== null && variance > 0 && "text-green-600",
+                          variance !== null && variance < 0 && "text-destructive"
+                        )}
+                      >
+                        {variance === null ? "-" : variance > 0 ? `+${variance}` : variance}
+                      </td>
+                      <td>{item.countedByUser?.nickname ?? "-"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
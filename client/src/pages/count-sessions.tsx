@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Plus, ClipboardCheck } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import CountSessionFormModal from "@/components/count-session-form-modal";
+import CountSessionStatusBadge from "@/components/count-session-status-badge";
+import type { CountSessionSummary } from "@shared/schema";
+
+export default function CountSessionsPage() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const { data: sessions, isLoading } = useQuery<CountSessionSummary[]>({
+    queryKey: ["/api/count-sessions"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Inventário</h2>
+          <p className="text-muted-foreground">Contagens físicas e aprovação de divergências</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Inventário
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Descrição</th>
+                  <th>Situação</th>
+                  <th>Tipo</th>
+                  <th>Contados</th>
+                  <th>Criado por</th>
+                  <th>Criado em</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions && sessions.length > 0 ? (
+                  sessions.map((session) => (
+                    <tr key={session.id}>
+                      <td className="font-medium">{session.description}</td>
+                      <td>
+                        <CountSessionStatusBadge status={session.status} />
+                      </td>
+                      <td>{session.blind ? "Cega" : "Aberta"}</td>
+                      <td>
+                        {session.countedCount} / {session.itemCount}
+                      </td>
+                      <td>{session.createdByUser?.nickname ?? "-"}</td>
+                      <td>
+                        {session.createdAt
+                          ? format(new Date(session.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                          : "-"}
+                      </td>
+                      <td>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/count-sessions/${session.id}`}>
+                            <ClipboardCheck className="h-4 w-4 mr-2" />
+                            {session.status === "open" ? "Contar" : "Ver"}
+                          </Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="text-center py-8 text-muted-foreground">
+                      Nenhum inventário registrado
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CountSessionFormModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+    </div>
+  );
+}
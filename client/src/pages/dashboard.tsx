@@ -1,4 +1,6 @@
+import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -8,13 +10,19 @@ import {
   TrendingDown,
   ArrowUp,
   ArrowDown,
+  History,
 } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import ExpiringStockCard from "@/components/expiring-stock-card";
+import ReplenishmentAlertsCard from "@/components/replenishment-alerts-card";
+import MovementChartCard from "@/components/movement-chart-card";
 
 interface DashboardStats {
   totalPicos: number;
   totalPaletizados: number;
+  totalPallets: number;
+  paletizadoLocations: number;
   altaRotacao: number;
   baixaRotacao: number;
   recentEntries: Array<{
@@ -26,6 +34,7 @@ interface DashboardStats {
     quantity: number;
     category: string;
     createdAt: string;
+    user: { id: number; name: string; nickname: string } | null;
   }>;
   recentExits: Array<{
     id: number;
@@ -36,6 +45,7 @@ interface DashboardStats {
     quantity: number;
     category: string;
     createdAt: string;
+    user: { id: number; name: string; nickname: string } | null;
   }>;
 }
 
@@ -61,11 +71,19 @@ export default function DashboardPage() {
 
   return (
     <div className="p-8">
-      <div className="mb-8">
-        <h2 className="text-3xl font-bold text-foreground">Dashboard</h2>
-        <p className="text-muted-foreground">
-          Visão geral operacional do armazém
-        </p>
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Dashboard</h2>
+          <p className="text-muted-foreground">
+            Visão geral operacional do armazém
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/activity">
+            <History className="h-4 w-4 mr-2" />
+            Ver histórico
+          </Link>
+        </Button>
       </div>
 
       {/* Metrics Cards */}
@@ -96,6 +114,9 @@ export default function DashboardPage() {
                 <p className="text-2xl font-bold text-foreground">
                   {stats?.totalPaletizados || 0}
                 </p>
+                <p className="text-xs text-muted-foreground">
+                  {stats?.totalPallets || 0} paletes em {stats?.paletizadoLocations || 0} endereços
+                </p>
               </div>
               <Package className="h-8 w-8 text-green-500" />
             </div>
@@ -151,6 +172,15 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {/* Entries vs. exits over time */}
+      <MovementChartCard />
+
+      {/* Products below minimum */}
+      <ReplenishmentAlertsCard />
+
+      {/* Expiring stock */}
+      <ExpiringStockCard />
+
       {/* Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <Card>
@@ -173,7 +203,8 @@ export default function DashboardPage() {
                         {entry.productDescription}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {entry.quantity} unidades ({entry.itemType === "pico" ? "Pico" : "Paletizado"})
+                        {entry.quantity} {entry.itemType === "pico" ? "unidades (Pico)" : "paletes (Paletizado)"}
+                        {entry.user && ` • por ${entry.user.nickname}`}
                       </p>
                     </div>
                     <div className="text-right">
@@ -222,7 +253,8 @@ export default function DashboardPage() {
                         {exit.productDescription}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {exit.quantity} unidades ({exit.itemType === "pico" ? "Pico" : "Paletizado"})
+                        {exit.quantity} {exit.itemType === "pico" ? "unidades (Pico)" : "paletes (Paletizado)"}
+                        {exit.user && ` • por ${exit.user.nickname}`}
                       </p>
                     </div>
                     <div className="text-right">
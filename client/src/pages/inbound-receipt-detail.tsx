@@ -0,0 +1,292 @@
+import { useState, useEffect } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, CheckCircle, XCircle, Save } from "lucide-react";
+import InboundStatusBadge from "@/components/inbound-status-badge";
+import LocationSelect from "@/components/location-select";
+import {
+  formatExpiryDate,
+  type InboundReceiptLineWithProduct,
+  type InboundReceiptWithLines,
+  type ReceiveInboundLineData,
+} from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface ReceiveLineRowProps {
+  line: InboundReceiptLineWithProduct;
+  editable: boolean;
+  saving: boolean;
+  onSave: (lineId: number, data: ReceiveInboundLineData) => void;
+}
+
+function ReceiveLineRow({ line, editable, saving, onSave }: ReceiveLineRowProps) {
+  const [receivedPallets, setReceivedPallets] = useState(line.receivedPallets?.toString() ?? "");
+  const [locationId, setLocationId] = useState<number | null>(line.locationId);
+  const [lot, setLot] = useState(line.lot ?? "");
+  const [expiryDate, setExpiryDate] = useState(line.expiryDate ?? "");
+
+  useEffect(() => {
+    setReceivedPallets(line.receivedPallets?.toString() ?? "");
+    setLocationId(line.locationId);
+    setLot(line.lot ?? "");
+    setExpiryDate(line.expiryDate ?? "");
+  }, [line]);
+
+  const received = line.receivedPallets;
+  const discrepancy = received !== null ? received - line.expectedPallets : null;
+  const parsedReceived = parseInt(receivedPallets);
+  const isDirty =
+    receivedPallets !== (line.receivedPallets?.toString() ?? "") ||
+    locationId !== line.locationId ||
+    lot !== (line.lot ?? "") ||
+    expiryDate !== (line.expiryDate ?? "");
+
+  return (
+    <tr className={cn(discrepancy !== null && discrepancy !== 0 && "bg-amber-50 dark:bg-amber-950/30")}>
+      <td className="font-medium">{line.product.code}</td>
+      <td>{line.product.description}</td>
+      <td>{line.expectedPallets}</td>
+      <td>
+        {editable ? (
+          <Input
+            type="number"
+            min="0"
+            className="w-24"
+            value={receivedPallets}
+            onChange={(e) => setReceivedPallets(e.target.value)}
+          />
+        ) : (
+          received ?? "-"
+        )}
+      </td>
+      <td
+        className={cn(
+          "font-medium",
+          discrepancy !== null && discrepancy > 0 && "text-green-600",
+          discrepancy !== null && discrepancy < 0 && "text-destructive"
+        )}
+      >
+        {discrepancy === null ? "-" : discrepancy > 0 ? `+${discrepancy}` : discrepancy}
+      </td>
+      <td className="min-w-[180px]">
+        {editable ? (
+          <LocationSelect
+            value={locationId}
+            onChange={(id) => setLocationId(id)}
+            type="porta_palete"
+            placeholder="Sem endereço"
+            allowEmpty
+          />
+        ) : (
+          line.location?.code ?? "-"
+        )}
+      </td>
+      <td>
+        {editable ? (
+          <Input className="w-28" value={lot} maxLength={50} onChange={(e) => setLot(e.target.value)} />
+        ) : (
+          line.lot ?? "-"
+        )}
+      </td>
+      <td>
+        {editable ? (
+          <Input type="date" className="w-40" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} />
+        ) : (
+          formatExpiryDate(line.expiryDate)
+        )}
+      </td>
+      {editable && (
+        <td>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={saving || !isDirty || isNaN(parsedReceived) || parsedReceived < 0}
+            onClick={() =>
+              onSave(line.id, {
+                receivedPallets: parsedReceived,
+                locationId,
+                lot: lot || null,
+                expiryDate: expiryDate || null,
+              })
+            }
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+        </td>
+      )}
+    </tr>
+  );
+}
+
+export default function InboundReceiptDetailPage() {
+  const [, params] = useRoute("/inbound-receipts/:id");
+  const receiptId = params?.id;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: receipt, isLoading } = useQuery<InboundReceiptWithLines>({
+    queryKey: [`/api/inbound-receipts/${receiptId}`],
+    enabled: !!receiptId,
+  });
+
+  const invalidateReceipt = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/inbound-receipts/${receiptId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inbound-receipts"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const lineMutation = useMutation({
+    mutationFn: async ({ lineId, data }: { lineId: number; data: ReceiveInboundLineData }) => {
+      await apiRequest("PUT", `/api/inbound-receipts/${receiptId}/lines/${lineId}`, data);
+    },
+    onSuccess: invalidateReceipt,
+    onError: onError("Erro ao conferir item"),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: "confirm" | "cancel") => {
+      await apiRequest("POST", `/api/inbound-receipts/${receiptId}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      invalidateReceipt();
+      if (action === "confirm") {
+        queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
+      }
+      toast({
+        title: "Recebimento atualizado",
+        description:
+          action === "confirm"
+            ? "Os paletes recebidos foram lançados no estoque paletizado."
+            : "Recebimento cancelado.",
+      });
+    },
+    onError: onError("Erro ao atualizar recebimento"),
+  });
+
+  if (isLoading || !receipt) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const isExpected = receipt.status === "expected";
+  const checkedLines = receipt.lines.filter((line) => line.receivedPallets !== null).length;
+  const discrepancies = receipt.lines.filter(
+    (line) => line.receivedPallets !== null && line.receivedPallets !== line.expectedPallets
+  ).length;
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-start">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-3" asChild>
+            <Link href="/inbound-receipts">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Recebimentos
+            </Link>
+          </Button>
+          <h2 className="text-3xl font-bold text-foreground">
+            {receipt.supplier} — {receipt.documentNumber}
+          </h2>
+          <div className="flex items-center gap-3 mt-2 text-muted-foreground">
+            <InboundStatusBadge status={receipt.status} />
+            <span>Previsto para {formatExpiryDate(receipt.expectedDate)}</span>
+            <span>•</span>
+            <span>{checkedLines} / {receipt.lines.length} conferidos</span>
+            <span>•</span>
+            <span className={cn(discrepancies > 0 && "text-destructive font-medium")}>
+              {discrepancies} divergência(s)
+            </span>
+          </div>
+        </div>
+
+        {isExpected && (
+          <div className="flex gap-2">
+            <Button
+              onClick={() => {
+                const message = discrepancies > 0
+                  ? `Há ${discrepancies} divergência(s) entre o previsto e o recebido. Confirmar mesmo assim?`
+                  : "Confirmar o recebimento e lançar os paletes no estoque?";
+                if (confirm(message)) {
+                  actionMutation.mutate("confirm");
+                }
+              }}
+              disabled={actionMutation.isPending || checkedLines < receipt.lines.length}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Confirmar recebimento
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (confirm("Cancelar este recebimento? Nenhum estoque será lançado.")) {
+                  actionMutation.mutate("cancel");
+                }
+              }}
+              disabled={actionMutation.isPending}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancelar
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Código</th>
+                  <th>Descrição</th>
+                  <th>Previsto</th>
+                  <th>Recebido</th>
+                  <th>Divergência</th>
+                  <th>Endereço</th>
+                  <th>Lote</th>
+                  <th>Validade</th>
+                  {isExpected && <th></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {receipt.lines.map((line) => (
+                  <ReceiveLineRow
+                    key={line.id}
+                    line={line}
+                    editable={isExpected}
+                    saving={lineMutation.isPending}
+                    onSave={(lineId, data) => lineMutation.mutate({ lineId, data })}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {receipt.receivedByUser && (
+        <p className="text-sm text-muted-foreground mt-4">
+          Recebido por {receipt.receivedByUser.nickname}
+        </p>
+      )}
+    </div>
+  );
+}
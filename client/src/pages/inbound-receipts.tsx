@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Plus, PackageCheck } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import InboundReceiptFormModal from "@/components/inbound-receipt-form-modal";
+import InboundStatusBadge from "@/components/inbound-status-badge";
+import { formatExpiryDate, type InboundReceiptSummary } from "@shared/schema";
+
+export default function InboundReceiptsPage() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const { data: receipts, isLoading } = useQuery<InboundReceiptSummary[]>({
+    queryKey: ["/api/inbound-receipts"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Recebimento</h2>
+          <p className="text-muted-foreground">Entregas previstas e conferência de chegada</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Recebimento
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Fornecedor</th>
+                  <th>Documento</th>
+                  <th>Data prevista</th>
+                  <th>Situação</th>
+                  <th>Itens</th>
+                  <th>Paletes</th>
+                  <th>Criado por</th>
+                  <th>Criado em</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receipts && receipts.length > 0 ? (
+                  receipts.map((receipt) => (
+                    <tr key={receipt.id}>
+                      <td className="font-medium">{receipt.supplier}</td>
+                      <td>{receipt.documentNumber}</td>
+                      <td>{formatExpiryDate(receipt.expectedDate)}</td>
+                      <td>
+                        <InboundStatusBadge status={receipt.status} />
+                      </td>
+                      <td>{receipt.lineCount}</td>
+                      <td>
+                        {receipt.status === "received"
+                          ? `${receipt.receivedPallets} / ${receipt.expectedPallets}`
+                          : receipt.expectedPallets}
+                      </td>
+                      <td>{receipt.createdByUser?.nickname ?? "-"}</td>
+                      <td>
+                        {receipt.createdAt
+                          ? format(new Date(receipt.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                          : "-"}
+                      </td>
+                      <td>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/inbound-receipts/${receipt.id}`}>
+                            <PackageCheck className="h-4 w-4 mr-2" />
+                            {receipt.status === "expected" ? "Conferir" : "Ver"}
+                          </Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={9} className="text-center py-8 text-muted-foreground">
+                      Nenhum recebimento registrado
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <InboundReceiptFormModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+    </div>
+  );
+}
@@ -1,14 +1,37 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Search, Printer, Edit, Trash2 } from "lucide-react";
+import {
+  Plus,
+  Search,
+  Printer,
+  Tag,
+  Edit,
+  Trash2,
+  ArrowRightLeft,
+  MinusCircle,
+  AlertTriangle,
+} from "lucide-react";
 import PicoFormModal from "@/components/pico-form-modal";
 import PaletizadoFormModal from "@/components/paletizado-form-modal";
-import type { PicoWithProduct, PaletizadoStockWithProduct } from "@shared/schema";
+import PicoReplenishModal from "@/components/pico-replenish-modal";
+import PicoConsumeModal from "@/components/pico-consume-modal";
+import ExportMenu from "@/components/export-menu";
+import ReportPrintModal from "@/components/report-print-modal";
+import LabelPrintModal from "@/components/label-print-modal";
+import {
+  formatExpiryDate,
+  matchesProductFilters,
+  type PicoWithProduct,
+  type PaletizadoStockWithProduct,
+  type PaletizadoStockSummary,
+  type ReplenishmentAlert,
+} from "@shared/schema";
 import {
   Select,
   SelectContent,
@@ -29,6 +52,13 @@ export default function InventoryPage() {
   const [isPaletizadoModalOpen, setIsPaletizadoModalOpen] = useState(false);
   const [editingPico, setEditingPico] = useState<PicoWithProduct | null>(null);
   const [editingPaletizado, setEditingPaletizado] = useState<PaletizadoStockWithProduct | null>(null);
+  const [isReplenishModalOpen, setIsReplenishModalOpen] = useState(false);
+  const [replenishingStock, setReplenishingStock] = useState<PaletizadoStockWithProduct | null>(null);
+  const [consumingPico, setConsumingPico] = useState<PicoWithProduct | null>(null);
+  const [paletizadoView, setPaletizadoView] = useState<"records" | "products">("records");
+  const [onlyReplenishment, setOnlyReplenishment] = useState(false);
+  const [printingReport, setPrintingReport] = useState<"picos" | "paletizados" | null>(null);
+  const [labelTarget, setLabelTarget] = useState<"pico" | "paletizado" | null>(null);
 
   const queryClient = useQueryClient();
 
@@ -40,24 +70,80 @@ export default function InventoryPage() {
     queryKey: ["/api/paletizado-stock"],
   });
 
-  // Filter picos based on search term and category
-  const filteredPicos = picos?.filter((pico) => {
-    const matchesSearch = pico.product.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      pico.product.description.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesCategory = categoryFilter === "all" || 
-      (categoryFilter === "alta_rotacao" && pico.product.category === "alta_rotacao") ||
-      (categoryFilter === "baixa_rotacao" && pico.product.category === "baixa_rotacao");
-
-    return matchesSearch && matchesCategory;
+  const { data: replenishmentAlerts } = useQuery<ReplenishmentAlert[]>({
+    queryKey: ["/api/replenishment/alerts"],
   });
 
+  // "Reposição necessária" filter: keeps products below minimum, most urgent first
+  const alertsByProduct = new Map(replenishmentAlerts?.map((alert) => [alert.product.id, alert]));
+  const applyReplenishmentFilter = <T extends { productId: number }>(
+    items: T[] | undefined,
+    isShort: (alert: ReplenishmentAlert) => boolean,
+  ) => {
+    if (!onlyReplenishment || !items) return items;
+    return items
+      .filter((item) => {
+        const alert = alertsByProduct.get(item.productId);
+        return !!alert && isShort(alert);
+      })
+      .sort((a, b) => alertsByProduct.get(b.productId)!.urgency - alertsByProduct.get(a.productId)!.urgency);
+  };
+
+  const replenishmentToggle = (
+    <Button
+      variant={onlyReplenishment ? "default" : "outline"}
+      onClick={() => setOnlyReplenishment(!onlyReplenishment)}
+    >
+      <AlertTriangle className="h-4 w-4 mr-2" />
+      Reposição necessária
+      {replenishmentAlerts && replenishmentAlerts.length > 0 && ` (${replenishmentAlerts.length})`}
+    </Button>
+  );
+
+  // Filter picos based on search term and category
+  const filteredPicos = applyReplenishmentFilter(picos, (alert) => alert.picoShortfall > 0)?.filter((pico) =>
+    matchesProductFilters(pico.product, { search: searchTerm, category: categoryFilter })
+  );
+
   // Filter paletizado stock based on search term
-  const filteredPaletizadoStock = paletizadoStock?.filter((stock) =>
-    stock.product.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    stock.product.description.toLowerCase().includes(searchTerm.toLowerCase())
+  const filteredPaletizadoStock = applyReplenishmentFilter(
+    paletizadoStock,
+    (alert) => alert.paletizadoShortfall > 0,
+  )?.filter((stock) => matchesProductFilters(stock.product, { search: searchTerm }));
+
+  // Aggregate paletizado records per product for the "Por produto" view
+  const paletizadoSummary = Object.values(
+    (filteredPaletizadoStock ?? []).reduce<Record<number, PaletizadoStockSummary & { locationIds: Set<number | null> }>>(
+      (acc, stock) => {
+        const entry = acc[stock.productId] ??= {
+          product: stock.product,
+          totalQuantity: 0,
+          records: 0,
+          locations: 0,
+          locationIds: new Set(),
+        };
+        entry.totalQuantity += stock.quantity;
+        entry.records += 1;
+        entry.locationIds.add(stock.locationId);
+        entry.locations = entry.locationIds.size;
+        return acc;
+      },
+      {}
+    )
+  ).sort((a, b) =>
+    onlyReplenishment
+      ? (alertsByProduct.get(b.product.id)?.urgency ?? 0) - (alertsByProduct.get(a.product.id)?.urgency ?? 0)
+      : a.product.code.localeCompare(b.product.code)
   );
 
+  const formatCategory = (category: string) =>
+    category === "alta_rotacao" ? "Alta Rotação" : "Baixa Rotação";
+
+  // Highlight expired stock in the tables
+  const today = new Date().toISOString().slice(0, 10);
+  const expiryClassName = (expiryDate: string | null) =>
+    expiryDate && expiryDate < today ? "text-destructive font-medium" : undefined;
+
   const deletePicoMutation = useMutation({
     mutationFn: async (picoId: number) => {
       return apiRequest("DELETE", `/api/picos/${picoId}`);
@@ -65,6 +151,8 @@ export default function InventoryPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast.success("Pico eliminado com sucesso");
     },
     onError: (error) => {
@@ -72,13 +160,6 @@ export default function InventoryPage() {
         handleUnauthorizedError();
         return;
       }
-      // Se o erro for sobre o log de atividade, ainda consideramos como sucesso
-      if (error instanceof Error && error.message.includes("log de atividade")) {
-        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-        toast.success("Pico eliminado com sucesso");
-        return;
-      }
       handleError(error);
     },
   });
@@ -90,6 +171,8 @@ export default function InventoryPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
       toast.success("Estoque eliminado com sucesso");
     },
     onError: (error) => {
@@ -109,125 +192,6 @@ export default function InventoryPage() {
     }
   };
 
-  const handlePrintPicos = () => {
-    const printWindow = window.open("", "_blank");
-    if (!printWindow) return;
-
-    const categoryLabel = categoryFilter === "all" 
-      ? "Todas as categorias" 
-      : categoryFilter === "alta_rotacao" 
-        ? "Alta Rotação" 
-        : "Baixa Rotação";
-
-    const html = `
-      <html>
-        <head>
-          <title>Relatório de Picos</title>
-          <style>
-            body { font-family: Arial, sans-serif; margin: 20px; }
-            .header { text-align: center; margin-bottom: 30px; }
-            .print-table { width: 100%; border-collapse: collapse; margin-bottom: 50px; }
-            .print-table th, .print-table td { border: 1px solid #000; padding: 8px; text-align: left; }
-            .print-table th { background-color: #f0f0f0; font-weight: bold; }
-            .extra-lines { height: 200px; border-bottom: 1px solid #ccc; }
-            .filter-info { margin-bottom: 20px; }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>PalletFlow - Relatório de Picos</h1>
-            <p>Data: ${new Date().toLocaleDateString("pt-BR")}</p>
-            <div class="filter-info">
-              <p><strong>Categoria:</strong> ${categoryLabel}</p>
-              ${searchTerm ? `<p><strong>Busca:</strong> ${searchTerm}</p>` : ""}
-            </div>
-          </div>
-          <table class="print-table">
-            <thead>
-              <tr>
-                <th>Código</th>
-                <th>Descrição</th>
-                <th>Categoria</th>
-                <th>Bases</th>
-                <th>Unid. Soltas</th>
-                <th>Total</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${filteredPicos?.map(pico => `
-                <tr>
-                  <td>${pico.product.code}</td>
-                  <td>${pico.product.description}</td>
-                  <td>${pico.product.category === "alta_rotacao" ? "Alta Rotação" : "Baixa Rotação"}</td>
-                  <td>${pico.bases}</td>
-                  <td>${pico.looseUnits}</td>
-                  <td>${pico.totalUnits}</td>
-                </tr>
-              `).join("") || ""}
-            </tbody>
-          </table>
-          <div class="extra-lines"></div>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.write(html);
-    printWindow.document.close();
-    printWindow.print();
-  };
-
-  const handlePrintPaletizados = () => {
-    const printWindow = window.open("", "_blank");
-    if (!printWindow) return;
-
-    const html = `
-      <html>
-        <head>
-          <title>Relatório de Paletizados</title>
-          <style>
-            body { font-family: Arial, sans-serif; margin: 20px; }
-            .header { text-align: center; margin-bottom: 30px; }
-            .print-table { width: 100%; border-collapse: collapse; margin-bottom: 50px; }
-            .print-table th, .print-table td { border: 1px solid #000; padding: 8px; text-align: left; }
-            .print-table th { background-color: #f0f0f0; font-weight: bold; }
-            .extra-lines { height: 200px; border-bottom: 1px solid #ccc; }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>PalletFlow - Relatório de Paletizados</h1>
-            <p>Data: ${new Date().toLocaleDateString("pt-BR")}</p>
-          </div>
-          <table class="print-table">
-            <thead>
-              <tr>
-                <th>Código</th>
-                <th>Descrição</th>
-                <th>Categoria</th>
-                <th>Quantidade</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${filteredPaletizadoStock?.map(stock => `
-                <tr>
-                  <td>${stock.product.code}</td>
-                  <td>${stock.product.description}</td>
-                  <td>${stock.product.category === "alta_rotacao" ? "Alta Rotação" : "Baixa Rotação"}</td>
-                  <td>${stock.quantity}</td>
-                </tr>
-              `).join("") || ""}
-            </tbody>
-          </table>
-          <div class="extra-lines"></div>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.write(html);
-    printWindow.document.close();
-    printWindow.print();
-  };
-
   const handleError = (error: unknown) => {
     if (isUnauthorizedError(error)) {
       handleUnauthorizedError();
@@ -259,10 +223,16 @@ export default function InventoryPage() {
           <TabsContent value="picos">
             <div className="mb-6 flex justify-between items-center">
               <h3 className="text-xl font-semibold text-foreground">Estoque de Picos</h3>
-              <Button onClick={() => setIsPicoModalOpen(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Novo Pico
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsReplenishModalOpen(true)}>
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  Repor Pico
+                </Button>
+                <Button onClick={() => setIsPicoModalOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Novo Pico
+                </Button>
+              </div>
             </div>
 
             <Card>
@@ -292,10 +262,23 @@ export default function InventoryPage() {
                         <SelectItem value="baixa_rotacao">Baixa Rotação</SelectItem>
                       </SelectContent>
                     </Select>
-                    <Button onClick={handlePrintPicos} variant="outline">
+                    {replenishmentToggle}
+                    <Button onClick={() => setPrintingReport("picos")} variant="outline">
                       <Printer className="h-4 w-4 mr-2" />
                       Imprimir
                     </Button>
+                    <Button
+                      onClick={() => setLabelTarget("pico")}
+                      variant="outline"
+                      disabled={!filteredPicos?.length}
+                    >
+                      <Tag className="h-4 w-4 mr-2" />
+                      Etiquetas
+                    </Button>
+                    <ExportMenu
+                      endpoint="/api/export/picos"
+                      params={{ search: searchTerm, category: categoryFilter, replenishment: onlyReplenishment }}
+                    />
                   </div>
                 </div>
 
@@ -307,24 +290,32 @@ export default function InventoryPage() {
                         <th>Código</th>
                         <th>Descrição</th>
                         <th>Categoria</th>
-                        <th>Torre</th>
+                        <th>Endereço</th>
+                        <th>Lote</th>
+                        <th>Validade</th>
                         <th>Bases</th>
                         <th>Unid. Soltas</th>
                         <th>Total</th>
+                        <th>Criado por</th>
+                        <th>Atualizado por</th>
                         <th>Ações</th>
                       </tr>
                     </thead>
                     <tbody>
                       {picosLoading ? (
                         <tr>
-                          <td colSpan={8} className="text-center py-8">
+                          <td colSpan={12} className="text-center py-8">
                             Carregando...
                           </td>
                         </tr>
                       ) : filteredPicos && filteredPicos.length > 0 ? (
                         filteredPicos.map((pico) => (
                           <tr key={pico.id}>
-                            <td className="font-medium">{pico.product.code}</td>
+                            <td className="font-medium">
+                              <Link href={`/products/${encodeURIComponent(pico.product.code)}`} className="hover:underline">
+                                {pico.product.code}
+                              </Link>
+                            </td>
                             <td>{pico.product.description}</td>
                             <td>
                               <Badge
@@ -340,13 +331,27 @@ export default function InventoryPage() {
                               </Badge>
                             </td>
                             <td className="font-medium">
-                              {pico.towerLocation ? `Torre${pico.towerLocation.padStart(2, '0')}` : '-'}
+                              {pico.location.code}
+                            </td>
+                            <td>{pico.lot ?? "-"}</td>
+                            <td className={expiryClassName(pico.expiryDate)}>
+                              {formatExpiryDate(pico.expiryDate)}
                             </td>
                             <td>{pico.bases}</td>
                             <td>{pico.looseUnits}</td>
                             <td className="font-medium">{pico.totalUnits}</td>
+                            <td>{pico.createdByUser?.nickname ?? "-"}</td>
+                            <td>{pico.updatedByUser?.nickname ?? "-"}</td>
                             <td>
                               <div className="flex gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Baixa parcial"
+                                  onClick={() => setConsumingPico(pico)}
+                                >
+                                  <MinusCircle className="h-4 w-4" />
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -370,8 +375,8 @@ export default function InventoryPage() {
                         ))
                       ) : (
                         <tr>
-                          <td colSpan={8} className="text-center py-8 text-muted-foreground">
-                            {searchTerm
+                          <td colSpan={12} className="text-center py-8 text-muted-foreground">
+                            {searchTerm || onlyReplenishment
                               ? "Nenhum pico encontrado"
                               : "Nenhum pico em estoque"}
                           </td>
@@ -408,86 +413,199 @@ export default function InventoryPage() {
                         className="pl-10"
                       />
                     </div>
-                    <Button onClick={handlePrintPaletizados} variant="outline">
+                    <Select
+                      value={paletizadoView}
+                      onValueChange={(value: "records" | "products") => setPaletizadoView(value)}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="records">Por registro</SelectItem>
+                        <SelectItem value="products">Por produto</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {replenishmentToggle}
+                    <Button onClick={() => setPrintingReport("paletizados")} variant="outline">
                       <Printer className="h-4 w-4 mr-2" />
                       Imprimir
                     </Button>
+                    <Button
+                      onClick={() => setLabelTarget("paletizado")}
+                      variant="outline"
+                      disabled={!filteredPaletizadoStock?.length}
+                    >
+                      <Tag className="h-4 w-4 mr-2" />
+                      Etiquetas
+                    </Button>
+                    <ExportMenu
+                      endpoint="/api/export/paletizado-stock"
+                      params={{ search: searchTerm, replenishment: onlyReplenishment }}
+                    />
                   </div>
                 </div>
 
-                {/* Paletizados table */}
-                <div className="overflow-x-auto">
-                  <table className="data-table">
-                    <thead>
-                      <tr>
-                        <th>Código</th>
-                        <th>Descrição</th>
-                        <th>Categoria</th>
-                        <th>Quantidade</th>
-                        <th>Ações</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {stockLoading ? (
+                {/* Paletizados per product */}
+                {paletizadoView === "products" ? (
+                  <div className="overflow-x-auto">
+                    <table className="data-table">
+                      <thead>
                         <tr>
-                          <td colSpan={5} className="text-center py-8">
-                            Carregando...
-                          </td>
+                          <th>Código</th>
+                          <th>Descrição</th>
+                          <th>Categoria</th>
+                          <th>Registros</th>
+                          <th>Endereços</th>
+                          <th>Total de Paletes</th>
                         </tr>
-                      ) : filteredPaletizadoStock && filteredPaletizadoStock.length > 0 ? (
-                        filteredPaletizadoStock.map((stock) => (
-                          <tr key={stock.id}>
-                            <td className="font-medium">{stock.product.code}</td>
-                            <td>{stock.product.description}</td>
-                            <td>
-                              <Badge
-                                className={
-                                  stock.product.category === "alta_rotacao"
-                                    ? "badge-alta-rotacao"
-                                    : "badge-baixa-rotacao"
-                                }
-                              >
-                                {stock.product.category === "alta_rotacao"
-                                  ? "Alta Rotação"
-                                  : "Baixa Rotação"}
-                              </Badge>
+                      </thead>
+                      <tbody>
+                        {stockLoading ? (
+                          <tr>
+                            <td colSpan={6} className="text-center py-8">
+                              Carregando...
                             </td>
-                            <td>{stock.quantity}</td>
-                            <td>
-                              <div className="flex gap-2">
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => {
-                                    setEditingPaletizado(stock);
-                                    setIsPaletizadoModalOpen(true);
-                                  }}
-                                >
-                                  <Edit className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleDeletePaletizado(stock)}
+                          </tr>
+                        ) : paletizadoSummary.length > 0 ? (
+                          paletizadoSummary.map((summary) => (
+                            <tr key={summary.product.id}>
+                              <td className="font-medium">
+                              <Link href={`/products/${encodeURIComponent(summary.product.code)}`} className="hover:underline">
+                                {summary.product.code}
+                              </Link>
+                            </td>
+                              <td>{summary.product.description}</td>
+                              <td>
+                                <Badge
+                                  className={
+                                    summary.product.category === "alta_rotacao"
+                                      ? "badge-alta-rotacao"
+                                      : "badge-baixa-rotacao"
+                                  }
                                 >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </div>
+                                  {formatCategory(summary.product.category)}
+                                </Badge>
+                              </td>
+                              <td>{summary.records}</td>
+                              <td>{summary.locations}</td>
+                              <td className="font-medium">{summary.totalQuantity}</td>
+                            </tr>
+                          ))
+                      ) : (
+                          <tr>
+                            <td colSpan={6} className="text-center py-8 text-muted-foreground">
+                              {searchTerm || onlyReplenishment
+                                ? "Nenhum paletizado encontrado"
+                                : "Nenhum paletizado em estoque"}
                             </td>
                           </tr>
-                        ))
-                      ) : (
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  /* Paletizados per record */
+                  <div className="overflow-x-auto">
+                    <table className="data-table">
+                      <thead>
                         <tr>
-                          <td colSpan={5} className="text-center py-8 text-muted-foreground">
-                            {searchTerm
-                              ? "Nenhum paletizado encontrado"
-                              : "Nenhum paletizado em estoque"}
-                          </td>
+                          <th>Código</th>
+                          <th>Descrição</th>
+                          <th>Categoria</th>
+                          <th>Endereço</th>
+                          <th>Lote</th>
+                          <th>Validade</th>
+                          <th>Quantidade</th>
+                          <th>Criado por</th>
+                          <th>Atualizado por</th>
+                          <th>Ações</th>
                         </tr>
-                      )}
-                    </tbody>
-                  </table>
-                </div>
+                      </thead>
+                      <tbody>
+                        {stockLoading ? (
+                          <tr>
+                            <td colSpan={10} className="text-center py-8">
+                              Carregando...
+                            </td>
+                          </tr>
+                        ) : filteredPaletizadoStock && filteredPaletizadoStock.length > 0 ? (
+                          filteredPaletizadoStock.map((stock) => (
+                            <tr key={stock.id}>
+                              <td className="font-medium">
+                              <Link href={`/products/${encodeURIComponent(stock.product.code)}`} className="hover:underline">
+                                {stock.product.code}
+                              </Link>
+                            </td>
+                              <td>{stock.product.description}</td>
+                              <td>
+                                <Badge
+                                  className={
+                                    stock.product.category === "alta_rotacao"
+                                      ? "badge-alta-rotacao"
+                                      : "badge-baixa-rotacao"
+                                  }
+                                >
+                                  {stock.product.category === "alta_rotacao"
+                                    ? "Alta Rotação"
+                                    : "Baixa Rotação"}
+                                </Badge>
+                              </td>
+                              <td className="font-medium">{stock.location?.code ?? "-"}</td>
+                              <td>{stock.lot ?? "-"}</td>
+                              <td className={expiryClassName(stock.expiryDate)}>
+                                {formatExpiryDate(stock.expiryDate)}
+                              </td>
+                              <td>{stock.quantity}</td>
+                              <td>{stock.createdByUser?.nickname ?? "-"}</td>
+                              <td>{stock.updatedByUser?.nickname ?? "-"}</td>
+                              <td>
+                                <div className="flex gap-2">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Repor pico"
+                                    onClick={() => {
+                                      setReplenishingStock(stock);
+                                      setIsReplenishModalOpen(true);
+                                    }}
+                                    disabled={stock.quantity === 0}
+                                  >
+                                    <ArrowRightLeft className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                      setEditingPaletizado(stock);
+                                      setIsPaletizadoModalOpen(true);
+                                    }}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDeletePaletizado(stock)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))
+                      ) : (
+                          <tr>
+                            <td colSpan={10} className="text-center py-8 text-muted-foreground">
+                              {searchTerm || onlyReplenishment
+                                ? "Nenhum paletizado encontrado"
+                                : "Nenhum paletizado em estoque"}
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -510,6 +628,53 @@ export default function InventoryPage() {
           }}
           stock={editingPaletizado}
         />
+
+        <PicoReplenishModal
+          isOpen={isReplenishModalOpen}
+          onClose={() => {
+            setIsReplenishModalOpen(false);
+            setReplenishingStock(null);
+          }}
+          stock={replenishingStock}
+        />
+
+        <PicoConsumeModal
+          isOpen={!!consumingPico}
+          onClose={() => setConsumingPico(null)}
+          pico={consumingPico}
+        />
+
+        <ReportPrintModal
+          isOpen={printingReport === "picos"}
+          onClose={() => setPrintingReport(null)}
+          title="Imprimir Relatório de Picos"
+          endpoint="/api/reports/picos"
+          params={{ search: searchTerm, category: categoryFilter, replenishment: onlyReplenishment }}
+        />
+
+        <ReportPrintModal
+          isOpen={printingReport === "paletizados"}
+          onClose={() => setPrintingReport(null)}
+          title="Imprimir Relatório de Paletizados"
+          endpoint="/api/reports/paletizado-stock"
+          params={{
+            search: searchTerm,
+            replenishment: onlyReplenishment,
+            view: paletizadoView === "products" ? "products" : undefined,
+          }}
+          allowTowerGrouping={paletizadoView === "records"}
+        />
+
+        <LabelPrintModal
+          isOpen={labelTarget !== null}
+          onClose={() => setLabelTarget(null)}
+          target={labelTarget ?? "pico"}
+          ids={
+            labelTarget === "paletizado"
+              ? (filteredPaletizadoStock ?? []).map((stock) => stock.id)
+              : (filteredPicos ?? []).map((pico) => pico.id)
+          }
+        />
       </div>
     </>
   );
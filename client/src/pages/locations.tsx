@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, Search, Tag } from "lucide-react";
+import LocationFormModal from "@/components/location-form-modal";
+import LabelPrintModal from "@/components/label-print-modal";
+import { locationTypeLabels, type Location } from "@shared/schema";
+
+export default function LocationsPage() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [labelIds, setLabelIds] = useState<number[] | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: locations, isLoading } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/locations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Endereço excluído",
+        description: "O endereço foi excluído com sucesso.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao excluir endereço",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (location: Location) => {
+    setEditingLocation(location);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (location: Location) => {
+    if (confirm(`Tem certeza que deseja excluir o endereço ${location.code}?`)) {
+      deleteMutation.mutate(location.id);
+    }
+  };
+
+  const handleModalClose = () => {
+    setIsModalOpen(false);
+    setEditingLocation(null);
+  };
+
+  // Filter locations based on search term and type
+  const filteredLocations = locations?.filter((location) => {
+    const matchesSearch = location.code.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesType = typeFilter === "all" || location.type === typeFilter;
+    return matchesSearch && matchesType;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Endereços</h2>
+          <p className="text-muted-foreground">Gerenciar ruas, torres, níveis e posições do armazém</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setLabelIds(filteredLocations?.map((location) => location.id) ?? [])}
+            disabled={!filteredLocations?.length}
+          >
+            <Tag className="h-4 w-4 mr-2" />
+            Etiquetas
+          </Button>
+          <Button onClick={() => setIsModalOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Endereço
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {/* Search and filter bar */}
+          <div className="p-4 border-b border-border">
+            <div className="flex gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar por código..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Filtrar por tipo" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os tipos</SelectItem>
+                  <SelectItem value="picking">Picking</SelectItem>
+                  <SelectItem value="porta_palete">Porta-palete</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Locations table */}
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Código</th>
+                  <th>Rua</th>
+                  <th>Torre</th>
+                  <th>Nível</th>
+                  <th>Posição</th>
+                  <th>Tipo</th>
+                  <th>Capacidade</th>
+                  <th>Situação</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredLocations && filteredLocations.length > 0 ? (
+                  filteredLocations.map((location) => (
+                    <tr key={location.id}>
+                      <td className="font-medium">{location.code}</td>
+                      <td>{location.aisle}</td>
+                      <td>{location.tower}</td>
+                      <td>{location.level}</td>
+                      <td>{location.position}</td>
+                      <td>
+                        <Badge variant="outline">{locationTypeLabels[location.type]}</Badge>
+                      </td>
+                      <td>
+                        {location.capacity
+                          ? `${location.capacity} ${location.type === "picking" ? "bases" : "paletes"}`
+                          : "-"}
+                      </td>
+                      <td>
+                        <Badge variant={location.isActive ? "default" : "secondary"}>
+                          {location.isActive ? "Ativo" : "Inativo"}
+                        </Badge>
+                      </td>
+                      <td>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLabelIds([location.id])}
+                            title="Imprimir etiqueta"
+                          >
+                            <Tag className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(location)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(location)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={9} className="text-center py-8 text-muted-foreground">
+                      {searchTerm || typeFilter !== "all"
+                        ? "Nenhum endereço encontrado com os filtros aplicados"
+                        : "Nenhum endereço cadastrado"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <LocationFormModal
+        isOpen={isModalOpen}
+        onClose={handleModalClose}
+        location={editingLocation}
+      />
+
+      <LabelPrintModal
+        isOpen={labelIds !== null}
+        onClose={() => setLabelIds(null)}
+        target="location"
+        ids={labelIds ?? []}
+      />
+    </div>
+  );
+}
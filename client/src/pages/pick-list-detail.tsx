@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Check, XCircle, Printer, AlertTriangle, MapPin } from "lucide-react";
+import PickListStatusBadge from "@/components/pick-list-status-badge";
+import {
+  formatExpiryDate,
+  type PickListLineWithProduct,
+  type PickListWithLines,
+} from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const unitLabel = (line: PickListLineWithProduct) => (line.itemType === "pico" ? "unid." : "paletes");
+
+interface ChecklistCardProps {
+  line: PickListLineWithProduct;
+  current: boolean;
+  saving: boolean;
+  onPick: (lineId: number, pickedQuantity: number) => void;
+}
+
+// Large touch targets for picking on a phone: confirm the planned quantity or type what was actually found
+function ChecklistCard({ line, current, saving, onPick }: ChecklistCardProps) {
+  const [quantity, setQuantity] = useState(String(line.quantity));
+  const parsed = parseInt(quantity);
+
+  return (
+    <Card className={cn(current && "border-primary border-2")}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center text-2xl font-bold">
+            <MapPin className="h-5 w-5 mr-2 text-primary" />
+            {line.location?.code ?? "Sem endereço"}
+          </span>
+          <span className="text-muted-foreground">#{line.sequence}</span>
+        </div>
+        <div>
+          <p className="font-medium">{line.product.code}</p>
+          <p className="text-sm text-muted-foreground">{line.product.description}</p>
+          <p className="text-sm text-muted-foreground">
+            {line.itemType === "pico" ? "Pico" : "Paletizado"} • Lote {line.lot ?? "-"} • Val. {formatExpiryDate(line.expiryDate)}
+          </p>
+        </div>
+        <p className="text-xl font-semibold">
+          {line.quantity} {unitLabel(line)}
+        </p>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min="0"
+            max={line.quantity}
+            inputMode="numeric"
+            className="w-28 h-12 text-lg"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+          />
+          <Button
+            className="flex-1 h-12 text-lg"
+            disabled={saving || isNaN(parsed) || parsed < 0 || parsed > line.quantity}
+            onClick={() => onPick(line.id, parsed)}
+          >
+            <Check className="h-5 w-5 mr-2" />
+            Confirmar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PickListDetailPage() {
+  const [, params] = useRoute("/pick-lists/:id");
+  const pickListId = params?.id;
+  const [checklistMode, setChecklistMode] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pickList, isLoading } = useQuery<PickListWithLines>({
+    queryKey: [`/api/pick-lists/${pickListId}`],
+    enabled: !!pickListId,
+  });
+
+  const invalidatePickList = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/pick-lists/${pickListId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pick-lists"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const pickMutation = useMutation({
+    mutationFn: async ({ lineId, pickedQuantity }: { lineId: number; pickedQuantity: number }) => {
+      await apiRequest("POST", `/api/pick-lists/${pickListId}/lines/${lineId}/pick`, { pickedQuantity });
+    },
+    onSuccess: () => {
+      invalidatePickList();
+      queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
+    },
+    onError: onError("Erro ao separar item"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/pick-lists/${pickListId}/cancel`);
+    },
+    onSuccess: () => {
+      invalidatePickList();
+      toast({ title: "Lista atualizada", description: "Lista de separação cancelada." });
+    },
+    onError: onError("Erro ao cancelar lista"),
+  });
+
+  if (isLoading || !pickList) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = pickList.status === "open";
+  const pendingLines = pickList.lines.filter((line) => line.pickedQuantity === null);
+  const shortages = pickList.items.filter((item) => item.shortageUnits > 0);
+
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    const html = `
+      <html>
+        <head>
+          <title>Lista de Separação #${pickList.id}</title>
+          <style>
+            body { font-family: Arial, sans-serif; margin: 20px; }
+            .header { text-align: center; margin-bottom: 30px; }
+            .print-table { width: 100%; border-collapse: collapse; margin-bottom: 30px; }
+            .print-table th, .print-table td { border: 1px solid #000; padding: 8px; text-align: left; }
+            .print-table th { background-color: #f0f0f0; font-weight: bold; }
+            .check { width: 40px; }
+            .shortages { color: #b91c1c; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>PalletFlow - Lista de Separação #${pickList.id}</h1>
+            <p>Data: ${new Date().toLocaleDateString("pt-BR")}</p>
+            ${pickList.reference ? `<p><strong>Referência:</strong> ${pickList.reference}</p>` : ""}
+          </div>
+          <table class="print-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Endereço</th>
+                <th>Código</th>
+                <th>Descrição</th>
+                <th>Tipo</th>
+                <th>Lote</th>
+                <th>Validade</th>
+                <th>Quantidade</th>
+                <th class="check">OK</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${pickList.lines.map(line => `
+                <tr>
+                  <td>${line.sequence}</td>
+                  <td>${line.location?.code ?? "-"}</td>
+                  <td>${line.product.code}</td>
+                  <td>${line.product.description}</td>
+                  <td>${line.itemType === "pico" ? "Pico" : "Paletizado"}</td>
+                  <td>${line.lot ?? "-"}</td>
+                  <td>${formatExpiryDate(line.expiryDate)}</td>
+                  <td>${line.quantity} ${unitLabel(line)}</td>
+                  <td class="check">${line.pickedQuantity !== null ? line.pickedQuantity : ""}</td>
+                </tr>
+              `).join("")}
+            </tbody>
+          </table>
+          ${shortages.length > 0 ? `
+            <div class="shortages">
+              <h3>Faltas</h3>
+              ${shortages.map(item => `
+                <p>${item.product.code} - ${item.product.description}: faltam ${item.shortageUnits} de ${item.requestedUnits} unid.</p>
+              `).join("")}
+            </div>
+          ` : ""}
+        </body>
+      </html>
+    `;
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.print();
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-start flex-wrap gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-3" asChild>
+            <Link href="/pick-lists">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Listas de separação
+            </Link>
+          </Button>
+          <h2 className="text-3xl font-bold text-foreground">
+            Lista #{pickList.id}{pickList.reference ? ` — ${pickList.reference}` : ""}
+          </h2>
+          <div className="flex items-center gap-3 mt-2 text-muted-foreground">
+            <PickListStatusBadge status={pickList.status} />
+            <span>{pickList.lines.length - pendingLines.length} / {pickList.lines.length} separados</span>
+          </div>
+        </div>
+
+        <div className="flex gap-2 items-center">
+          {isOpen && (
+            <div className="flex items-center gap-2 mr-2">
+              <Switch id="checklistMode" checked={checklistMode} onCheckedChange={setChecklistMode} />
+              <Label htmlFor="checklistMode">Modo checklist</Label>
+            </div>
+          )}
+          <Button variant="outline" onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            Imprimir
+          </Button>
+          {isOpen && (
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (confirm("Cancelar esta lista? Os itens já separados continuam baixados.")) {
+                  cancelMutation.mutate();
+                }
+              }}
+              disabled={cancelMutation.isPending}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancelar
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {shortages.length > 0 && (
+        <Card className="mb-6 border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center text-destructive">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              Faltas
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {shortages.map((item) => (
+              <p key={item.id} className="text-sm">
+                <span className="font-medium">{item.product.code}</span> - {item.product.description}: faltam{" "}
+                {item.shortageUnits} de {item.requestedUnits} unid.
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {isOpen && checklistMode ? (
+        <div className="max-w-md mx-auto space-y-4">
+          {pendingLines.map((line, index) => (
+            <ChecklistCard
+              key={line.id}
+              line={line}
+              current={index === 0}
+              saving={pickMutation.isPending}
+              onPick={(lineId, pickedQuantity) => pickMutation.mutate({ lineId, pickedQuantity })}
+            />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Endereço</th>
+                    <th>Código</th>
+                    <th>Descrição</th>
+                    <th>Tipo</th>
+                    <th>Lote</th>
+                    <th>Validade</th>
+                    <th>Quantidade</th>
+                    <th>Separado</th>
+                    <th>Separado por</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pickList.lines.length > 0 ? (
+                    pickList.lines.map((line) => (
+                      <tr
+                        key={line.id}
+                        className={cn(
+                          line.pickedQuantity !== null && line.pickedQuantity < line.quantity && "bg-amber-50 dark:bg-amber-950/30"
+                        )}
+                      >
+                        <td>{line.sequence}</td>
+                        <td className="font-medium">{line.location?.code ?? "-"}</td>
+                        <td>{line.product.code}</td>
+                        <td>{line.product.description}</td>
+                        <td>{line.itemType === "pico" ? "Pico" : "Paletizado"}</td>
+                        <td>{line.lot ?? "-"}</td>
+                        <td>{formatExpiryDate(line.expiryDate)}</td>
+                        <td>{line.quantity} {unitLabel(line)}</td>
+                        <td>{line.pickedQuantity ?? "-"}</td>
+                        <td>{line.pickedByUser?.nickname ?? "-"}</td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={10} className="text-center py-8 text-muted-foreground">
+                        Nenhum item disponível em estoque
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
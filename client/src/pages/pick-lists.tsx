@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Plus, ListChecks } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import PickListFormModal from "@/components/pick-list-form-modal";
+import PickListStatusBadge from "@/components/pick-list-status-badge";
+import type { PickListSummary } from "@shared/schema";
+
+export default function PickListsPage() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const { data: pickLists, isLoading } = useQuery<PickListSummary[]>({
+    queryKey: ["/api/pick-lists"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Separação</h2>
+          <p className="text-muted-foreground">Listas de separação ordenadas pelo percurso no armazém</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Lista
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Lista</th>
+                  <th>Referência</th>
+                  <th>Situação</th>
+                  <th>Separados</th>
+                  <th>Faltas</th>
+                  <th>Criado por</th>
+                  <th>Criado em</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pickLists && pickLists.length > 0 ? (
+                  pickLists.map((pickList) => (
+                    <tr key={pickList.id}>
+                      <td className="font-medium">#{pickList.id}</td>
+                      <td>{pickList.reference ?? "-"}</td>
+                      <td>
+                        <PickListStatusBadge status={pickList.status} />
+                      </td>
+                      <td>
+                        {pickList.pickedCount} / {pickList.lineCount}
+                      </td>
+                      <td className={pickList.shortageCount > 0 ? "text-destructive font-medium" : undefined}>
+                        {pickList.shortageCount}
+                      </td>
+                      <td>{pickList.createdByUser?.nickname ?? "-"}</td>
+                      <td>
+                        {pickList.createdAt
+                          ? format(new Date(pickList.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                          : "-"}
+                      </td>
+                      <td>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/pick-lists/${pickList.id}`}>
+                            <ListChecks className="h-4 w-4 mr-2" />
+                            {pickList.status === "open" ? "Separar" : "Ver"}
+                          </Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={8} className="text-center py-8 text-muted-foreground">
+                      Nenhuma lista de separação gerada
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PickListFormModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+    </div>
+  );
+}
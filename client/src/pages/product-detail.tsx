@@ -0,0 +1,301 @@
+import { Link, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft, History } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  barcodeTypeLabels,
+  categoryLabels,
+  formatExpiryDate,
+  type ProductStockCard,
+} from "@shared/schema";
+import { formatUnitsBreakdown, unitsPerPallet } from "@shared/uom";
+
+const balanceChartConfig = {
+  totalUnits: { label: "Total (unid.)", color: "hsl(var(--primary))" },
+  picoUnits: { label: "Picos (unid.)", color: "hsl(25 95% 53%)" },
+} satisfies ChartConfig;
+
+export default function ProductDetailPage() {
+  const [, params] = useRoute("/products/:code");
+  const code = params?.code ? decodeURIComponent(params.code) : undefined;
+
+  const { data: card, isLoading, error } = useQuery<ProductStockCard>({
+    queryKey: [`/api/products/code/${encodeURIComponent(code ?? "")}/stock-card`],
+    enabled: !!code,
+    staleTime: 0,
+  });
+
+  if (error) {
+    return (
+      <div className="p-8">
+        <Button variant="ghost" size="sm" className="mb-2 -ml-3" asChild>
+          <Link href="/products">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Produtos
+          </Link>
+        </Button>
+        <p className="text-muted-foreground">Produto {code} não encontrado.</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !card) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const { product } = card;
+  const palletUnits = unitsPerPallet(product);
+  // The ledger keeps pallets for paletizados; the chart shows everything in units
+  const balanceData = card.balanceHistory.map((point) => ({
+    at: point.at,
+    picoUnits: point.picoUnits,
+    totalUnits: point.picoUnits + point.paletizadoPallets * palletUnits,
+  }));
+
+  const catalogFields = [
+    { label: "Categoria", value: categoryLabels[product.category] },
+    { label: "Unidades/Caixa", value: product.unitsPerCase ?? "-" },
+    { label: "Unidades/Base", value: product.unitsPerBase },
+    { label: "Bases/Palete", value: product.quantityBases },
+    { label: "Unidades/Palete", value: palletUnits },
+    {
+      label: "Limites do pico (unid.)",
+      value: `${product.minPicoUnits ?? "-"} / ${product.maxPicoUnits ?? "-"}`,
+    },
+    {
+      label: "Limites de paletes",
+      value: `${product.minPaletizadoPallets ?? "-"} / ${product.maxPaletizadoPallets ?? "-"}`,
+    },
+  ];
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-start flex-wrap gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-3" asChild>
+            <Link href="/products">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Produtos
+            </Link>
+          </Button>
+          <h2 className="text-3xl font-bold text-foreground">
+            {product.code} — {product.description}
+          </h2>
+          <p className="text-muted-foreground">Ficha de estoque</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href={`/activity?search=${encodeURIComponent(product.code)}`}>
+            <History className="h-4 w-4 mr-2" />
+            Movimentações
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-muted-foreground">Picos</p>
+            <p className="text-2xl font-bold text-foreground">{card.picoUnits} unid.</p>
+            <p className="text-xs text-muted-foreground">{card.picos.length} endereço(s) de picking</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-muted-foreground">Paletizados</p>
+            <p className="text-2xl font-bold text-foreground">{card.paletizadoPallets} paletes</p>
+            <p className="text-xs text-muted-foreground">{card.paletizadoPallets * palletUnits} unidades</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-muted-foreground">Total em estoque</p>
+            <p className="text-2xl font-bold text-foreground">{card.totalUnits} unid.</p>
+            <p className="text-xs text-muted-foreground">{formatUnitsBreakdown(card.totalUnits, product)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Cadastro</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {catalogFields.map((field) => (
+              <div key={field.label} className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{field.label}</span>
+                <span className="font-medium">{field.value}</span>
+              </div>
+            ))}
+            {card.barcodes.length > 0 && (
+              <div className="pt-3 border-t space-y-2">
+                <p className="text-sm text-muted-foreground">Códigos de barras alternativos</p>
+                {card.barcodes.map((barcode) => (
+                  <div key={barcode.id} className="flex justify-between text-sm">
+                    <span className="font-mono">{barcode.code}</span>
+                    <span className="text-muted-foreground">
+                      {barcodeTypeLabels[barcode.type]} • {barcode.units} unid.
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Saldo ao longo do tempo</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {balanceData.length > 0 ? (
+              <ChartContainer config={balanceChartConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={balanceData} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="at"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                    tickFormatter={(value: string) => format(new Date(value), "dd/MM", { locale: ptBR })}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) =>
+                          payload?.[0]
+                            ? format(new Date(payload[0].payload.at), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                            : ""
+                        }
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line type="stepAfter" dataKey="totalUnits" stroke="var(--color-totalUnits)" strokeWidth={2} dot={false} />
+                  <Line type="stepAfter" dataKey="picoUnits" stroke="var(--color-picoUnits)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-center text-muted-foreground py-8">Nenhuma movimentação registrada</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Picos</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Endereço</th>
+                  <th>Rua</th>
+                  <th>Torre</th>
+                  <th>Bases</th>
+                  <th>Unid. Soltas</th>
+                  <th>Total</th>
+                  <th>Lote</th>
+                  <th>Validade</th>
+                </tr>
+              </thead>
+              <tbody>
+                {card.picos.length > 0 ? (
+                  card.picos.map((pico) => (
+                    <tr key={pico.id}>
+                      <td className="font-medium">{pico.location.code}</td>
+                      <td>{pico.location.aisle}</td>
+                      <td>{pico.location.tower}</td>
+                      <td>{pico.bases}</td>
+                      <td>{pico.looseUnits}</td>
+                      <td>{pico.totalUnits} unid.</td>
+                      <td>{pico.lot ?? "-"}</td>
+                      <td>{formatExpiryDate(pico.expiryDate)}</td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={8} className="text-center py-8 text-muted-foreground">
+                      Nenhum pico deste produto
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Paletizados</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Endereço</th>
+                  <th>Paletes</th>
+                  <th>Unidades</th>
+                  <th>Lote</th>
+                  <th>Validade</th>
+                  <th>Atualizado em</th>
+                </tr>
+              </thead>
+              <tbody>
+                {card.paletizadoStock.length > 0 ? (
+                  card.paletizadoStock.map((stock) => (
+                    <tr key={stock.id}>
+                      <td className="font-medium">
+                        {stock.location?.code ?? <Badge variant="outline">Sem endereço</Badge>}
+                      </td>
+                      <td>{stock.quantity}</td>
+                      <td>{stock.quantity * palletUnits}</td>
+                      <td>{stock.lot ?? "-"}</td>
+                      <td>{formatExpiryDate(stock.expiryDate)}</td>
+                      <td>
+                        {stock.updatedAt
+                          ? format(new Date(stock.updatedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="text-center py-8 text-muted-foreground">
+                      Nenhum estoque paletizado deste produto
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
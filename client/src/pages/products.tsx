@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -13,12 +14,17 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, Edit, Trash2, Search } from "lucide-react";
+import { Plus, Edit, Trash2, Search, Upload, Tag } from "lucide-react";
 import ProductFormModal from "@/components/product-form-modal";
-import type { Product } from "@shared/schema";
+import ProductImportModal from "@/components/product-import-modal";
+import ExportMenu from "@/components/export-menu";
+import LabelPrintModal from "@/components/label-print-modal";
+import { matchesProductFilters, type Product } from "@shared/schema";
 
 export default function ProductsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [labelIds, setLabelIds] = useState<number[] | null>(null);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
@@ -66,16 +72,9 @@ export default function ProductsPage() {
   };
 
   // Filter products based on search term and category
-  const filteredProducts = products?.filter((product) => {
-    const matchesSearch = 
-      product.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      product.description.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesCategory = 
-      categoryFilter === "all" || product.category === categoryFilter;
-    
-    return matchesSearch && matchesCategory;
-  });
+  const filteredProducts = products?.filter((product) =>
+    matchesProductFilters(product, { search: searchTerm, category: categoryFilter })
+  );
 
   if (isLoading) {
     return (
@@ -95,10 +94,24 @@ export default function ProductsPage() {
           <h2 className="text-3xl font-bold text-foreground">Cadastro de Paletizados</h2>
           <p className="text-muted-foreground">Gerenciar produtos paletizados</p>
         </div>
-        <Button onClick={() => setIsModalOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Novo Paletizado
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setLabelIds(filteredProducts?.map((product) => product.id) ?? [])}
+            disabled={!filteredProducts?.length}
+          >
+            <Tag className="h-4 w-4 mr-2" />
+            Etiquetas
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar
+          </Button>
+          <Button onClick={() => setIsModalOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Paletizado
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -125,6 +138,10 @@ export default function ProductsPage() {
                   <SelectItem value="baixa_rotacao">Baixa Rotação</SelectItem>
                 </SelectContent>
               </Select>
+              <ExportMenu
+                endpoint="/api/export/products"
+                params={{ search: searchTerm, category: categoryFilter }}
+              />
             </div>
           </div>
 
@@ -137,6 +154,7 @@ export default function ProductsPage() {
                   <th>Descrição</th>
                   <th>Qtd. Bases</th>
                   <th>Unidades/Base</th>
+                  <th>Unidades/Caixa</th>
                   <th>Categoria</th>
                   <th>Ações</th>
                 </tr>
@@ -145,10 +163,15 @@ export default function ProductsPage() {
                 {filteredProducts && filteredProducts.length > 0 ? (
                   filteredProducts.map((product) => (
                     <tr key={product.id}>
-                      <td className="font-medium">{product.code}</td>
+                      <td className="font-medium">
+                        <Link href={`/products/${encodeURIComponent(product.code)}`} className="hover:underline">
+                          {product.code}
+                        </Link>
+                      </td>
                       <td>{product.description}</td>
                       <td>{product.quantityBases}</td>
                       <td>{product.unitsPerBase}</td>
+                      <td>{product.unitsPerCase ?? "-"}</td>
                       <td>
                         <Badge
                           className={
@@ -164,6 +187,14 @@ export default function ProductsPage() {
                       </td>
                       <td>
                         <div className="flex gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLabelIds([product.id])}
+                            title="Imprimir etiqueta"
+                          >
+                            <Tag className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -185,7 +216,7 @@ export default function ProductsPage() {
                   ))
                 ) : (
                   <tr>
-                    <td colSpan={6} className="text-center py-8 text-muted-foreground">
+                    <td colSpan={7} className="text-center py-8 text-muted-foreground">
                       {searchTerm || categoryFilter !== "all"
                         ? "Nenhum produto encontrado com os filtros aplicados"
                         : "Nenhum produto cadastrado"}
@@ -203,6 +234,15 @@ export default function ProductsPage() {
         onClose={handleModalClose}
         product={editingProduct}
       />
+
+      <ProductImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+
+      <LabelPrintModal
+        isOpen={labelIds !== null}
+        onClose={() => setLabelIds(null)}
+        target="product"
+        ids={labelIds ?? []}
+      />
     </div>
   );
 }
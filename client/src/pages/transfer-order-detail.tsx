@@ -0,0 +1,389 @@
+import { useState, useEffect } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Truck, XCircle, Save, Printer } from "lucide-react";
+import TransferOrderStatusBadge from "@/components/transfer-order-status-badge";
+import {
+  formatExpiryDate,
+  sortByFefo,
+  type PaletizadoStockWithProduct,
+  type PickTransferOrderLineData,
+  type PicoWithProduct,
+  type TransferOrderLineWithProduct,
+  type TransferOrderWithLines,
+} from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface PickSource {
+  id: number;
+  locationCode: string;
+  lot: string | null;
+  expiryDate: string | null;
+  available: number;
+}
+
+interface PickLineRowProps {
+  line: TransferOrderLineWithProduct;
+  sources: PickSource[];
+  editable: boolean;
+  saving: boolean;
+  onSave: (lineId: number, data: PickTransferOrderLineData) => void;
+}
+
+function PickLineRow({ line, sources, editable, saving, onSave }: PickLineRowProps) {
+  const savedSourceId = line.itemType === "pico" ? line.picoId : line.paletizadoStockId;
+  const [sourceId, setSourceId] = useState<number | null>(savedSourceId);
+  const [pickedQuantity, setPickedQuantity] = useState(line.pickedQuantity?.toString() ?? "");
+
+  useEffect(() => {
+    setSourceId(savedSourceId);
+    setPickedQuantity(line.pickedQuantity?.toString() ?? "");
+  }, [savedSourceId, line.pickedQuantity]);
+
+  const unit = line.itemType === "pico" ? "unid." : "paletes";
+  const source = sources.find((item) => item.id === sourceId);
+  const parsedPicked = parseInt(pickedQuantity);
+  const shortfall = line.pickedQuantity !== null && line.pickedQuantity < line.requestedQuantity;
+
+  // Picking a source suggests the requested quantity, capped at what the source holds
+  const handleSourceChange = (value: string) => {
+    const next = sources.find((item) => item.id === Number(value));
+    setSourceId(Number(value));
+    if (next && pickedQuantity === "") {
+      setPickedQuantity(String(Math.min(line.requestedQuantity, next.available)));
+    }
+  };
+
+  return (
+    <tr className={cn(shortfall && "bg-amber-50 dark:bg-amber-950/30")}>
+      <td className="font-medium">{line.product.code}</td>
+      <td>{line.product.description}</td>
+      <td>{line.itemType === "pico" ? "Pico" : "Paletizado"}</td>
+      <td>{line.requestedQuantity} {unit}</td>
+      <td className="min-w-[260px]">
+        {editable ? (
+          <Select value={sourceId ? String(sourceId) : ""} onValueChange={handleSourceChange}>
+            <SelectTrigger>
+              <SelectValue placeholder={sources.length === 0 ? "Sem estoque" : "Selecione a origem"} />
+            </SelectTrigger>
+            <SelectContent>
+              {sources.map((item, index) => (
+                <SelectItem key={item.id} value={String(item.id)}>
+                  {item.locationCode} • Lote {item.lot ?? "-"} • Val. {formatExpiryDate(item.expiryDate)} • {item.available} {unit}
+                  {index === 0 && item.expiryDate ? " (FEFO)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <>
+            {line.location?.code ?? "-"} • Lote {line.lot ?? "-"} • Val. {formatExpiryDate(line.expiryDate)}
+          </>
+        )}
+      </td>
+      <td>
+        {editable ? (
+          <Input
+            type="number"
+            min="0"
+            max={source?.available}
+            className="w-24"
+            value={pickedQuantity}
+            onChange={(e) => setPickedQuantity(e.target.value)}
+          />
+        ) : (
+          `${line.pickedQuantity ?? "-"} ${unit}`
+        )}
+      </td>
+      {editable && (
+        <td>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={saving || !sourceId || isNaN(parsedPicked) || parsedPicked < 0}
+            onClick={() => onSave(line.id, { sourceId: sourceId!, pickedQuantity: parsedPicked })}
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+        </td>
+      )}
+    </tr>
+  );
+}
+
+export default function TransferOrderDetailPage() {
+  const [, params] = useRoute("/transfer-orders/:id");
+  const orderId = params?.id;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: order, isLoading } = useQuery<TransferOrderWithLines>({
+    queryKey: [`/api/transfer-orders/${orderId}`],
+    enabled: !!orderId,
+  });
+
+  const isPicking = order?.status === "picking";
+
+  const { data: picos } = useQuery<PicoWithProduct[]>({
+    queryKey: ["/api/picos"],
+    enabled: isPicking,
+  });
+
+  const { data: paletizadoStock } = useQuery<PaletizadoStockWithProduct[]>({
+    queryKey: ["/api/paletizado-stock"],
+    enabled: isPicking,
+  });
+
+  const invalidateOrder = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/transfer-orders/${orderId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transfer-orders"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const pickMutation = useMutation({
+    mutationFn: async ({ lineId, data }: { lineId: number; data: PickTransferOrderLineData }) => {
+      await apiRequest("PUT", `/api/transfer-orders/${orderId}/lines/${lineId}`, data);
+    },
+    onSuccess: invalidateOrder,
+    onError: onError("Erro ao separar item"),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: "dispatch" | "cancel") => {
+      await apiRequest("POST", `/api/transfer-orders/${orderId}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      invalidateOrder();
+      if (action === "dispatch") {
+        queryClient.invalidateQueries({ queryKey: ["/api/picos"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/paletizado-stock"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/expiring"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/replenishment/alerts"] });
+      }
+      toast({
+        title: "Pedido atualizado",
+        description:
+          action === "dispatch"
+            ? "Os itens separados foram baixados do estoque e expedidos."
+            : "Pedido cancelado.",
+      });
+    },
+    onError: onError("Erro ao atualizar pedido"),
+  });
+
+  if (isLoading || !order) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Available sources for a line, earliest expiry first
+  const sourcesFor = (line: TransferOrderLineWithProduct): PickSource[] =>
+    line.itemType === "pico"
+      ? sortByFefo(picos?.filter((pico) => pico.productId === line.productId && pico.totalUnits > 0) ?? [])
+          .map((pico) => ({
+            id: pico.id,
+            locationCode: pico.location.code,
+            lot: pico.lot,
+            expiryDate: pico.expiryDate,
+            available: pico.totalUnits,
+          }))
+      : sortByFefo(paletizadoStock?.filter((stock) => stock.productId === line.productId && stock.quantity > 0) ?? [])
+          .map((stock) => ({
+            id: stock.id,
+            locationCode: stock.location?.code ?? "Sem endereço",
+            lot: stock.lot,
+            expiryDate: stock.expiryDate,
+            available: stock.quantity,
+          }));
+
+  const pickedLines = order.lines.filter((line) => line.pickedQuantity !== null).length;
+
+  const handlePrintDispatchNote = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    const dispatchedAt = order.dispatchedAt ? new Date(order.dispatchedAt) : new Date();
+
+    const html = `
+      <html>
+        <head>
+          <title>Nota de Expedição #${order.id}</title>
+          <style>
+            body { font-family: Arial, sans-serif; margin: 20px; }
+            .header { text-align: center; margin-bottom: 30px; }
+            .order-info { margin-bottom: 20px; }
+            .print-table { width: 100%; border-collapse: collapse; margin-bottom: 50px; }
+            .print-table th, .print-table td { border: 1px solid #000; padding: 8px; text-align: left; }
+            .print-table th { background-color: #f0f0f0; font-weight: bold; }
+            .signatures { display: flex; justify-content: space-between; margin-top: 60px; }
+            .signature { width: 40%; border-top: 1px solid #000; text-align: center; padding-top: 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>PalletFlow - Nota de Expedição</h1>
+            <p>Pedido #${order.id} • ${dispatchedAt.toLocaleDateString("pt-BR")}</p>
+          </div>
+          <div class="order-info">
+            <p><strong>Loja de destino:</strong> ${order.store}</p>
+            ${order.notes ? `<p><strong>Observações:</strong> ${order.notes}</p>` : ""}
+            ${order.dispatchedByUser ? `<p><strong>Expedido por:</strong> ${order.dispatchedByUser.name}</p>` : ""}
+          </div>
+          <table class="print-table">
+            <thead>
+              <tr>
+                <th>Código</th>
+                <th>Descrição</th>
+                <th>Tipo</th>
+                <th>Endereço</th>
+                <th>Lote</th>
+                <th>Validade</th>
+                <th>Solicitado</th>
+                <th>Separado</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${order.lines.map(line => `
+                <tr>
+                  <td>${line.product.code}</td>
+                  <td>${line.product.description}</td>
+                  <td>${line.itemType === "pico" ? "Unidades" : "Paletes"}</td>
+                  <td>${line.location?.code ?? "-"}</td>
+                  <td>${line.lot ?? "-"}</td>
+                  <td>${formatExpiryDate(line.expiryDate)}</td>
+                  <td>${line.requestedQuantity}</td>
+                  <td>${line.pickedQuantity ?? "-"}</td>
+                </tr>
+              `).join("")}
+            </tbody>
+          </table>
+          <div class="signatures">
+            <div class="signature">Expedição (CD)</div>
+            <div class="signature">Recebimento (Loja)</div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.print();
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-start">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-3" asChild>
+            <Link href="/transfer-orders">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Pedidos de reposição
+            </Link>
+          </Button>
+          <h2 className="text-3xl font-bold text-foreground">
+            Pedido #{order.id} — {order.store}
+          </h2>
+          <div className="flex items-center gap-3 mt-2 text-muted-foreground">
+            <TransferOrderStatusBadge status={order.status} />
+            <span>{pickedLines} / {order.lines.length} separados</span>
+            {order.notes && (
+              <>
+                <span>•</span>
+                <span>{order.notes}</span>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePrintDispatchNote}>
+            <Printer className="h-4 w-4 mr-2" />
+            Nota de expedição
+          </Button>
+          {isPicking && (
+            <>
+              <Button
+                onClick={() => {
+                  if (confirm("Confirmar a expedição e baixar os itens separados do estoque?")) {
+                    actionMutation.mutate("dispatch");
+                  }
+                }}
+                disabled={actionMutation.isPending || pickedLines < order.lines.length}
+              >
+                <Truck className="h-4 w-4 mr-2" />
+                Confirmar expedição
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => {
+                  if (confirm("Cancelar este pedido? Nenhuma baixa será lançada.")) {
+                    actionMutation.mutate("cancel");
+                  }
+                }}
+                disabled={actionMutation.isPending}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancelar
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Código</th>
+                  <th>Descrição</th>
+                  <th>Tipo</th>
+                  <th>Solicitado</th>
+                  <th>Origem</th>
+                  <th>Separado</th>
+                  {isPicking && <th></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {order.lines.map((line) => (
+                  <PickLineRow
+                    key={line.id}
+                    line={line}
+                    sources={isPicking ? sourcesFor(line) : []}
+                    editable={isPicking}
+                    saving={pickMutation.isPending}
+                    onSave={(lineId, data) => pickMutation.mutate({ lineId, data })}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Plus, PackageOpen } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import TransferOrderFormModal from "@/components/transfer-order-form-modal";
+import TransferOrderStatusBadge from "@/components/transfer-order-status-badge";
+import type { TransferOrderSummary } from "@shared/schema";
+
+export default function TransferOrdersPage() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const { data: orders, isLoading } = useQuery<TransferOrderSummary[]>({
+    queryKey: ["/api/transfer-orders"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Reposição em Loja</h2>
+          <p className="text-muted-foreground">Pedidos de transferência para as lojas e expedição</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Pedido
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Pedido</th>
+                  <th>Loja</th>
+                  <th>Situação</th>
+                  <th>Separados</th>
+                  <th>Criado por</th>
+                  <th>Criado em</th>
+                  <th>Expedido em</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders && orders.length > 0 ? (
+                  orders.map((order) => (
+                    <tr key={order.id}>
+                      <td className="font-medium">#{order.id}</td>
+                      <td>{order.store}</td>
+                      <td>
+                        <TransferOrderStatusBadge status={order.status} />
+                      </td>
+                      <td>
+                        {order.pickedCount} / {order.lineCount}
+                      </td>
+                      <td>{order.createdByUser?.nickname ?? "-"}</td>
+                      <td>
+                        {order.createdAt
+                          ? format(new Date(order.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                          : "-"}
+                      </td>
+                      <td>
+                        {order.dispatchedAt
+                          ? format(new Date(order.dispatchedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                          : "-"}
+                      </td>
+                      <td>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/transfer-orders/${order.id}`}>
+                            <PackageOpen className="h-4 w-4 mr-2" />
+                            {order.status === "picking" ? "Separar" : "Ver"}
+                          </Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={8} className="text-center py-8 text-muted-foreground">
+                      Nenhum pedido de reposição registrado
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <TransferOrderFormModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+    </div>
+  );
+}
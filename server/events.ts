@@ -0,0 +1,63 @@
+import type { NextFunction, Request, Response } from "express";
+import type { LiveEvent, LiveEventTopic } from "@shared/schema";
+
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+const clients = new Set<Response>();
+
+// Mutating routes and the topics they change; only successful responses are published
+const liveEventRoutes: [RegExp, LiveEventTopic[]][] = [
+  [/^\/api\/picos(\/|$)/, ["stock", "activity"]],
+  [/^\/api\/paletizado-stock(\/|$)/, ["stock", "activity"]],
+  [/^\/api\/products(\/|$)/, ["products"]],
+  [/^\/api\/locations(\/|$)/, ["locations"]],
+  [/^\/api\/count-sessions\/\d+\/approve$/, ["stock", "activity"]],
+  [/^\/api\/inbound-receipts\/\d+\/confirm$/, ["stock", "activity"]],
+  [/^\/api\/transfer-orders\/\d+\/dispatch$/, ["stock", "activity"]],
+  [/^\/api\/pick-lists\/\d+\/lines\/\d+\/pick$/, ["stock", "activity"]],
+];
+
+setInterval(() => {
+  clients.forEach((res) => res.write(": ping\n\n"));
+}, HEARTBEAT_INTERVAL_MS).unref();
+
+export function publishLiveEvent(event: LiveEvent) {
+  const message = `event: change\ndata: ${JSON.stringify(event)}\n\n`;
+  clients.forEach((res) => res.write(message));
+}
+
+// Keeps the response open as an event stream until the browser disconnects
+export function subscribeLiveEvents(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+  clients.add(res);
+  req.on("close", () => {
+    clients.delete(res);
+  });
+}
+
+// Publishes the topics of a mutating /api request once its response has been sent
+export function liveEventsMiddleware(req: Request, res: Response, next: NextFunction) {
+  // Dry runs (e.g. the product import preview) validate without changing anything
+  if (req.method === "GET" || req.query.dryRun === "true") {
+    return next();
+  }
+  const path = req.path;
+  res.on("finish", () => {
+    if (res.statusCode < 200 || res.statusCode >= 300) return;
+    const topics = new Set<LiveEventTopic>();
+    for (const [pattern, routeTopics] of liveEventRoutes) {
+      if (pattern.test(path)) routeTopics.forEach((topic) => topics.add(topic));
+    }
+    if (topics.size > 0) {
+      publishLiveEvent({ topics: Array.from(topics) });
+    }
+  });
+  next();
+}
@@ -0,0 +1,224 @@
+import bwipjs from "bwip-js/node";
+import PDFDocument from "pdfkit";
+import {
+  labelFields,
+  categoryLabels,
+  locationTypeLabels,
+  formatExpiryDate,
+  isValidGtin,
+  type LabelField,
+  type LabelSymbology,
+  type LabelTemplate,
+  type Product,
+  type Location,
+  type PicoWithProduct,
+  type PaletizadoStockWithProduct,
+} from "@shared/schema";
+
+// What ends up on one label: the encoded value, a bold heading and the selected text fields
+export type LabelContent = {
+  barcode: string;
+  heading: string;
+  lines: string[];
+};
+
+export type LabelLayout = Omit<LabelTemplate, "name">;
+
+const POINTS_PER_MM = 72 / 25.4;
+const ZPL_DOTS_PER_MM = 8; // 203 dpi, the usual resolution of thermal label printers
+const PADDING_MM = 2;
+
+// Keeps the order of labelFields regardless of the order the fields were picked in
+function fieldLines(fields: LabelField[], values: Partial<Record<LabelField, string | null>>): string[] {
+  return labelFields
+    .filter(field => fields.includes(field) && values[field])
+    .map(field => values[field]!);
+}
+
+const productValues = (product: Product): Partial<Record<LabelField, string>> => ({
+  description: product.description,
+  category: categoryLabels[product.category],
+  unitsPerBase: [
+    product.unitsPerCase && `${product.unitsPerCase} unid./cx.`,
+    `${product.unitsPerBase} unid./base`,
+    `${product.quantityBases} bases/palete`,
+  ].filter(Boolean).join(" • "),
+});
+
+export function productLabel(product: Product, fields: LabelField[]): LabelContent {
+  return { barcode: product.code, heading: product.code, lines: fieldLines(fields, productValues(product)) };
+}
+
+export function picoLabel(pico: PicoWithProduct, fields: LabelField[]): LabelContent {
+  return {
+    barcode: pico.product.code,
+    heading: pico.product.code,
+    lines: fieldLines(fields, {
+      ...productValues(pico.product),
+      location: `Endereço: ${pico.location.code}`,
+      lot: pico.lot && `Lote: ${pico.lot}`,
+      expiryDate: pico.expiryDate && `Validade: ${formatExpiryDate(pico.expiryDate)}`,
+      quantity: `${pico.totalUnits} unid.`,
+    }),
+  };
+}
+
+export function paletizadoLabel(stock: PaletizadoStockWithProduct, fields: LabelField[]): LabelContent {
+  return {
+    barcode: stock.product.code,
+    heading: stock.product.code,
+    lines: fieldLines(fields, {
+      ...productValues(stock.product),
+      location: stock.location && `Endereço: ${stock.location.code}`,
+      lot: stock.lot && `Lote: ${stock.lot}`,
+      expiryDate: stock.expiryDate && `Validade: ${formatExpiryDate(stock.expiryDate)}`,
+      quantity: `${stock.quantity} palete(s)`,
+    }),
+  };
+}
+
+// Locations only have the type as descriptive text
+export function locationLabel(location: Location, fields: LabelField[]): LabelContent {
+  return {
+    barcode: location.code,
+    heading: location.code,
+    lines: fieldLines(fields, {
+      description: location.capacity
+        ? `${locationTypeLabels[location.type]} • capacidade ${location.capacity}`
+        : locationTypeLabels[location.type],
+    }),
+  };
+}
+
+// Returns why the value can't be encoded in the symbology, or null when it can
+export function barcodeError(value: string, symbology: LabelSymbology): string | null {
+  if (symbology === "ean13") {
+    if (!/^\d{12,13}$/.test(value)) return "EAN-13 exige 12 ou 13 dígitos";
+    if (value.length === 13 && !isValidGtin(value)) {
+      return "dígito verificador EAN-13 inválido";
+    }
+  }
+  if (symbology === "code128" && !/^[\x20-\x7e]+$/.test(value)) {
+    return "Code 128 aceita apenas caracteres ASCII";
+  }
+  return null;
+}
+
+// Sizes shared by the PDF and ZPL layouts, in millimetres
+function layoutLabel(layout: LabelLayout, lineCount: number) {
+  const { widthMm, heightMm } = layout;
+  const isQr = layout.symbology === "qrcode";
+  const qrSize = Math.min(heightMm - PADDING_MM * 2, widthMm * 0.45);
+  const barcodeHeight = isQr ? qrSize : Math.max(8, heightMm * 0.4);
+  const textWidth = isQr ? widthMm - PADDING_MM * 3 - qrSize : widthMm - PADDING_MM * 2;
+  const textHeight = isQr ? heightMm - PADDING_MM * 2 : heightMm - PADDING_MM * 3 - barcodeHeight;
+  const headingSize = Math.min(7, Math.max(3, textHeight / (lineCount * 0.75 + 1.3)));
+  const lineSize = Math.max(2.2, headingSize * 0.65);
+  return { isQr, qrSize, barcodeHeight, textWidth, textHeight, headingSize, lineSize };
+}
+
+async function renderBarcode(value: string, layout: LabelLayout, heightMm: number): Promise<Buffer> {
+  if (layout.symbology === "qrcode") {
+    return bwipjs.toBuffer({ bcid: "qrcode", text: value, scale: 4 });
+  }
+  return bwipjs.toBuffer({
+    bcid: layout.symbology,
+    text: value,
+    scale: 3,
+    height: Math.max(5, heightMm - 4), // leaves room for the human-readable line
+    includetext: true,
+    textxalign: "center",
+  });
+}
+
+// One label per page, the page being the label itself, so it prints 1:1 on label printers
+export async function writeLabelsPdf(labels: LabelContent[], layout: LabelLayout, copies: number): Promise<Buffer> {
+  const mm = (value: number) => value * POINTS_PER_MM;
+  const doc = new PDFDocument({ size: [mm(layout.widthMm), mm(layout.heightMm)], margin: 0, autoFirstPage: false });
+  const chunks: Buffer[] = [];
+  doc.on("data", chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const barcodeImages = new Map<string, Buffer>();
+  for (const label of labels) {
+    const size = layoutLabel(layout, label.lines.length);
+    if (!barcodeImages.has(label.barcode)) {
+      barcodeImages.set(label.barcode, await renderBarcode(label.barcode, layout, size.barcodeHeight));
+    }
+    const image = barcodeImages.get(label.barcode)!;
+
+    for (let copy = 0; copy < copies; copy++) {
+      doc.addPage();
+      const textOptions = { width: mm(size.textWidth), lineBreak: false, ellipsis: true };
+      doc.font("Helvetica-Bold").fontSize(mm(size.headingSize))
+        .text(label.heading, mm(PADDING_MM), mm(PADDING_MM), textOptions);
+      doc.font("Helvetica").fontSize(mm(size.lineSize));
+      for (const line of label.lines) {
+        if (doc.y + mm(size.lineSize) > mm(PADDING_MM + size.textHeight)) break;
+        doc.text(line, mm(PADDING_MM), doc.y, textOptions);
+      }
+
+      if (size.isQr) {
+        doc.image(image, mm(layout.widthMm - PADDING_MM - size.qrSize), mm(PADDING_MM), {
+          fit: [mm(size.qrSize), mm(size.qrSize)],
+        });
+      } else {
+        doc.image(image, mm(PADDING_MM), mm(layout.heightMm - PADDING_MM - size.barcodeHeight), {
+          fit: [mm(layout.widthMm - PADDING_MM * 2), mm(size.barcodeHeight)],
+          align: "center",
+          valign: "bottom",
+        });
+      }
+    }
+  }
+
+  doc.end();
+  return finished;
+}
+
+// Field data goes through ^FH so "^", "~" and "_" in codes or descriptions can't break the command stream
+const zplEscape = (value: string) =>
+  value.replace(/[_^~]/g, char => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+const zplField = (value: string) => `^FH^FD${zplEscape(value)}^FS`;
+
+// ZPL II for 203 dpi thermal printers, UTF-8 text (^CI28) and ^PQ for copies
+export function writeLabelsZpl(labels: LabelContent[], layout: LabelLayout, copies: number): string {
+  const dots = (value: number) => Math.round(value * ZPL_DOTS_PER_MM);
+  const pad = dots(PADDING_MM);
+
+  return labels.map(label => {
+    const size = layoutLabel(layout, label.lines.length);
+    const commands = ["^XA", "^CI28", `^PW${dots(layout.widthMm)}`, `^LL${dots(layout.heightMm)}`];
+
+    let y = pad;
+    const text = (value: string, heightMm: number) => {
+      commands.push(`^FO${pad},${y}^A0N,${dots(heightMm)},${dots(heightMm)}^FB${dots(size.textWidth)},1,0,L${zplField(value)}`);
+      y += dots(heightMm * 1.2);
+    };
+    text(label.heading, size.headingSize);
+    for (const line of label.lines) {
+      if (y + dots(size.lineSize) > pad + dots(size.textHeight)) break;
+      text(line, size.lineSize);
+    }
+
+    if (size.isQr) {
+      // Roughly 30 modules for short codes; the magnification sets the module size in dots
+      const magnification = Math.max(1, Math.min(10, Math.floor(dots(size.qrSize) / 30)));
+      commands.push(`^FO${dots(layout.widthMm - PADDING_MM - size.qrSize)},${pad}^BQN,2,${magnification}^FH^FDQA,${zplEscape(label.barcode)}^FS`);
+    } else {
+      const moduleWidth = layout.widthMm < 50 ? 1 : 2;
+      const barHeight = dots(size.barcodeHeight - 4); // the interpretation line is printed below the bars
+      const top = dots(layout.heightMm - PADDING_MM - size.barcodeHeight);
+      const symbol = layout.symbology === "ean13"
+        ? `^BEN,${barHeight},Y,N^FD${label.barcode.slice(0, 12)}^FS`
+        : `^BCN,${barHeight},Y,N,N${zplField(label.barcode)}`;
+      commands.push(`^FO${pad},${top}^BY${moduleWidth}${symbol}`);
+    }
+
+    commands.push(`^PQ${copies}`, "^XZ");
+    return commands.join("\n");
+  }).join("\n");
+}
@@ -0,0 +1,2 @@
+-- Filtro por período na tela de histórico
+CREATE INDEX activity_log_created_idx ON activity_log (created_at);
@@ -0,0 +1,32 @@
+-- Inventário (contagem cíclica): sessões com saldo esperado congelado na abertura
+CREATE TYPE count_session_status AS ENUM ('open', 'submitted', 'approved', 'cancelled');
+
+CREATE TABLE count_sessions (
+  id SERIAL PRIMARY KEY,
+  description TEXT NOT NULL,
+  blind BOOLEAN NOT NULL DEFAULT FALSE,
+  status count_session_status NOT NULL DEFAULT 'open',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  approved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  submitted_at TIMESTAMP,
+  closed_at TIMESTAMP
+);
+
+-- Um item por pico ou registro paletizado contado (unidades para picos, paletes para paletizados)
+CREATE TABLE count_session_items (
+  id SERIAL PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES count_sessions(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL,
+  pico_id INTEGER REFERENCES picos(id) ON DELETE SET NULL,
+  paletizado_stock_id INTEGER REFERENCES paletizado_stock(id) ON DELETE SET NULL,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  location_id INTEGER REFERENCES locations(id),
+  lot TEXT,
+  expected_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER,
+  counted_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  counted_at TIMESTAMP
+);
+
+CREATE INDEX count_session_items_session_idx ON count_session_items (session_id);
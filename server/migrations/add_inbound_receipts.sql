@@ -0,0 +1,29 @@
+-- Recebimento: entregas previstas de fornecedores, conferidas item a item
+CREATE TYPE inbound_status AS ENUM ('expected', 'received', 'cancelled');
+
+CREATE TABLE inbound_receipts (
+  id SERIAL PRIMARY KEY,
+  supplier TEXT NOT NULL,
+  document_number TEXT NOT NULL,
+  expected_date DATE,
+  status inbound_status NOT NULL DEFAULT 'expected',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  received_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  received_at TIMESTAMP,
+  CONSTRAINT inbound_receipts_supplier_document_unique UNIQUE (supplier, document_number)
+);
+
+-- Quantidades em paletes; destino, lote e validade são informados na conferência
+CREATE TABLE inbound_receipt_lines (
+  id SERIAL PRIMARY KEY,
+  receipt_id INTEGER NOT NULL REFERENCES inbound_receipts(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  expected_pallets INTEGER NOT NULL,
+  received_pallets INTEGER,
+  location_id INTEGER REFERENCES locations(id),
+  lot TEXT,
+  expiry_date DATE
+);
+
+CREATE INDEX inbound_receipt_lines_receipt_idx ON inbound_receipt_lines (receipt_id);
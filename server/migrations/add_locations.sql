@@ -0,0 +1,35 @@
+-- Cadastro de endereços do armazém (rua, torre, nível, posição)
+CREATE TYPE location_type AS ENUM ('picking', 'porta_palete');
+
+CREATE TABLE locations (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  aisle VARCHAR(4) NOT NULL,
+  tower VARCHAR(4) NOT NULL,
+  level VARCHAR(4) NOT NULL,
+  position VARCHAR(4) NOT NULL,
+  type location_type NOT NULL,
+  capacity INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- As torres de dois dígitos existentes viram endereços de picking.
+-- Como não havia rua, nível nem posição, usamos 01 e os ajustes ficam para a tela de endereços.
+INSERT INTO locations (code, aisle, tower, level, position, type)
+SELECT DISTINCT 'R01-T' || tower_location || '-N01-P01', '01', tower_location, '01', '01', 'picking'::location_type
+FROM picos;
+
+-- Picos passam a referenciar o endereço
+ALTER TABLE picos ADD COLUMN location_id INTEGER REFERENCES locations(id);
+
+UPDATE picos p SET location_id = l.id
+FROM locations l
+WHERE l.code = 'R01-T' || p.tower_location || '-N01-P01';
+
+ALTER TABLE picos ALTER COLUMN location_id SET NOT NULL;
+ALTER TABLE picos DROP COLUMN tower_location;
+
+-- Paletizados podem ter um endereço de porta-palete
+ALTER TABLE paletizado_stock ADD COLUMN location_id INTEGER REFERENCES locations(id);
@@ -0,0 +1,9 @@
+-- Lote e validade opcionais para rotação FEFO (primeiro a vencer, primeiro a sair)
+ALTER TABLE picos ADD COLUMN lot TEXT;
+ALTER TABLE picos ADD COLUMN expiry_date DATE;
+
+ALTER TABLE paletizado_stock ADD COLUMN expiry_date DATE;
+
+-- Consultas do painel de vencimentos
+CREATE INDEX picos_expiry_date_idx ON picos (expiry_date) WHERE expiry_date IS NOT NULL;
+CREATE INDEX paletizado_stock_expiry_date_idx ON paletizado_stock (expiry_date) WHERE expiry_date IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Estoque paletizado passa a ter um registro por produto, endereço e lote
+ALTER TABLE paletizado_stock ADD COLUMN lot TEXT;
+
+-- Registros sem endereço ou sem lote também contam como duplicados entre si
+ALTER TABLE paletizado_stock
+  ADD CONSTRAINT paletizado_stock_product_location_lot_unique
+  UNIQUE NULLS NOT DISTINCT (product_id, location_id, lot);
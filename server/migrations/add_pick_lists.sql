@@ -0,0 +1,42 @@
+-- Listas de separação: itens pedidos em unidades, paradas ordenadas pelo percurso no armazém
+CREATE TYPE pick_list_status AS ENUM ('open', 'completed', 'cancelled');
+
+CREATE TABLE pick_lists (
+  id SERIAL PRIMARY KEY,
+  reference TEXT,
+  status pick_list_status NOT NULL DEFAULT 'open',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+-- Um registro por produto pedido, com a quantidade que ficou em falta
+CREATE TABLE pick_list_items (
+  id SERIAL PRIMARY KEY,
+  pick_list_id INTEGER NOT NULL REFERENCES pick_lists(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  requested_units INTEGER NOT NULL,
+  shortage_units INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX pick_list_items_pick_list_idx ON pick_list_items (pick_list_id);
+
+-- Quantidade em unidades para picos e em paletes para paletizados
+CREATE TABLE pick_list_lines (
+  id SERIAL PRIMARY KEY,
+  pick_list_id INTEGER NOT NULL REFERENCES pick_lists(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  sequence INTEGER NOT NULL,
+  item_type TEXT NOT NULL,
+  pico_id INTEGER REFERENCES picos(id) ON DELETE SET NULL,
+  paletizado_stock_id INTEGER REFERENCES paletizado_stock(id) ON DELETE SET NULL,
+  location_id INTEGER REFERENCES locations(id),
+  lot TEXT,
+  expiry_date DATE,
+  quantity INTEGER NOT NULL,
+  picked_quantity INTEGER,
+  picked_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  picked_at TIMESTAMP
+);
+
+CREATE INDEX pick_list_lines_pick_list_idx ON pick_list_lines (pick_list_id);
@@ -0,0 +1,36 @@
+-- Um pico por produto e endereço: a reposição soma ao pico existente.
+
+-- Picos duplicados são consolidados no mais antigo de cada produto e endereço
+CREATE TEMP TABLE pico_duplicates AS
+SELECT id, keep_id
+FROM (
+  SELECT id, first_value(id) OVER (PARTITION BY product_id, location_id ORDER BY created_at, id) AS keep_id
+  FROM picos
+) ranked
+WHERE id <> keep_id;
+
+-- O pico mantido recebe a soma das bases e unidades dos duplicados (lote e validade continuam os dele)
+UPDATE picos k SET
+  bases = k.bases + d.bases,
+  loose_units = k.loose_units + d.loose_units,
+  total_units = k.total_units + d.total_units,
+  updated_at = now()
+FROM (
+  SELECT pd.keep_id, SUM(p.bases) AS bases, SUM(p.loose_units) AS loose_units, SUM(p.total_units) AS total_units
+  FROM pico_duplicates pd
+  JOIN picos p ON p.id = pd.id
+  GROUP BY pd.keep_id
+) d
+WHERE k.id = d.keep_id;
+
+-- Itens de inventário, pedidos e listas de separação passam a apontar para o pico mantido
+UPDATE count_session_items c SET pico_id = d.keep_id FROM pico_duplicates d WHERE c.pico_id = d.id;
+UPDATE transfer_order_lines t SET pico_id = d.keep_id FROM pico_duplicates d WHERE t.pico_id = d.id;
+UPDATE pick_list_lines l SET pico_id = d.keep_id FROM pico_duplicates d WHERE l.pico_id = d.id;
+
+DELETE FROM picos WHERE id IN (SELECT id FROM pico_duplicates);
+DROP TABLE pico_duplicates;
+
+ALTER TABLE picos
+  ADD CONSTRAINT picos_product_location_unique
+  UNIQUE (product_id, location_id);
@@ -0,0 +1,14 @@
+-- Códigos alternativos de produto (EAN-13 do fornecedor, DUN-14 da caixa, etc.)
+CREATE TYPE barcode_type AS ENUM ('ean13', 'dun14', 'outro');
+
+-- units: quantas unidades uma leitura representa (quantidade da caixa para DUN-14)
+CREATE TABLE product_barcodes (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  type barcode_type NOT NULL,
+  units INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX product_barcodes_product_idx ON product_barcodes (product_id);
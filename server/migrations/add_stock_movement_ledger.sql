@@ -0,0 +1,49 @@
+-- Transforma o activity_log em ledger de movimentações de estoque
+
+-- Novas colunas: produto, quantidades antes/depois, delta, motivo e usuário
+ALTER TABLE activity_log ADD COLUMN product_id INTEGER REFERENCES products(id) ON DELETE SET NULL;
+ALTER TABLE activity_log ADD COLUMN previous_quantity INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE activity_log ADD COLUMN new_quantity INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE activity_log ADD COLUMN delta INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE activity_log ADD COLUMN reason TEXT NOT NULL DEFAULT 'ajuste';
+ALTER TABLE activity_log ADD COLUMN user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- Vinculamos os registros existentes ao produto pelo código copiado
+UPDATE activity_log a SET product_id = p.id FROM products p WHERE p.code = a.product_code;
+
+-- Reconstruímos o que for possível dos registros antigos:
+-- entradas partiam de zero, saídas zeravam o estoque e atualizações não registravam o valor anterior
+UPDATE activity_log SET new_quantity = quantity, delta = quantity, reason = 'entrada' WHERE type = 'entry';
+UPDATE activity_log SET previous_quantity = quantity, delta = -quantity, reason = 'eliminacao' WHERE type = 'exit';
+UPDATE activity_log SET previous_quantity = quantity, new_quantity = quantity, reason = 'ajuste' WHERE type = 'update';
+
+CREATE INDEX activity_log_product_created_idx ON activity_log (product_id, created_at);
+
+-- Saldo inicial: o estoque anterior ao ledger não tem todas as entradas registradas, então cada
+-- produto e tipo recebe a diferença entre o saldo atual e a soma dos deltas, antes da primeira
+-- movimentação, para que a reconstrução do saldo pelo ledger bata com picos e paletizados
+INSERT INTO activity_log (
+  type, item_type, product_id, product_code, product_description, category,
+  quantity, previous_quantity, new_quantity, delta, reason, created_at
+)
+SELECT
+  CASE WHEN b.delta > 0 THEN 'entry' ELSE 'exit' END,
+  b.item_type, p.id, p.code, p.description, p.category,
+  ABS(b.delta), 0, b.delta, b.delta, 'saldo_inicial',
+  COALESCE(b.first_at - INTERVAL '1 second', now())
+FROM (
+  SELECT product_id, item_type, SUM(current_total) - SUM(ledger_total) AS delta, MIN(first_at) AS first_at
+  FROM (
+    SELECT product_id, 'pico' AS item_type, SUM(total_units) AS current_total, 0 AS ledger_total, NULL::timestamp AS first_at
+    FROM picos GROUP BY product_id
+    UNION ALL
+    SELECT product_id, 'paletizado', SUM(quantity), 0, NULL
+    FROM paletizado_stock GROUP BY product_id
+    UNION ALL
+    SELECT product_id, item_type, 0, SUM(delta), MIN(created_at)
+    FROM activity_log WHERE product_id IS NOT NULL GROUP BY product_id, item_type
+  ) totals
+  GROUP BY product_id, item_type
+) b
+JOIN products p ON p.id = b.product_id
+WHERE b.delta <> 0;
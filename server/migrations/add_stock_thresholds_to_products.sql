@@ -0,0 +1,5 @@
+-- Limites mínimo e máximo por produto para alertas de reposição (NULL = sem limite)
+ALTER TABLE products ADD COLUMN min_pico_units INTEGER;
+ALTER TABLE products ADD COLUMN max_pico_units INTEGER;
+ALTER TABLE products ADD COLUMN min_paletizado_pallets INTEGER;
+ALTER TABLE products ADD COLUMN max_paletizado_pallets INTEGER;
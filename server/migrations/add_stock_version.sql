@@ -0,0 +1,3 @@
+-- Versão dos registros de estoque para controle de concorrência otimista nas edições
+ALTER TABLE picos ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE paletizado_stock ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,4 @@
+-- Vincula as duas pernas de uma transferência (ex.: reposição de pico a partir do paletizado)
+ALTER TABLE activity_log ADD COLUMN transfer_id TEXT;
+
+CREATE INDEX activity_log_transfer_idx ON activity_log (transfer_id);
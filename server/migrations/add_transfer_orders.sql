@@ -0,0 +1,37 @@
+-- Reposição em loja: pedidos de transferência para lojas, separados e expedidos de uma vez
+CREATE TYPE transfer_order_status AS ENUM ('picking', 'dispatched', 'cancelled');
+
+CREATE TABLE transfer_orders (
+  id SERIAL PRIMARY KEY,
+  store TEXT NOT NULL,
+  notes TEXT,
+  status transfer_order_status NOT NULL DEFAULT 'picking',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  dispatched_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  dispatched_at TIMESTAMP
+);
+
+-- Quantidades em unidades para picos e em paletes para paletizados;
+-- endereço, lote e validade da origem ficam registrados para a nota de expedição
+CREATE TABLE transfer_order_lines (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER NOT NULL REFERENCES transfer_orders(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  item_type TEXT NOT NULL,
+  requested_quantity INTEGER NOT NULL,
+  picked_quantity INTEGER,
+  pico_id INTEGER REFERENCES picos(id) ON DELETE SET NULL,
+  paletizado_stock_id INTEGER REFERENCES paletizado_stock(id) ON DELETE SET NULL,
+  location_id INTEGER REFERENCES locations(id),
+  lot TEXT,
+  expiry_date DATE
+);
+
+CREATE INDEX transfer_order_lines_order_idx ON transfer_order_lines (order_id);
+
+-- Saídas do histórico vinculadas ao pedido
+ALTER TABLE activity_log
+  ADD COLUMN transfer_order_id INTEGER REFERENCES transfer_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX activity_log_transfer_order_idx ON activity_log (transfer_order_id);
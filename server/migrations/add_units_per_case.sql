@@ -0,0 +1,2 @@
+-- Nível opcional de caixa na hierarquia de embalagem (unidade → caixa → base → palete)
+ALTER TABLE products ADD COLUMN units_per_case INTEGER;
@@ -0,0 +1,6 @@
+-- Registra quem criou e quem alterou por último cada pico e estoque paletizado
+ALTER TABLE picos ADD COLUMN created_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE picos ADD COLUMN updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE paletizado_stock ADD COLUMN created_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE paletizado_stock ADD COLUMN updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
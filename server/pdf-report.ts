@@ -0,0 +1,186 @@
+import PDFDocument from "pdfkit";
+
+export const reportGroupings = ["none", "category", "tower"] as const;
+export type ReportGrouping = typeof reportGroupings[number];
+
+// Blank ruled rows appended for handwritten additions during a physical count
+export const DEFAULT_BLANK_ROWS = 10;
+export const MAX_BLANK_ROWS = 60;
+
+// `width` is relative: columns are scaled to fill the printable width of the page
+export type ReportColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+  width: number;
+  align?: "left" | "center" | "right";
+};
+
+export type ReportGroup<T> = {
+  label: string;
+  rows: T[];
+};
+
+export type ReportOptions<T> = {
+  title: string;
+  // Lines printed under the title, e.g. "Categoria: Alta Rotação"
+  details: string[];
+  columns: ReportColumn<T>[];
+  groups: ReportGroup<T>[];
+  blankRows: number;
+};
+
+const MARGIN = 36;
+const ROW_HEIGHT = 20;
+const HEADER_FILL = "#f0f0f0";
+const GROUP_FILL = "#e2e8f0";
+const FOOTER_HEIGHT = 90;
+
+// Splits rows into labelled groups, keeping the order in which each key first appears
+export function groupReportRows<T>(rows: T[], label: (row: T) => string): ReportGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = label(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  return Array.from(groups, ([key, groupRows]) => ({ label: key, rows: groupRows }));
+}
+
+// Landscape A4 table report with repeated column headers, group sections, blank count
+// lines, a signature/date footer and "Página X de Y" on every page
+export function writePdfReport<T>(options: ReportOptions<T>): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+  doc.on("data", chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const pageWidth = doc.page.width - MARGIN * 2;
+  const totalWidth = options.columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = options.columns.map(column => (column.width / totalWidth) * pageWidth);
+  const bottom = () => doc.page.height - MARGIN - 16;
+  const generatedAt = new Date().toLocaleString("pt-BR", { timeZone: "America/Sao_Paulo" });
+
+  const drawPageHeader = () => {
+    doc.font("Helvetica-Bold").fontSize(14).fillColor("black")
+      .text(`PalletFlow - ${options.title}`, MARGIN, MARGIN, { width: pageWidth });
+    doc.font("Helvetica").fontSize(9).fillColor("#444444")
+      .text([`Gerado em: ${generatedAt}`, ...options.details].join("   •   "), { width: pageWidth });
+    doc.fillColor("black");
+    doc.y += 8;
+  };
+
+  const columnsAlign = options.columns.map(column => column.align ?? "left");
+  const headerCells = options.columns.map(column => column.header);
+
+  const drawRow = (cells: string[], style: { bold?: boolean; fill?: string } = {}) => {
+    const y = doc.y;
+    let x = MARGIN;
+    if (style.fill) {
+      doc.rect(MARGIN, y, pageWidth, ROW_HEIGHT).fill(style.fill);
+      doc.fillColor("black");
+    }
+    doc.font(style.bold ? "Helvetica-Bold" : "Helvetica").fontSize(8.5);
+    cells.forEach((cell, index) => {
+      doc.rect(x, y, widths[index], ROW_HEIGHT).lineWidth(0.5).stroke("#000000");
+      doc.text(cell, x + 4, y + 6, {
+        width: widths[index] - 8,
+        height: ROW_HEIGHT - 8,
+        align: columnsAlign[index],
+        ellipsis: true,
+        lineBreak: false,
+      });
+      x += widths[index];
+    });
+    doc.x = MARGIN;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  const drawGroupLabel = (label: string) => {
+    const y = doc.y;
+    doc.rect(MARGIN, y, pageWidth, ROW_HEIGHT).fill(GROUP_FILL);
+    doc.fillColor("black").font("Helvetica-Bold").fontSize(9.5)
+      .text(label, MARGIN + 4, y + 5, { width: pageWidth - 8, lineBreak: false });
+    doc.x = MARGIN;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  // Starts a new page when the next `rows` rows don't fit, repeating the group and column headers
+  const ensureSpace = (rows: number, groupLabel?: string) => {
+    if (doc.y + rows * ROW_HEIGHT <= bottom()) return false;
+    doc.addPage();
+    drawPageHeader();
+    if (groupLabel) drawGroupLabel(`${groupLabel} (continuação)`);
+    drawRow(headerCells, { bold: true, fill: HEADER_FILL });
+    return true;
+  };
+
+  drawPageHeader();
+  drawRow(headerCells, { bold: true, fill: HEADER_FILL });
+
+  const hasRows = options.groups.some(group => group.rows.length > 0);
+  if (!hasRows) {
+    doc.font("Helvetica-Oblique").fontSize(9).text("Nenhum item encontrado com os filtros selecionados.", MARGIN, doc.y + 6);
+    doc.y += 6;
+  }
+
+  const showGroupLabels = options.groups.length > 1 || (options.groups[0] && options.groups[0].label !== "");
+  for (const group of options.groups) {
+    if (group.rows.length === 0) continue;
+    if (showGroupLabels) {
+      // Keep the group label together with at least its first row
+      ensureSpace(2);
+      drawGroupLabel(`${group.label} (${group.rows.length})`);
+    }
+    for (const row of group.rows) {
+      ensureSpace(1, showGroupLabels ? group.label : undefined);
+      drawRow(options.columns.map(column => {
+        const value = column.value(row);
+        return value === null || value === undefined || value === "" ? "-" : String(value);
+      }));
+    }
+  }
+
+  if (options.blankRows > 0) {
+    ensureSpace(2);
+    drawGroupLabel("Itens adicionais (preenchimento manual)");
+    for (let i = 0; i < options.blankRows; i++) {
+      ensureSpace(1, "Itens adicionais (preenchimento manual)");
+      drawRow(options.columns.map(() => ""));
+    }
+  }
+
+  // Signature and date footer, on a new page only when it doesn't fit under the table
+  if (doc.y + FOOTER_HEIGHT > bottom()) {
+    doc.addPage();
+    drawPageHeader();
+  }
+  const footerY = doc.y + 40;
+  const fieldWidth = (pageWidth - 40) / 3;
+  ["Conferido por", "Assinatura", "Data"].forEach((label, index) => {
+    const x = MARGIN + index * (fieldWidth + 20);
+    doc.moveTo(x, footerY).lineTo(x + fieldWidth, footerY).lineWidth(0.75).stroke("#000000");
+    doc.font("Helvetica").fontSize(9).text(label, x, footerY + 4, {
+      width: fieldWidth,
+      align: "center",
+      lineBreak: false,
+    });
+  });
+
+  // Page numbers are written once the page count is known
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    doc.page.margins.bottom = 0;
+    doc.font("Helvetica").fontSize(8).fillColor("#444444")
+      .text(`Página ${i - range.start + 1} de ${range.count}`, MARGIN, doc.page.height - MARGIN, {
+        width: pageWidth,
+        align: "right",
+        lineBreak: false,
+      });
+  }
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,105 @@
+import {
+  sortByFefo,
+  type InsertPickListItem,
+  type InsertPickListLine,
+  type Location,
+  type PaletizadoStockWithProduct,
+  type PicoWithProduct,
+  type Product,
+} from "@shared/schema";
+import { unitsPerPallet } from "@shared/uom";
+
+export type PickRequest = {
+  product: Product;
+  units: number;
+};
+
+type PlannedLine = Omit<InsertPickListLine, "pickListId" | "sequence"> & {
+  location: Location | null;
+};
+
+export type PickListPlan = {
+  items: Omit<InsertPickListItem, "pickListId">[];
+  lines: Omit<InsertPickListLine, "pickListId">[];
+};
+
+const compareAddressPart = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// S-shaped route: aisles in order, towers ascending in one aisle and descending in the next,
+// so the picker leaves each aisle at the end where the next one starts. Unaddressed stock goes last.
+function sortByRoute(lines: PlannedLine[]): PlannedLine[] {
+  const aisles = Array.from(new Set(lines.flatMap(line => (line.location ? [line.location.aisle] : []))))
+    .sort(compareAddressPart);
+
+  return [...lines].sort((a, b) => {
+    if (!a.location || !b.location) {
+      return a.location ? -1 : b.location ? 1 : 0;
+    }
+    const aisle = compareAddressPart(a.location.aisle, b.location.aisle);
+    if (aisle !== 0) return aisle;
+
+    const descending = aisles.indexOf(a.location.aisle) % 2 === 1;
+    const tower = compareAddressPart(a.location.tower, b.location.tower);
+    if (tower !== 0) return descending ? -tower : tower;
+
+    return compareAddressPart(a.location.level, b.location.level) ||
+      compareAddressPart(a.location.position, b.location.position);
+  });
+}
+
+// Allocates each requested quantity from picos first and then from whole pallets, earliest expiry first.
+// Whatever cannot be covered is reported as a shortage on the item.
+export function planPickList(
+  requests: PickRequest[],
+  picos: PicoWithProduct[],
+  paletizadoStock: PaletizadoStockWithProduct[],
+): PickListPlan {
+  const items: PickListPlan["items"] = [];
+  const planned: PlannedLine[] = [];
+
+  for (const { product, units } of requests) {
+    let remaining = units;
+
+    const productPicos = sortByFefo(picos.filter(pico => pico.productId === product.id && pico.totalUnits > 0));
+    for (const pico of productPicos) {
+      if (remaining === 0) break;
+      const quantity = Math.min(remaining, pico.totalUnits);
+      planned.push({
+        productId: product.id,
+        itemType: "pico",
+        picoId: pico.id,
+        locationId: pico.locationId,
+        location: pico.location,
+        lot: pico.lot,
+        expiryDate: pico.expiryDate,
+        quantity,
+      });
+      remaining -= quantity;
+    }
+
+    const palletUnits = unitsPerPallet(product);
+    const productStock = sortByFefo(
+      paletizadoStock.filter(stock => stock.productId === product.id && stock.quantity > 0),
+    );
+    for (const stock of productStock) {
+      if (remaining === 0 || palletUnits <= 0) break;
+      const pallets = Math.min(Math.ceil(remaining / palletUnits), stock.quantity);
+      planned.push({
+        productId: product.id,
+        itemType: "paletizado",
+        paletizadoStockId: stock.id,
+        locationId: stock.locationId,
+        location: stock.location,
+        lot: stock.lot,
+        expiryDate: stock.expiryDate,
+        quantity: pallets,
+      });
+      remaining = Math.max(remaining - pallets * palletUnits, 0);
+    }
+
+    items.push({ productId: product.id, requestedUnits: units, shortageUnits: remaining });
+  }
+
+  const lines = sortByRoute(planned).map(({ location, ...line }, index) => ({ ...line, sequence: index + 1 }));
+  return { items, lines };
+}
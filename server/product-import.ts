@@ -0,0 +1,132 @@
+import {
+  insertProductSchema,
+  type InsertProduct,
+  type Product,
+  type ProductBarcode,
+  type ProductImportRow,
+} from "@shared/schema";
+import { checkPackaging } from "@shared/uom";
+import { normalizeHeader, type SpreadsheetRecord } from "./spreadsheet";
+
+// Accepted headers for each field, already normalized (English field names or Portuguese labels)
+const columnAliases: Record<"code" | "description" | "quantityBases" | "unitsPerBase" | "unitsPerCase" | "category", string[]> = {
+  code: ["code", "codigo"],
+  description: ["description", "descricao"],
+  quantityBases: ["quantitybases", "qtdbases", "bases"],
+  unitsPerBase: ["unitsperbase", "unidadesbase", "unidadesporbase"],
+  unitsPerCase: ["unitspercase", "unidadescaixa", "unidadesporcaixa"],
+  category: ["category", "categoria"],
+};
+
+const fieldLabels: Record<string, string> = {
+  code: "Código",
+  description: "Descrição",
+  quantityBases: "Qtd. Bases",
+  unitsPerBase: "Unidades/Base",
+  unitsPerCase: "Unidades/Caixa",
+  category: "Categoria",
+};
+
+const importSchema = insertProductSchema.pick({
+  code: true,
+  description: true,
+  quantityBases: true,
+  unitsPerBase: true,
+  unitsPerCase: true,
+  category: true,
+});
+
+// "Alta Rotação", "alta" and "alta_rotacao" all mean the same category
+function parseCategory(value: string): string {
+  const normalized = normalizeHeader(value);
+  if (normalized.startsWith("alta")) return "alta_rotacao";
+  if (normalized.startsWith("baixa")) return "baixa_rotacao";
+  return value;
+}
+
+function parseInteger(value: string): number | string {
+  return /^-?\d+$/.test(value) ? parseInt(value) : value;
+}
+
+function pick(values: Record<string, string>, field: keyof typeof columnAliases): string {
+  const alias = columnAliases[field].find(key => key in values);
+  return alias ? values[alias] : "";
+}
+
+export type PlannedProductImport = ProductImportRow & {
+  data?: InsertProduct;
+  productId?: number;
+};
+
+// Codes referenced by the file, so the caller can look up collisions with alternate barcodes
+export function productImportCodes(records: SpreadsheetRecord[]): string[] {
+  return records.map(({ values }) => pick(values, "code")).filter(Boolean);
+}
+
+// Validates every row against insertProductSchema and decides whether it creates, updates or is skipped
+export function planProductImport(
+  records: SpreadsheetRecord[],
+  existing: Product[],
+  barcodes: ProductBarcode[],
+): PlannedProductImport[] {
+  const existingByCode = new Map(existing.map(product => [product.code, product]));
+  const barcodeCodes = new Set(barcodes.map(barcode => barcode.code));
+  const seenCodes = new Set<string>();
+
+  return records.map(({ line, values }) => {
+    const code = pick(values, "code");
+    const description = pick(values, "description");
+    const row: PlannedProductImport = { line, code, description, action: "skip", errors: [] };
+
+    const parsed = importSchema.safeParse({
+      code,
+      description,
+      quantityBases: parseInteger(pick(values, "quantityBases")),
+      unitsPerBase: parseInteger(pick(values, "unitsPerBase")),
+      // Optional column: a blank cell keeps the current case size
+      unitsPerCase: pick(values, "unitsPerCase") ? parseInteger(pick(values, "unitsPerCase")) : undefined,
+      category: parseCategory(pick(values, "category")),
+    });
+    if (!parsed.success) {
+      row.errors = parsed.error.errors.map(issue => {
+        const message = issue.code === "invalid_type" || issue.code === "invalid_enum_value"
+          ? "valor inválido"
+          : issue.message;
+        return `${fieldLabels[String(issue.path[0])] ?? issue.path[0]}: ${message}`;
+      });
+      return row;
+    }
+
+    const data = parsed.data;
+    if (!data.code || !data.description) {
+      row.errors.push("Código e descrição são obrigatórios");
+    }
+    if (data.quantityBases <= 0 || data.unitsPerBase <= 0) {
+      row.errors.push("Qtd. Bases e Unidades/Base devem ser maiores que zero");
+    }
+    const packagingError = checkPackaging(data);
+    if (packagingError) {
+      row.errors.push(packagingError);
+    }
+    if (seenCodes.has(data.code)) {
+      row.errors.push("Código repetido no arquivo");
+    }
+    seenCodes.add(data.code);
+    if (barcodeCodes.has(data.code)) {
+      row.errors.push("Código já cadastrado como código de barras alternativo");
+    }
+
+    if (row.errors.length > 0) return row;
+
+    const current = existingByCode.get(data.code);
+    if (!current) {
+      return { ...row, action: "create", data };
+    }
+    const unchanged = current.description === data.description &&
+      current.quantityBases === data.quantityBases &&
+      current.unitsPerBase === data.unitsPerBase &&
+      current.category === data.category &&
+      (data.unitsPerCase === undefined || current.unitsPerCase === data.unitsPerCase);
+    return unchanged ? row : { ...row, action: "update", data, productId: current.id };
+  });
+}
@@ -0,0 +1,45 @@
+import type { ProductStockLevel, ReplenishmentAlert } from "@shared/schema";
+
+// High-turnover products run out faster, so the same shortfall is more urgent
+const ALTA_ROTACAO_WEIGHT = 1.5;
+
+// Fraction of the minimum that is missing: 0 at the minimum, 1 when the stock is empty
+function shortfallRatio(current: number, minimum: number | null): number {
+  if (!minimum || current >= minimum) return 0;
+  return (minimum - current) / minimum;
+}
+
+// Quantity needed to go back up to the maximum, or to the minimum when there is no maximum
+function suggestedQuantity(current: number, minimum: number | null, maximum: number | null): number {
+  if (!minimum || current >= minimum) return 0;
+  return Math.max((maximum ?? minimum) - current, 0);
+}
+
+// Flags products below any minimum, most urgent first
+export function evaluateReplenishment(levels: ProductStockLevel[]): ReplenishmentAlert[] {
+  return levels
+    .map(({ product, picoUnits, paletizadoPallets }) => {
+      const ratio = Math.max(
+        shortfallRatio(picoUnits, product.minPicoUnits),
+        shortfallRatio(paletizadoPallets, product.minPaletizadoPallets),
+      );
+      const weight = product.category === "alta_rotacao" ? ALTA_ROTACAO_WEIGHT : 1;
+
+      return {
+        product,
+        picoUnits,
+        paletizadoPallets,
+        picoShortfall: Math.max((product.minPicoUnits ?? 0) - picoUnits, 0),
+        paletizadoShortfall: Math.max((product.minPaletizadoPallets ?? 0) - paletizadoPallets, 0),
+        suggestedPicoUnits: suggestedQuantity(picoUnits, product.minPicoUnits, product.maxPicoUnits),
+        suggestedPallets: suggestedQuantity(
+          paletizadoPallets,
+          product.minPaletizadoPallets,
+          product.maxPaletizadoPallets,
+        ),
+        urgency: Math.round(ratio * weight * 100) / 100,
+      };
+    })
+    .filter(alert => alert.urgency > 0)
+    .sort((a, b) => b.urgency - a.urgency || a.product.code.localeCompare(b.product.code));
+}
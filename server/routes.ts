@@ -1,6 +1,38 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
+import { evaluateReplenishment } from "./replenishment";
+import { planPickList, type PickRequest } from "./pick-list";
+import {
+  readSpreadsheet,
+  writeSpreadsheet,
+  spreadsheetFormats,
+  spreadsheetContentTypes,
+  type SpreadsheetColumn,
+  type SpreadsheetFormat,
+} from "./spreadsheet";
+import { planProductImport, productImportCodes } from "./product-import";
+import { liveEventsMiddleware, subscribeLiveEvents } from "./events";
+import {
+  writePdfReport,
+  groupReportRows,
+  reportGroupings,
+  DEFAULT_BLANK_ROWS,
+  MAX_BLANK_ROWS,
+  type ReportColumn,
+  type ReportGrouping,
+} from "./pdf-report";
+import {
+  productLabel,
+  picoLabel,
+  paletizadoLabel,
+  locationLabel,
+  barcodeError,
+  writeLabelsPdf,
+  writeLabelsZpl,
+  type LabelContent,
+} from "./labels";
 import bcrypt from "bcrypt";
 import session from "express-session";
 import {
@@ -10,8 +42,54 @@ import {
   insertProductSchema,
   insertPicoSchema,
   insertPaletizadoStockSchema,
+  insertLocationSchema,
+  locationTypeLabels,
+  replenishPicoSchema,
+  consumePicoSchema,
+  checkStockThresholds,
+  matchesProductFilters,
+  categoryLabels,
+  movementReasonLabels,
+  formatExpiryDate,
+  sortByFefo,
+  createCountSessionSchema,
+  countItemSchema,
+  createInboundReceiptSchema,
+  receiveInboundLineSchema,
+  createTransferOrderSchema,
+  pickTransferOrderLineSchema,
+  createPickListSchema,
+  pickLineSchema,
+  labelRequestSchema,
+  productBarcodesSchema,
+  activityTypes,
+  activityItemTypes,
+  movementSeriesBuckets,
   type User,
+  type Pico,
+  type LocationType,
+  type ConsumePicoResult,
+  type ReplenishPicoResult,
+  type InsertCountSessionItem,
+  type CountSession,
+  type CountSessionWithItems,
+  type InsertInboundReceiptLine,
+  type InsertTransferOrderLine,
+  type ProductImportResult,
+  type ProductFilters,
+  type Product,
+  type PicoWithProduct,
+  type PaletizadoStockWithProduct,
+  type StockConflict,
+  type PaletizadoStockSummary,
+  type Location,
+  type ActivityLogWithUser,
+  type MovementReason,
+  type ActivityLogFilters,
+  type ProductStockCard,
+  type MovementSeries,
 } from "@shared/schema";
+import { checkPackaging, splitIntoBases, toUnits, totalPicoUnits, unitsPerPallet } from "@shared/uom";
 
 declare module "express-session" {
   interface SessionData {
@@ -20,6 +98,13 @@ declare module "express-session" {
   }
 }
 
+// Histórico: tamanho padrão e máximo de uma página de /api/activity
+const ACTIVITY_PAGE_SIZE = 50;
+const MAX_ACTIVITY_PAGE_SIZE = 200;
+
+// Dashboard: maior período aceito em /api/dashboard/movements (dois anos)
+const MAX_MOVEMENT_SERIES_DAYS = 730;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session middleware
   app.use(session({
@@ -51,6 +136,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   await initializeDefaultUser();
 
+  // Avisa os clientes conectados em /api/events sobre alterações de estoque, produtos e movimentações
+  app.use(liveEventsMiddleware);
+
   // Authentication middleware
   const requireAuth = (req: any, res: any, next: any) => {
     if (!req.session.userId) {
@@ -66,6 +154,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // Valida que o endereço existe, está ativo e é do tipo esperado
+  const resolveLocation = async (locationId: unknown, type: LocationType) => {
+    const id = Number(locationId);
+    const location = Number.isInteger(id) ? await storage.getLocation(id) : undefined;
+    if (!location || !location.isActive) {
+      return { error: "Endereço não encontrado ou inativo" } as const;
+    }
+    if (location.type !== type) {
+      return { error: `Endereço ${location.code} não é do tipo ${locationTypeLabels[type]}` } as const;
+    }
+    return { location } as const;
+  };
+
+  // Lote vazio é tratado como "sem lote"
+  const normalizeLot = (lot: unknown): string | null => {
+    if (typeof lot !== "string") return null;
+    const trimmed = lot.trim();
+    return trimmed ? trimmed.slice(0, 50) : null;
+  };
+
+  // Validade opcional no formato YYYY-MM-DD; vazio é tratado como "sem validade"
+  const parseExpiryDate = (value: unknown) => {
+    if (value === undefined || value === null || value === "") {
+      return { expiryDate: null } as const;
+    }
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+      return { error: "Validade inválida" } as const;
+    }
+    return { expiryDate: value } as const;
+  };
+
+  // Versão que o cliente carregou antes de editar; obrigatória para não sobrescrever alterações alheias
+  const parseVersion = (value: unknown) => {
+    if (value === undefined || value === null) {
+      return { error: "Versão do registro é obrigatória" } as const;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      return { error: "Versão inválida" } as const;
+    }
+    return { version: value } as const;
+  };
+
+  // Retira unidades do pico consumindo primeiro as soltas e só então abrindo bases
+  const takeUnitsFromPico = (pico: Pico, quantity: number, unitsPerBase: number) => {
+    let bases = pico.bases;
+    let looseUnits = pico.looseUnits;
+    if (quantity <= looseUnits) {
+      looseUnits -= quantity;
+    } else {
+      const missing = quantity - looseUnits;
+      const openedBases = Math.ceil(missing / unitsPerBase);
+      bases -= openedBases;
+      looseUnits = (openedBases * unitsPerBase) - missing;
+    }
+    return { bases, looseUnits, totalUnits: totalPicoUnits(bases, looseUnits, { unitsPerBase }) };
+  };
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -125,6 +270,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ ...user, password: undefined });
   });
 
+  // Atualizações em tempo real (Server-Sent Events)
+  app.get("/api/events", requireAuth, (req, res) => {
+    subscribeLiveEvents(req, res);
+  });
+
   // User management routes
   app.get("/api/users", requireAuth, requireAdmin, async (req, res) => {
     try {
@@ -200,9 +350,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Leitor de código de barras: resolução exata do valor lido
+  app.get("/api/products/lookup/:barcode", requireAuth, async (req, res) => {
+    try {
+      const lookup = await storage.findProductByBarcode(req.params.barcode);
+      if (!lookup) {
+        return res.status(404).json({ message: `Nenhum produto com o código ${req.params.barcode}` });
+      }
+      res.json(lookup);
+    } catch (error) {
+      console.error("Erro ao buscar produto pelo código de barras:", error);
+      res.status(500).json({ message: "Erro ao buscar produto" });
+    }
+  });
+
+  // Códigos alternativos (EAN-13, DUN-14...) usados pela busca e pelo leitor
+  app.get("/api/product-barcodes", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getAllProductBarcodes());
+    } catch (error) {
+      console.error("Erro ao listar códigos de barras:", error);
+      res.status(500).json({ message: "Erro ao listar códigos de barras" });
+    }
+  });
+
+  app.get("/api/products/:id/barcodes", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getProductBarcodes(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Erro ao listar códigos de barras do produto:", error);
+      res.status(500).json({ message: "Erro ao listar códigos de barras" });
+    }
+  });
+
+  app.put("/api/products/:id/barcodes", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = productBarcodesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { barcodes } = parsed.data;
+
+      const product = await storage.getProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+
+      const codes = barcodes.map(barcode => barcode.code);
+      const repeated = codes.find((code, index) => codes.indexOf(code) !== index);
+      if (repeated) {
+        return res.status(400).json({ message: `Código ${repeated} informado mais de uma vez` });
+      }
+      for (const code of codes) {
+        const owner = await storage.getProductByCode(code);
+        if (owner) {
+          return res.status(400).json({ message: `Código ${code} já é o código interno do produto ${owner.code}` });
+        }
+      }
+      const taken = (await storage.getProductBarcodesByCodes(codes)).find(barcode => barcode.productId !== id);
+      if (taken) {
+        const owner = await storage.getProduct(taken.productId);
+        return res.status(400).json({ message: `Código ${taken.code} já pertence ao produto ${owner?.code ?? taken.productId}` });
+      }
+
+      const saved = await storage.transaction(tx => tx.replaceProductBarcodes(id, barcodes));
+      res.json(saved);
+    } catch (error) {
+      console.error("Erro ao salvar códigos de barras:", error);
+      res.status(500).json({ message: "Erro ao salvar códigos de barras" });
+    }
+  });
+
+  // Ficha de estoque: cadastro, picos e paletizados atuais e saldo após cada movimentação
+  app.get("/api/products/code/:code/stock-card", requireAuth, async (req, res) => {
+    try {
+      const product = await storage.getProductByCode(req.params.code);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+
+      const [barcodes, picos, paletizadoStock, balanceHistory] = await Promise.all([
+        storage.getProductBarcodes(product.id),
+        storage.getPicosByProductId(product.id),
+        storage.getPaletizadoStockByProductId(product.id),
+        storage.getProductBalanceHistory(product.id),
+      ]);
+      const picoUnits = picos.reduce((sum, pico) => sum + pico.totalUnits, 0);
+      const paletizadoPallets = paletizadoStock.reduce((sum, stock) => sum + stock.quantity, 0);
+
+      const card: ProductStockCard = {
+        product,
+        barcodes,
+        picos: sortByFefo(picos),
+        paletizadoStock: sortByFefo(paletizadoStock),
+        picoUnits,
+        paletizadoPallets,
+        totalUnits: picoUnits + paletizadoPallets * unitsPerPallet(product),
+        balanceHistory,
+      };
+      res.json(card);
+    } catch (error) {
+      console.error("Erro ao montar ficha de estoque:", error);
+      res.status(500).json({ message: "Erro ao buscar ficha de estoque" });
+    }
+  });
+
+  app.get("/api/products/:id/stock-at", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const product = await storage.getProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+
+      // Sem data, considera o momento atual; datas sem hora cobrem o dia inteiro
+      const dateParam = req.query.date as string | undefined;
+      const at = dateParam ? new Date(dateParam) : new Date();
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ message: "Data inválida" });
+      }
+      if (dateParam && /^\d{4}-\d{2}-\d{2}$/.test(dateParam)) {
+        at.setUTCHours(23, 59, 59, 999);
+      }
+
+      const stockAt = await storage.getProductStockAt(product.id, at);
+      res.json(stockAt);
+    } catch (error) {
+      console.error("Erro ao calcular estoque na data:", error);
+      res.status(500).json({ message: "Erro ao calcular estoque na data" });
+    }
+  });
+
   app.post("/api/products", requireAuth, requireAdmin, async (req, res) => {
     try {
       const productData = insertProductSchema.parse(req.body);
+      const thresholdError = checkStockThresholds(productData) ?? checkPackaging(productData);
+      if (thresholdError) {
+        return res.status(400).json({ message: thresholdError });
+      }
+      const [alias] = await storage.getProductBarcodesByCodes([productData.code]);
+      if (alias) {
+        return res.status(400).json({ message: "Código já cadastrado como código de barras alternativo" });
+      }
       const product = await storage.createProduct(productData);
       res.json(product);
     } catch (error) {
@@ -210,10 +500,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Importação em massa: corpo é o arquivo CSV/XLSX; com dryRun=true apenas valida e mostra a prévia
+  app.post(
+    "/api/products/import",
+    requireAuth,
+    requireAdmin,
+    express.raw({ type: () => true, limit: "5mb" }),
+    async (req, res) => {
+      try {
+        const format = req.query.format as SpreadsheetFormat;
+        if (!spreadsheetFormats.includes(format)) {
+          return res.status(400).json({ message: "Formato inválido (use CSV ou XLSX)" });
+        }
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Arquivo vazio" });
+        }
+        const dryRun = req.query.dryRun === "true";
+
+        let records;
+        try {
+          records = await readSpreadsheet(req.body, format);
+        } catch (error) {
+          return res.status(400).json({ message: "Não foi possível ler o arquivo" });
+        }
+        if (records.length === 0) {
+          return res.status(400).json({ message: "O arquivo não contém produtos" });
+        }
+
+        const barcodes = await storage.getProductBarcodesByCodes(productImportCodes(records));
+        const plan = planProductImport(records, await storage.getAllProducts(), barcodes);
+
+        if (!dryRun) {
+          await storage.transaction(async (tx) => {
+            for (const row of plan) {
+              if (row.action === "create") {
+                await tx.createProduct(row.data!);
+              } else if (row.action === "update") {
+                await tx.updateProduct(row.productId!, row.data!);
+              }
+            }
+          });
+        }
+
+        const result: ProductImportResult = {
+          dryRun,
+          rows: plan.map(({ data, productId, ...row }) => row),
+          created: plan.filter(row => row.action === "create").length,
+          updated: plan.filter(row => row.action === "update").length,
+          skipped: plan.filter(row => row.action === "skip").length,
+        };
+        res.json(result);
+      } catch (error) {
+        console.error("Erro ao importar produtos:", error);
+        res.status(400).json({ message: "Erro ao importar produtos" });
+      }
+    },
+  );
+
   app.put("/api/products/:id", requireAuth, requireAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
+      const updates = insertProductSchema.partial().parse(req.body);
+
+      const existing = await storage.getProduct(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      const thresholdError = checkStockThresholds({ ...existing, ...updates }) ?? checkPackaging({ ...existing, ...updates });
+      if (thresholdError) {
+        return res.status(400).json({ message: thresholdError });
+      }
+      if (updates.code && updates.code !== existing.code) {
+        const [alias] = await storage.getProductBarcodesByCodes([updates.code]);
+        if (alias) {
+          return res.status(400).json({ message: "Código já cadastrado como código de barras alternativo" });
+        }
+      }
+
       const product = await storage.updateProduct(id, updates);
       res.json(product);
     } catch (error) {
@@ -231,6 +594,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Location management routes
+  app.get("/api/locations", requireAuth, async (req, res) => {
+    try {
+      const locations = await storage.getAllLocations();
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar endereços" });
+    }
+  });
+
+  app.post("/api/locations", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const location = await storage.createLocation(parsed.data);
+      res.json(location);
+    } catch (error) {
+      console.error("Erro ao criar endereço:", error);
+      res.status(400).json({ message: "Erro ao criar endereço (verifique se ele já existe)" });
+    }
+  });
+
+  app.put("/api/locations/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = insertLocationSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      if (parsed.data.type && (await storage.isLocationInUse(id))) {
+        const existing = await storage.getLocation(id);
+        if (existing && existing.type !== parsed.data.type) {
+          return res.status(400).json({ message: "Não é possível alterar o tipo de um endereço em uso" });
+        }
+      }
+
+      const location = await storage.updateLocation(id, parsed.data);
+      if (!location) {
+        return res.status(404).json({ message: "Endereço não encontrado" });
+      }
+      res.json(location);
+    } catch (error) {
+      console.error("Erro ao atualizar endereço:", error);
+      res.status(400).json({ message: "Erro ao atualizar endereço" });
+    }
+  });
+
+  app.delete("/api/locations/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (await storage.isLocationInUse(id)) {
+        return res.status(400).json({ message: "Endereço em uso por picos ou paletizados" });
+      }
+      await storage.deleteLocation(id);
+      res.json({ message: "Endereço eliminado com sucesso" });
+    } catch (error) {
+      res.status(400).json({ message: "Erro ao eliminar endereço" });
+    }
+  });
+
   // Pico management routes
   app.get("/api/picos", requireAuth, async (req, res) => {
     try {
@@ -241,41 +667,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Um produto tem no máximo um pico por endereço (a reposição soma ao existente)
+  const duplicatePicoMessage = (productCode: string, locationCode: string) =>
+    `Já existe um pico de ${productCode} no endereço ${locationCode}`;
+
   app.post("/api/picos", requireAuth, async (req, res) => {
     try {
-      const { productCode, bases, looseUnits, towerLocation } = req.body;
+      const { productCode, bases, looseUnits, locationId } = req.body;
       
       const product = await storage.getProductByCode(productCode);
       if (!product) {
         return res.status(404).json({ message: "Produto não encontrado" });
       }
 
+      const resolved = await resolveLocation(locationId, "picking");
+      if (resolved.error) {
+        return res.status(400).json({ message: resolved.error });
+      }
+
+      const expiry = parseExpiryDate(req.body.expiryDate);
+      if (expiry.error) {
+        return res.status(400).json({ message: expiry.error });
+      }
+
+      if (await storage.getPicoByProductAndLocation(product.id, resolved.location.id)) {
+        return res.status(400).json({ message: duplicatePicoMessage(product.code, resolved.location.code) });
+      }
+
       // Validar dados do pico
       const picoData = insertPicoSchema.parse({
         productId: product.id,
         bases,
         looseUnits,
-        totalUnits: (bases * product.unitsPerBase) + looseUnits,
-        towerLocation,
+        totalUnits: totalPicoUnits(bases, looseUnits, product),
+        locationId: resolved.location.id,
+        lot: normalizeLot(req.body.lot),
+        expiryDate: expiry.expiryDate,
+        createdBy: req.session.userId,
+        updatedBy: req.session.userId,
       });
 
-      // Criar o pico
-      const pico = await storage.createPico(picoData);
-
-      // Criar log de atividade
-      try {
-        await storage.createActivityLog({
-          type: "entry",
+      // Criar o pico e o log de atividade na mesma transação
+      const pico = await storage.transaction(async (tx) => {
+        const created = await tx.createPico(picoData);
+        await tx.createStockMovement({
           itemType: "pico",
-          productCode: product.code,
-          productDescription: product.description,
-          quantity: pico.totalUnits,
-          category: product.category,
+          product,
+          previousQuantity: 0,
+          newQuantity: created.totalUnits,
+          reason: "entrada",
+          userId: req.session.userId,
         });
-      } catch (logError) {
-        console.error("Erro ao criar log de atividade:", logError);
-        // Não falhar a operação se o log falhar
-      }
+        return created;
+      });
 
       res.json(pico);
     } catch (error) {
@@ -288,63 +732,277 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Repor pico: baixa paletes do estoque paletizado e cria/aumenta o pico no endereço
+  app.post("/api/picos/replenish", requireAuth, async (req, res) => {
+    try {
+      const parsed = replenishPicoSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { paletizadoStockId, pallets, locationId } = parsed.data;
+
+      const stock = await storage.getPaletizadoStock(paletizadoStockId);
+      if (!stock) {
+        return res.status(404).json({ message: "Estoque paletizado não encontrado" });
+      }
+      const { product } = stock;
+
+      const resolved = await resolveLocation(locationId, "picking");
+      if (resolved.error) {
+        return res.status(400).json({ message: resolved.error });
+      }
+
+      if (stock.quantity < pallets) {
+        return res.status(400).json({
+          message: `Estoque paletizado insuficiente (disponível: ${stock.quantity} paletes)`,
+        });
+      }
+
+      const addedBases = pallets * product.quantityBases;
+      const transferId = randomUUID();
+      const userId = req.session.userId;
+
+      const result = await storage.transaction<ReplenishPicoResult>(async (tx) => {
+        // Perna de saída: paletizado, descontado do saldo atual e nunca abaixo de zero
+        const updatedStock = await tx.withdrawPaletizadoPallets(stock.id, pallets, userId);
+        if (!updatedStock) {
+          throw new Error("O estoque paletizado foi alterado por outro usuário e não tem mais paletes suficientes");
+        }
+        await tx.createStockMovement({
+          itemType: "paletizado",
+          product,
+          previousQuantity: updatedStock.quantity + pallets,
+          newQuantity: updatedStock.quantity,
+          reason: "reposicao_pico",
+          userId,
+          transferId,
+        });
+
+        // Perna de entrada: pico existente no endereço ou um novo pico
+        const existingPico = await tx.getPicoByProductAndLocation(product.id, locationId);
+        const previousUnits = existingPico?.totalUnits ?? 0;
+        const bases = (existingPico?.bases ?? 0) + addedBases;
+        const looseUnits = existingPico?.looseUnits ?? 0;
+        const totalUnits = totalPicoUnits(bases, looseUnits, product);
+
+        // O pico fica com o lote de validade mais próxima (FEFO)
+        const takesSourceLot = !existingPico?.expiryDate ||
+          (!!stock.expiryDate && stock.expiryDate < existingPico.expiryDate);
+        const lotFields = takesSourceLot
+          ? { lot: stock.lot, expiryDate: stock.expiryDate }
+          : {};
+
+        const pico = existingPico
+          ? await tx.updatePico(existingPico.id, { bases, totalUnits, ...lotFields, updatedBy: userId }, existingPico.version)
+          : await tx.createPico(insertPicoSchema.parse({
+              productId: product.id,
+              bases,
+              looseUnits,
+              totalUnits,
+              locationId,
+              ...lotFields,
+              createdBy: userId,
+              updatedBy: userId,
+            }));
+        if (!pico) throw new Error("O pico foi alterado por outro usuário durante a reposição, tente novamente");
+        await tx.createStockMovement({
+          itemType: "pico",
+          product,
+          previousQuantity: previousUnits,
+          newQuantity: pico.totalUnits,
+          reason: "reposicao_pico",
+          userId,
+          transferId,
+        });
+
+        return { transferId, pico, paletizadoStock: updatedStock };
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Erro ao repor pico:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Erro ao repor pico",
+      });
+    }
+  });
+
   app.put("/api/picos/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { bases, looseUnits, towerLocation } = req.body;
+      const { bases, looseUnits, locationId } = req.body;
       
       const existingPico = await storage.getPico(id);
       if (!existingPico) {
         return res.status(404).json({ message: "Pico not found" });
       }
 
-      const totalUnits = (bases * existingPico.product.unitsPerBase) + looseUnits;
+      const expected = parseVersion(req.body.version);
+      if (expected.error) {
+        return res.status(400).json({ message: expected.error });
+      }
+
+      if (locationId !== undefined && locationId !== existingPico.locationId) {
+        const resolved = await resolveLocation(locationId, "picking");
+        if (resolved.error) {
+          return res.status(400).json({ message: resolved.error });
+        }
+        if (await storage.getPicoByProductAndLocation(existingPico.productId, resolved.location.id)) {
+          return res.status(400).json({
+            message: duplicatePicoMessage(existingPico.product.code, resolved.location.code),
+          });
+        }
+      }
+
+      const expiry = parseExpiryDate(req.body.expiryDate);
+      if (req.body.expiryDate !== undefined && expiry.error) {
+        return res.status(400).json({ message: expiry.error });
+      }
+
+      const totalUnits = totalPicoUnits(bases, looseUnits, existingPico.product);
       
       const updates = {
         bases,
         looseUnits,
         totalUnits,
-        ...(towerLocation && { towerLocation }),
+        ...(locationId && { locationId }),
+        ...(req.body.lot !== undefined && { lot: normalizeLot(req.body.lot) }),
+        ...(req.body.expiryDate !== undefined && { expiryDate: expiry.expiryDate }),
+        updatedBy: req.session.userId,
       };
 
-      const pico = await storage.updatePico(id, updates);
+      // Only writes while the pico is still at the version the client (and the ledger) saw
+      const pico = expected.version !== existingPico.version ? undefined : await storage.transaction(async (tx) => {
+        const updated = await tx.updatePico(id, updates, expected.version);
+        if (!updated) return undefined;
+        await tx.createStockMovement({
+          itemType: "pico",
+          product: existingPico.product,
+          previousQuantity: existingPico.totalUnits,
+          newQuantity: updated.totalUnits,
+          reason: "ajuste",
+          userId: req.session.userId,
+        });
+        return updated;
+      });
+
+      if (!pico) {
+        const current = await storage.getPico(id);
+        if (!current) {
+          return res.status(404).json({ message: "Pico not found" });
+        }
+        const conflict: StockConflict<PicoWithProduct> = {
+          message: "Este pico foi alterado por outro usuário. Revise os valores atuais antes de salvar.",
+          current,
+        };
+        return res.status(409).json(conflict);
+      }
+
       res.json(pico);
     } catch (error) {
       res.status(400).json({ message: "Failed to update pico" });
     }
   });
 
-  app.delete("/api/picos/:id", requireAuth, async (req, res) => {
+  // Baixa parcial: remove unidades ou bases do pico, eliminando-o ao chegar a zero
+  app.post("/api/picos/:id/consume", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "ID inválido" });
       }
 
-      // Buscar o pico antes de eliminar para ter as informações para o log
+      const parsed = consumePicoSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { quantity, unit } = parsed.data;
+
       const pico = await storage.getPico(id);
       if (!pico) {
         return res.status(404).json({ message: "Pico não encontrado" });
       }
 
-      // Eliminar o pico
-      await storage.deletePico(id);
+      const { unitsPerBase } = pico.product;
+      let bases = pico.bases;
+      let looseUnits = pico.looseUnits;
 
-      // Criar log de atividade
-      try {
-        await storage.createActivityLog({
-          type: "exit",
+      // Closed bases leave the pico whole; any other UoM is taken as units
+      if (unit === "base") {
+        if (quantity > bases) {
+          return res.status(400).json({ message: `Bases insuficientes no pico (disponível: ${bases})` });
+        }
+        bases -= quantity;
+      } else {
+        const units = toUnits(quantity, unit, pico.product);
+        if (units === null) {
+          return res.status(400).json({ message: `Produto ${pico.product.code} não tem unidades por caixa configuradas` });
+        }
+        if (units > pico.totalUnits) {
+          return res.status(400).json({ message: `Unidades insuficientes no pico (disponível: ${pico.totalUnits})` });
+        }
+        ({ bases, looseUnits } = takeUnitsFromPico(pico, units, unitsPerBase));
+      }
+
+      const totalUnits = totalPicoUnits(bases, looseUnits, pico.product);
+      const closed = totalUnits === 0;
+      const userId = req.session.userId;
+
+      const result = await storage.transaction<ConsumePicoResult | undefined>(async (tx) => {
+        // Versioned even when closing, so a baixa computed from a stale pico is never applied
+        const updated = await tx.updatePico(id, { bases, looseUnits, totalUnits, updatedBy: userId }, pico.version);
+        if (!updated) return undefined;
+        if (closed) {
+          await tx.deletePico(id);
+        }
+        await tx.createStockMovement({
           itemType: "pico",
-          productCode: pico.product.code,
-          productDescription: pico.product.description,
-          quantity: pico.totalUnits,
-          category: pico.product.category,
+          product: pico.product,
+          previousQuantity: pico.totalUnits,
+          newQuantity: totalUnits,
+          reason: "baixa_parcial",
+          userId,
         });
-      } catch (logError) {
-        console.error("Erro ao criar log de atividade:", logError);
-        // Não falhar a operação se o log falhar
+        return { consumedUnits: pico.totalUnits - totalUnits, closed, pico: closed ? null : updated };
+      });
+
+      if (!result) {
+        return res.status(409).json({ message: "O pico foi alterado por outro usuário. Confira o saldo e tente novamente." });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Erro ao dar baixa no pico:", error);
+      res.status(400).json({ message: "Erro ao dar baixa no pico" });
+    }
+  });
+
+  app.delete("/api/picos/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID inválido" });
       }
 
+      // Buscar o pico antes de eliminar para ter as informações para o log
+      const pico = await storage.getPico(id);
+      if (!pico) {
+        return res.status(404).json({ message: "Pico não encontrado" });
+      }
+
+      // Eliminar o pico e registrar a saída na mesma transação
+      await storage.transaction(async (tx) => {
+        await tx.deletePico(id);
+        await tx.createStockMovement({
+          itemType: "pico",
+          product: pico.product,
+          previousQuantity: pico.totalUnits,
+          newQuantity: 0,
+          reason: "eliminacao",
+          userId: req.session.userId,
+        });
+      });
+
       res.json({ message: "Pico eliminado com sucesso" });
     } catch (error) {
       console.error("Erro ao eliminar pico:", error);
@@ -369,7 +1027,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/paletizado-stock", requireAuth, async (req, res) => {
     try {
-      const { productCode, quantity } = req.body;
+      const { productCode, quantity, locationId } = req.body;
+      const lot = normalizeLot(req.body.lot);
 
       // Validação básica
       if (!productCode || typeof productCode !== "string") {
@@ -387,35 +1046,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Produto não encontrado" });
       }
 
-      // Verificar se já existe estoque para este produto
-      const existingStock = await storage.getPaletizadoStockByProductId(product.id);
-      if (existingStock) {
-        return res.status(400).json({ message: "Já existe estoque para este produto" });
+      // O endereço é opcional, mas quando informado deve ser de porta-palete
+      if (locationId) {
+        const resolved = await resolveLocation(locationId, "porta_palete");
+        if (resolved.error) {
+          return res.status(400).json({ message: resolved.error });
+        }
       }
 
-      // Criar o estoque
-      const stock = await storage.createPaletizadoStock({
-        productId: product.id,
-        quantity: parsedQuantity,
-      });
+      const expiry = parseExpiryDate(req.body.expiryDate);
+      if (expiry.error) {
+        return res.status(400).json({ message: expiry.error });
+      }
 
-      // Criar log de atividade
-      try {
-        await storage.createActivityLog({
-          type: "entry",
-          itemType: "paletizado",
-          productCode: product.code,
-          productDescription: product.description,
+      // Um registro por produto, endereço e lote
+      const existingStock = await storage.findPaletizadoStock(product.id, locationId || null, lot);
+      if (existingStock) {
+        return res.status(400).json({ message: "Já existe estoque para este produto neste endereço e lote" });
+      }
+
+      // Criar o estoque e o log de atividade na mesma transação
+      const stock = await storage.transaction(async (tx) => {
+        const created = await tx.createPaletizadoStock({
+          productId: product.id,
           quantity: parsedQuantity,
-          category: product.category,
+          locationId: locationId || null,
+          lot,
+          expiryDate: expiry.expiryDate,
+          createdBy: req.session.userId,
+          updatedBy: req.session.userId,
         });
-      } catch (logError) {
-        // Se falhar ao criar o log, ainda retornamos sucesso
-        return res.status(200).json({
-          ...stock,
-          message: "Estoque criado com sucesso, mas houve um erro ao registrar o log de atividade"
+        await tx.createStockMovement({
+          itemType: "paletizado",
+          product,
+          previousQuantity: 0,
+          newQuantity: created.quantity,
+          reason: "entrada",
+          userId: req.session.userId,
         });
-      }
+        return created;
+      });
 
       res.json(stock);
     } catch (error) {
@@ -430,7 +1100,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/paletizado-stock/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { quantity } = req.body;
+      const { quantity, locationId } = req.body;
+      const lot = req.body.lot !== undefined ? normalizeLot(req.body.lot) : undefined;
 
       if (typeof quantity !== "number" || quantity < 0) {
         return res.status(400).json({ message: "Quantidade inválida" });
@@ -441,21 +1112,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Estoque não encontrado" });
       }
 
-      const updatedStock = await storage.updatePaletizadoStock(id, { quantity });
+      const expected = parseVersion(req.body.version);
+      if (expected.error) {
+        return res.status(400).json({ message: expected.error });
+      }
 
-      // Criar log de atividade
-      try {
-        await storage.createActivityLog({
-          type: "update",
-          itemType: "paletizado",
-          productCode: stock.product.code,
-          productDescription: stock.product.description,
+      if (locationId && locationId !== stock.locationId) {
+        const resolved = await resolveLocation(locationId, "porta_palete");
+        if (resolved.error) {
+          return res.status(400).json({ message: resolved.error });
+        }
+      }
+
+      const expiry = parseExpiryDate(req.body.expiryDate);
+      if (req.body.expiryDate !== undefined && expiry.error) {
+        return res.status(400).json({ message: expiry.error });
+      }
+
+      const targetLocationId = locationId !== undefined ? locationId || null : stock.locationId;
+      const targetLot = lot !== undefined ? lot : stock.lot;
+      const duplicate = await storage.findPaletizadoStock(stock.productId, targetLocationId, targetLot);
+      if (duplicate && duplicate.id !== id) {
+        return res.status(400).json({ message: "Já existe estoque para este produto neste endereço e lote" });
+      }
+
+      const updatedStock = expected.version !== stock.version ? undefined : await storage.transaction(async (tx) => {
+        const updated = await tx.updatePaletizadoStock(id, {
           quantity,
-          category: stock.product.category,
+          locationId: targetLocationId,
+          lot: targetLot,
+          ...(req.body.expiryDate !== undefined && { expiryDate: expiry.expiryDate }),
+          updatedBy: req.session.userId,
+        }, expected.version);
+        if (!updated) return undefined;
+        await tx.createStockMovement({
+          itemType: "paletizado",
+          product: stock.product,
+          previousQuantity: stock.quantity,
+          newQuantity: updated.quantity,
+          reason: "ajuste",
+          userId: req.session.userId,
         });
-      } catch (logError) {
-        console.error("Erro ao criar log de atividade:", logError);
-        // Não falhar a operação se o log falhar
+        return updated;
+      });
+
+      if (!updatedStock) {
+        const current = await storage.getPaletizadoStock(id);
+        if (!current) {
+          return res.status(404).json({ message: "Estoque não encontrado" });
+        }
+        const conflict: StockConflict<PaletizadoStockWithProduct> = {
+          message: "Este estoque foi alterado por outro usuário. Revise os valores atuais antes de salvar.",
+          current,
+        };
+        return res.status(409).json(conflict);
       }
 
       res.json(updatedStock);
@@ -474,29 +1184,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Estoque não encontrado" });
       }
 
-      // Salvar informações para o log antes de deletar
-      const stockInfo = {
-        productCode: stock.product.code,
-        productDescription: stock.product.description,
-        category: stock.product.category,
-      };
-
-      await storage.deletePaletizadoStock(id);
-
-      // Criar log de atividade
-      try {
-        await storage.createActivityLog({
-          type: "exit",
+      await storage.transaction(async (tx) => {
+        await tx.deletePaletizadoStock(id);
+        await tx.createStockMovement({
           itemType: "paletizado",
-          productCode: stockInfo.productCode,
-          productDescription: stockInfo.productDescription,
-          quantity: 0,
-          category: stockInfo.category,
+          product: stock.product,
+          previousQuantity: stock.quantity,
+          newQuantity: 0,
+          reason: "eliminacao",
+          userId: req.session.userId,
         });
-      } catch (logError) {
-        console.error("Erro ao criar log de atividade:", logError);
-        // Não falhar a operação se o log falhar
-      }
+      });
 
       res.json({ message: "Estoque eliminado com sucesso" });
     } catch (error) {
@@ -505,13 +1203,1420 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Dashboard stats
-  app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
+  // Inventário (contagem cíclica) routes
+  app.get("/api/count-sessions", requireAuth, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const sessions = await storage.getAllCountSessions();
+      res.json(sessions);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+      console.error("Erro ao buscar inventários:", error);
+      res.status(500).json({ message: "Erro ao buscar inventários" });
+    }
+  });
+
+  // Contagem cega: o armazenista não vê o esperado enquanto a contagem está aberta
+  const hidesExpectedQuantity = (session: CountSession, role: string | undefined) =>
+    session.blind && session.status === "open" && role !== "administrador";
+
+  app.get("/api/count-sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getCountSession(parseInt(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Inventário não encontrado" });
+      }
+
+      const result: CountSessionWithItems = hidesExpectedQuantity(session, req.session.user?.role)
+        ? { ...session, items: session.items.map(item => ({ ...item, expectedQuantity: null })) }
+        : session;
+
+      res.json(result);
+    } catch (error) {
+      console.error("Erro ao buscar inventário:", error);
+      res.status(500).json({ message: "Erro ao buscar inventário" });
+    }
+  });
+
+  // Abre um inventário registrando o saldo esperado de cada pico/paletizado no escopo
+  app.post("/api/count-sessions", requireAuth, async (req, res) => {
+    try {
+      const parsed = createCountSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { description, blind, itemTypes, productIds, locationIds } = parsed.data;
+
+      const inScope = (productId: number, locationId: number | null) =>
+        (productIds.length === 0 || productIds.includes(productId)) &&
+        (locationIds.length === 0 || (locationId !== null && locationIds.includes(locationId)));
+
+      const items: Omit<InsertCountSessionItem, "sessionId">[] = [];
+      if (itemTypes.includes("pico")) {
+        const allPicos = await storage.getAllPicos();
+        for (const pico of allPicos.filter(p => inScope(p.productId, p.locationId))) {
+          items.push({
+            itemType: "pico",
+            picoId: pico.id,
+            productId: pico.productId,
+            locationId: pico.locationId,
+            lot: pico.lot,
+            expectedQuantity: pico.totalUnits,
+          });
+        }
+      }
+      if (itemTypes.includes("paletizado")) {
+        const allStock = await storage.getAllPaletizadoStock();
+        for (const stock of allStock.filter(s => inScope(s.productId, s.locationId))) {
+          items.push({
+            itemType: "paletizado",
+            paletizadoStockId: stock.id,
+            productId: stock.productId,
+            locationId: stock.locationId,
+            lot: stock.lot,
+            expectedQuantity: stock.quantity,
+          });
+        }
+      }
+
+      if (items.length === 0) {
+        return res.status(400).json({ message: "Nenhum estoque encontrado para os filtros informados" });
+      }
+
+      const session = await storage.transaction((tx) =>
+        tx.createCountSession({ description, blind, createdBy: req.session.userId }, items)
+      );
+
+      res.json(session);
+    } catch (error) {
+      console.error("Erro ao criar inventário:", error);
+      res.status(400).json({ message: "Erro ao criar inventário" });
+    }
+  });
+
+  app.put("/api/count-sessions/:id/items/:itemId", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const itemId = parseInt(req.params.itemId);
+
+      const parsed = countItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const session = await storage.getCountSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Inventário não encontrado" });
+      }
+      if (session.status !== "open") {
+        return res.status(400).json({ message: "A contagem deste inventário já foi encerrada" });
+      }
+
+      const item = await storage.getCountSessionItem(itemId);
+      if (!item || item.sessionId !== sessionId) {
+        return res.status(404).json({ message: "Item não encontrado neste inventário" });
+      }
+
+      const updated = await storage.updateCountSessionItem(itemId, {
+        countedQuantity: parsed.data.countedQuantity,
+        countedBy: req.session.userId,
+        countedAt: new Date(),
+      });
+
+      res.json(hidesExpectedQuantity(session, req.session.user?.role) ? { ...updated, expectedQuantity: null } : updated);
+    } catch (error) {
+      console.error("Erro ao registrar contagem:", error);
+      res.status(400).json({ message: "Erro ao registrar contagem" });
+    }
+  });
+
+  // Encerra a contagem e envia as divergências para aprovação
+  app.post("/api/count-sessions/:id/submit", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = await storage.getCountSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Inventário não encontrado" });
+      }
+      if (session.status !== "open") {
+        return res.status(400).json({ message: "Somente inventários em contagem podem ser enviados" });
+      }
+
+      const pending = session.items.filter(item => item.countedQuantity === null).length;
+      if (pending > 0) {
+        return res.status(400).json({ message: `Há ${pending} item(ns) sem contagem` });
+      }
+
+      const updated = await storage.updateCountSession(id, { status: "submitted", submittedAt: new Date() });
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao enviar inventário:", error);
+      res.status(400).json({ message: "Erro ao enviar inventário" });
+    }
+  });
+
+  // Devolve o inventário para contagem (divergências rejeitadas)
+  app.post("/api/count-sessions/:id/reopen", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = await storage.getCountSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Inventário não encontrado" });
+      }
+      if (session.status !== "submitted") {
+        return res.status(400).json({ message: "Somente inventários aguardando aprovação podem ser reabertos" });
+      }
+
+      const updated = await storage.updateCountSession(id, { status: "open", submittedAt: null });
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao reabrir inventário:", error);
+      res.status(400).json({ message: "Erro ao reabrir inventário" });
+    }
+  });
+
+  app.post("/api/count-sessions/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = await storage.getCountSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Inventário não encontrado" });
+      }
+      if (session.createdBy !== req.session.userId && req.session.user?.role !== "administrador") {
+        return res.status(403).json({ message: "Somente o criador ou um administrador pode cancelar" });
+      }
+      if (session.status === "approved" || session.status === "cancelled") {
+        return res.status(400).json({ message: "Inventário já encerrado" });
+      }
+
+      const updated = await storage.updateCountSession(id, { status: "cancelled", closedAt: new Date() });
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao cancelar inventário:", error);
+      res.status(400).json({ message: "Erro ao cancelar inventário" });
+    }
+  });
+
+  // Aprova as divergências: cada diferença vira um movimento "ajuste de inventário".
+  // A diferença é aplicada sobre o saldo atual, preservando movimentos feitos durante a contagem.
+  app.post("/api/count-sessions/:id/approve", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = await storage.getCountSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Inventário não encontrado" });
+      }
+      if (session.status !== "submitted") {
+        return res.status(400).json({ message: "Somente inventários aguardando aprovação podem ser aprovados" });
+      }
+
+      const divergent = session.items.filter(item => item.countedQuantity !== item.expectedQuantity);
+      const missing = divergent.find(item => !item.picoId && !item.paletizadoStockId);
+      if (missing) {
+        return res.status(400).json({
+          message: `O estoque de ${missing.product.code} em ${missing.location?.code ?? "sem endereço"} foi eliminado após a abertura do inventário`,
+        });
+      }
+
+      const userId = req.session.userId;
+      const approved = await storage.transaction(async (tx) => {
+        // Claims the session first, so a repeated approval can't post the variances twice
+        const claimed = await tx.updateCountSession(
+          id,
+          { status: "approved", approvedBy: userId, closedAt: new Date() },
+          "submitted",
+        );
+        if (!claimed) return undefined;
+
+        for (const item of divergent) {
+          const variance = item.countedQuantity! - item.expectedQuantity!;
+
+          if (item.itemType === "pico") {
+            const pico = await tx.getPico(item.picoId!);
+            if (!pico) throw new Error(`Pico de ${item.product.code} não encontrado`);
+
+            // A pico counted down to zero is closed, like a baixa that empties it; the versioned
+            // update comes first so units added in the meantime aren't deleted with it
+            const totalUnits = Math.max(pico.totalUnits + variance, 0);
+            const updated = await tx.updatePico(pico.id, {
+              ...splitIntoBases(totalUnits, pico.product),
+              totalUnits,
+              updatedBy: userId,
+            }, pico.version);
+            if (!updated) throw new Error(`O pico de ${item.product.code} foi alterado durante a aprovação, tente novamente`);
+            if (totalUnits === 0) {
+              await tx.deletePico(pico.id);
+            }
+            await tx.createStockMovement({
+              itemType: "pico",
+              product: pico.product,
+              previousQuantity: pico.totalUnits,
+              newQuantity: totalUnits,
+              reason: "ajuste_inventario",
+              userId,
+            });
+          } else {
+            const stock = await tx.getPaletizadoStock(item.paletizadoStockId!);
+            if (!stock) throw new Error(`Estoque paletizado de ${item.product.code} não encontrado`);
+
+            const updated = await tx.updatePaletizadoStock(stock.id, {
+              quantity: Math.max(stock.quantity + variance, 0),
+              updatedBy: userId,
+            }, stock.version);
+            if (!updated) throw new Error(`O estoque paletizado de ${item.product.code} foi alterado durante a aprovação, tente novamente`);
+            await tx.createStockMovement({
+              itemType: "paletizado",
+              product: stock.product,
+              previousQuantity: stock.quantity,
+              newQuantity: updated.quantity,
+              reason: "ajuste_inventario",
+              userId,
+            });
+          }
+        }
+
+        return claimed;
+      });
+
+      if (!approved) {
+        return res.status(409).json({ message: "Este inventário já foi aprovado ou alterado por outro usuário" });
+      }
+
+      res.json(await storage.getCountSession(id));
+    } catch (error) {
+      console.error("Erro ao aprovar inventário:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Erro ao aprovar inventário",
+      });
+    }
+  });
+
+  // Recebimento routes
+  app.get("/api/inbound-receipts", requireAuth, async (req, res) => {
+    try {
+      const receipts = await storage.getAllInboundReceipts();
+      res.json(receipts);
+    } catch (error) {
+      console.error("Erro ao buscar recebimentos:", error);
+      res.status(500).json({ message: "Erro ao buscar recebimentos" });
+    }
+  });
+
+  app.get("/api/inbound-receipts/:id", requireAuth, async (req, res) => {
+    try {
+      const receipt = await storage.getInboundReceipt(parseInt(req.params.id));
+      if (!receipt) {
+        return res.status(404).json({ message: "Recebimento não encontrado" });
+      }
+      res.json(receipt);
+    } catch (error) {
+      console.error("Erro ao buscar recebimento:", error);
+      res.status(500).json({ message: "Erro ao buscar recebimento" });
+    }
+  });
+
+  // Registra uma entrega prevista do fornecedor com os produtos e paletes esperados
+  app.post("/api/inbound-receipts", requireAuth, async (req, res) => {
+    try {
+      const parsed = createInboundReceiptSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { supplier, documentNumber, expectedDate, lines } = parsed.data;
+
+      const existing = await storage.getInboundReceiptByDocument(supplier, documentNumber);
+      if (existing) {
+        return res.status(400).json({ message: "Já existe um recebimento com este documento para o fornecedor" });
+      }
+
+      const receiptLines: Omit<InsertInboundReceiptLine, "receiptId">[] = [];
+      for (const line of lines) {
+        const product = await storage.getProductByCode(line.productCode);
+        if (!product) {
+          return res.status(404).json({ message: `Produto ${line.productCode} não encontrado` });
+        }
+        receiptLines.push({ productId: product.id, expectedPallets: line.expectedPallets });
+      }
+
+      const receipt = await storage.transaction((tx) =>
+        tx.createInboundReceipt(
+          { supplier, documentNumber, expectedDate: expectedDate || null, createdBy: req.session.userId },
+          receiptLines,
+        )
+      );
+
+      res.json(receipt);
+    } catch (error) {
+      console.error("Erro ao criar recebimento:", error);
+      res.status(400).json({ message: "Erro ao criar recebimento" });
+    }
+  });
+
+  // Conferência de uma linha: paletes recebidos, endereço de destino, lote e validade
+  app.put("/api/inbound-receipts/:id/lines/:lineId", requireAuth, async (req, res) => {
+    try {
+      const receiptId = parseInt(req.params.id);
+      const lineId = parseInt(req.params.lineId);
+
+      const parsed = receiveInboundLineSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { receivedPallets, locationId, lot, expiryDate } = parsed.data;
+
+      const receipt = await storage.getInboundReceipt(receiptId);
+      if (!receipt) {
+        return res.status(404).json({ message: "Recebimento não encontrado" });
+      }
+      if (receipt.status !== "expected") {
+        return res.status(400).json({ message: "Este recebimento já foi encerrado" });
+      }
+
+      const line = await storage.getInboundReceiptLine(lineId);
+      if (!line || line.receiptId !== receiptId) {
+        return res.status(404).json({ message: "Item não encontrado neste recebimento" });
+      }
+
+      if (locationId) {
+        const resolved = await resolveLocation(locationId, "porta_palete");
+        if (resolved.error) {
+          return res.status(400).json({ message: resolved.error });
+        }
+      }
+
+      const updated = await storage.updateInboundReceiptLine(lineId, {
+        receivedPallets,
+        locationId: locationId || null,
+        lot: normalizeLot(lot),
+        expiryDate: expiryDate || null,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao conferir item do recebimento:", error);
+      res.status(400).json({ message: "Erro ao conferir item do recebimento" });
+    }
+  });
+
+  // Confirma o recebimento: todas as linhas entram no estoque paletizado e no histórico de uma só vez
+  app.post("/api/inbound-receipts/:id/confirm", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const receipt = await storage.getInboundReceipt(id);
+      if (!receipt) {
+        return res.status(404).json({ message: "Recebimento não encontrado" });
+      }
+      if (receipt.status !== "expected") {
+        return res.status(400).json({ message: "Este recebimento já foi encerrado" });
+      }
+
+      const pending = receipt.lines.filter(line => line.receivedPallets === null).length;
+      if (pending > 0) {
+        return res.status(400).json({ message: `Há ${pending} item(ns) sem conferência` });
+      }
+
+      const userId = req.session.userId;
+      const confirmed = await storage.transaction(async (tx) => {
+        // Claims the receipt first, so a repeated confirmation can't add the pallets twice
+        const claimed = await tx.updateInboundReceipt(
+          id,
+          { status: "received", receivedBy: userId, receivedAt: new Date() },
+          "expected",
+        );
+        if (!claimed) return undefined;
+
+        for (const line of receipt.lines) {
+          const received = line.receivedPallets!;
+          if (received === 0) continue;
+
+          // Soma ao registro do mesmo produto, endereço e lote, ou cria um novo
+          const stock = await tx.findPaletizadoStock(line.productId, line.locationId, line.lot);
+          const previousQuantity = stock?.quantity ?? 0;
+          const saved = stock
+            ? await tx.updatePaletizadoStock(stock.id, {
+                quantity: stock.quantity + received,
+                expiryDate: line.expiryDate ?? stock.expiryDate,
+                updatedBy: userId,
+              }, stock.version)
+            : await tx.createPaletizadoStock({
+                productId: line.productId,
+                quantity: received,
+                locationId: line.locationId,
+                lot: line.lot,
+                expiryDate: line.expiryDate,
+                createdBy: userId,
+                updatedBy: userId,
+              });
+          if (!saved) throw new Error(`O estoque de ${line.product.code} foi alterado durante o recebimento`);
+
+          await tx.createStockMovement({
+            itemType: "paletizado",
+            product: line.product,
+            previousQuantity,
+            newQuantity: saved.quantity,
+            reason: "recebimento",
+            userId,
+          });
+        }
+
+        return claimed;
+      });
+
+      if (!confirmed) {
+        return res.status(409).json({ message: "Este recebimento já foi encerrado por outro usuário" });
+      }
+
+      res.json(await storage.getInboundReceipt(id));
+    } catch (error) {
+      console.error("Erro ao confirmar recebimento:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Erro ao confirmar recebimento",
+      });
+    }
+  });
+
+  app.post("/api/inbound-receipts/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const receipt = await storage.getInboundReceipt(id);
+      if (!receipt) {
+        return res.status(404).json({ message: "Recebimento não encontrado" });
+      }
+      if (receipt.status !== "expected") {
+        return res.status(400).json({ message: "Este recebimento já foi encerrado" });
+      }
+
+      const updated = await storage.updateInboundReceipt(id, { status: "cancelled" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao cancelar recebimento:", error);
+      res.status(400).json({ message: "Erro ao cancelar recebimento" });
+    }
+  });
+
+  // Reposição em loja routes
+  app.get("/api/transfer-orders", requireAuth, async (req, res) => {
+    try {
+      const orders = await storage.getAllTransferOrders();
+      res.json(orders);
+    } catch (error) {
+      console.error("Erro ao buscar pedidos de reposição:", error);
+      res.status(500).json({ message: "Erro ao buscar pedidos de reposição" });
+    }
+  });
+
+  app.get("/api/transfer-orders/:id", requireAuth, async (req, res) => {
+    try {
+      const order = await storage.getTransferOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Pedido não encontrado" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Erro ao buscar pedido de reposição:", error);
+      res.status(500).json({ message: "Erro ao buscar pedido de reposição" });
+    }
+  });
+
+  app.post("/api/transfer-orders", requireAuth, async (req, res) => {
+    try {
+      const parsed = createTransferOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { store, notes, lines } = parsed.data;
+
+      const orderLines: Omit<InsertTransferOrderLine, "orderId">[] = [];
+      for (const line of lines) {
+        const product = await storage.getProductByCode(line.productCode);
+        if (!product) {
+          return res.status(404).json({ message: `Produto ${line.productCode} não encontrado` });
+        }
+        orderLines.push({
+          productId: product.id,
+          itemType: line.itemType,
+          requestedQuantity: line.requestedQuantity,
+        });
+      }
+
+      const order = await storage.transaction((tx) =>
+        tx.createTransferOrder(
+          { store, notes: notes || null, createdBy: req.session.userId },
+          orderLines,
+        )
+      );
+
+      res.json(order);
+    } catch (error) {
+      console.error("Erro ao criar pedido de reposição:", error);
+      res.status(400).json({ message: "Erro ao criar pedido de reposição" });
+    }
+  });
+
+  // Separação de uma linha: origem (pico ou registro paletizado) e quantidade separada
+  app.put("/api/transfer-orders/:id/lines/:lineId", requireAuth, async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const lineId = parseInt(req.params.lineId);
+
+      const parsed = pickTransferOrderLineSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { sourceId, pickedQuantity } = parsed.data;
+
+      const order = await storage.getTransferOrder(orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Pedido não encontrado" });
+      }
+      if (order.status !== "picking") {
+        return res.status(400).json({ message: "Este pedido já foi encerrado" });
+      }
+
+      const line = await storage.getTransferOrderLine(lineId);
+      if (!line || line.orderId !== orderId) {
+        return res.status(404).json({ message: "Item não encontrado neste pedido" });
+      }
+
+      const source = line.itemType === "pico"
+        ? await storage.getPico(sourceId)
+        : await storage.getPaletizadoStock(sourceId);
+      if (!source || source.productId !== line.productId) {
+        return res.status(400).json({ message: "Origem inválida para este produto" });
+      }
+
+      const available = "totalUnits" in source ? source.totalUnits : source.quantity;
+      if (pickedQuantity > available) {
+        const unit = line.itemType === "pico" ? "unidades" : "paletes";
+        return res.status(400).json({ message: `Estoque insuficiente na origem (disponível: ${available} ${unit})` });
+      }
+
+      const updated = await storage.updateTransferOrderLine(lineId, {
+        pickedQuantity,
+        picoId: line.itemType === "pico" ? source.id : null,
+        paletizadoStockId: line.itemType === "paletizado" ? source.id : null,
+        locationId: source.locationId,
+        lot: source.lot,
+        expiryDate: source.expiryDate,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao separar item do pedido:", error);
+      res.status(400).json({ message: "Erro ao separar item do pedido" });
+    }
+  });
+
+  // Expedição: baixa tudo o que foi separado e registra as saídas vinculadas ao pedido
+  app.post("/api/transfer-orders/:id/dispatch", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getTransferOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Pedido não encontrado" });
+      }
+      if (order.status !== "picking") {
+        return res.status(400).json({ message: "Este pedido já foi encerrado" });
+      }
+
+      const pending = order.lines.filter(line => line.pickedQuantity === null).length;
+      if (pending > 0) {
+        return res.status(400).json({ message: `Há ${pending} item(ns) sem separação` });
+      }
+
+      const userId = req.session.userId;
+      const dispatched = await storage.transaction(async (tx) => {
+        // Claims the order first, so a repeated dispatch can't take the stock out twice
+        const claimed = await tx.updateTransferOrder(
+          id,
+          { status: "dispatched", dispatchedBy: userId, dispatchedAt: new Date() },
+          "picking",
+        );
+        if (!claimed) return undefined;
+
+        for (const line of order.lines) {
+          const picked = line.pickedQuantity!;
+          if (picked === 0) continue;
+
+          if (line.itemType === "pico") {
+            const pico = line.picoId ? await tx.getPico(line.picoId) : undefined;
+            if (!pico) throw new Error(`O pico de ${line.product.code} foi eliminado após a separação`);
+            if (pico.totalUnits < picked) {
+              throw new Error(`Unidades insuficientes no pico de ${line.product.code} (disponível: ${pico.totalUnits})`);
+            }
+
+            const { bases, looseUnits, totalUnits } = takeUnitsFromPico(pico, picked, pico.product.unitsPerBase);
+            // Versioned even when it empties the pico, so units added in the meantime aren't deleted with it
+            const updated = await tx.updatePico(pico.id, { bases, looseUnits, totalUnits, updatedBy: userId }, pico.version);
+            if (!updated) throw new Error(`O pico de ${line.product.code} foi alterado durante a expedição, tente novamente`);
+            if (totalUnits === 0) {
+              await tx.deletePico(pico.id);
+            }
+            await tx.createStockMovement({
+              itemType: "pico",
+              product: pico.product,
+              previousQuantity: pico.totalUnits,
+              newQuantity: totalUnits,
+              reason: "expedicao_loja",
+              userId,
+              transferOrderId: id,
+            });
+          } else {
+            const stock = line.paletizadoStockId ? await tx.getPaletizadoStock(line.paletizadoStockId) : undefined;
+            if (!stock) throw new Error(`O estoque paletizado de ${line.product.code} foi eliminado após a separação`);
+            if (stock.quantity < picked) {
+              throw new Error(`Estoque paletizado insuficiente de ${line.product.code} (disponível: ${stock.quantity} paletes)`);
+            }
+
+            const updated = await tx.updatePaletizadoStock(stock.id, {
+              quantity: stock.quantity - picked,
+              updatedBy: userId,
+            }, stock.version);
+            if (!updated) throw new Error(`O estoque paletizado de ${line.product.code} foi alterado durante a expedição, tente novamente`);
+            await tx.createStockMovement({
+              itemType: "paletizado",
+              product: stock.product,
+              previousQuantity: stock.quantity,
+              newQuantity: updated.quantity,
+              reason: "expedicao_loja",
+              userId,
+              transferOrderId: id,
+            });
+          }
+        }
+
+        return claimed;
+      });
+
+      if (!dispatched) {
+        return res.status(409).json({ message: "Este pedido já foi encerrado por outro usuário" });
+      }
+
+      res.json(await storage.getTransferOrder(id));
+    } catch (error) {
+      console.error("Erro ao expedir pedido:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Erro ao expedir pedido",
+      });
+    }
+  });
+
+  app.post("/api/transfer-orders/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getTransferOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Pedido não encontrado" });
+      }
+      if (order.status !== "picking") {
+        return res.status(400).json({ message: "Este pedido já foi encerrado" });
+      }
+
+      const updated = await storage.updateTransferOrder(id, { status: "cancelled" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao cancelar pedido de reposição:", error);
+      res.status(400).json({ message: "Erro ao cancelar pedido de reposição" });
+    }
+  });
+
+  // Lista de separação routes
+  app.get("/api/pick-lists", requireAuth, async (req, res) => {
+    try {
+      const pickLists = await storage.getAllPickLists();
+      res.json(pickLists);
+    } catch (error) {
+      console.error("Erro ao buscar listas de separação:", error);
+      res.status(500).json({ message: "Erro ao buscar listas de separação" });
+    }
+  });
+
+  app.get("/api/pick-lists/:id", requireAuth, async (req, res) => {
+    try {
+      const pickList = await storage.getPickList(parseInt(req.params.id));
+      if (!pickList) {
+        return res.status(404).json({ message: "Lista de separação não encontrada" });
+      }
+      res.json(pickList);
+    } catch (error) {
+      console.error("Erro ao buscar lista de separação:", error);
+      res.status(500).json({ message: "Erro ao buscar lista de separação" });
+    }
+  });
+
+  // Gera a lista a partir dos códigos e quantidades (em unidades), na ordem do percurso
+  app.post("/api/pick-lists", requireAuth, async (req, res) => {
+    try {
+      const parsed = createPickListSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { reference, lines } = parsed.data;
+
+      // Cada linha é convertida para unidades; códigos repetidos são somados
+      const requestsByCode = new Map<string, PickRequest>();
+      const unknownCodes: string[] = [];
+      for (const line of lines) {
+        const product = requestsByCode.get(line.productCode)?.product ?? await storage.getProductByCode(line.productCode);
+        if (!product) {
+          if (!unknownCodes.includes(line.productCode)) unknownCodes.push(line.productCode);
+          continue;
+        }
+        const units = toUnits(line.quantity, line.uom, product);
+        if (units === null) {
+          return res.status(400).json({ message: `Produto ${product.code} não tem unidades por caixa configuradas` });
+        }
+        const current = requestsByCode.get(line.productCode);
+        requestsByCode.set(line.productCode, { product, units: (current?.units ?? 0) + units });
+      }
+      if (unknownCodes.length > 0) {
+        return res.status(404).json({ message: `Produtos não encontrados: ${unknownCodes.join(", ")}` });
+      }
+
+      const [picos, paletizadoStock] = await Promise.all([
+        storage.getAllPicos(),
+        storage.getAllPaletizadoStock(),
+      ]);
+      const plan = planPickList(Array.from(requestsByCode.values()), picos, paletizadoStock);
+
+      // Sem nada a separar (tudo em falta), a lista já nasce encerrada
+      const nothingToPick = plan.lines.length === 0;
+      const pickList = await storage.transaction((tx) =>
+        tx.createPickList(
+          {
+            reference: reference || null,
+            createdBy: req.session.userId,
+            ...(nothingToPick && { status: "completed" as const, completedAt: new Date() }),
+          },
+          plan.items,
+          plan.lines,
+        )
+      );
+
+      res.json(pickList);
+    } catch (error) {
+      console.error("Erro ao gerar lista de separação:", error);
+      res.status(400).json({ message: "Erro ao gerar lista de separação" });
+    }
+  });
+
+  // Confirma uma parada do percurso e baixa do estoque o que foi separado
+  app.post("/api/pick-lists/:id/lines/:lineId/pick", requireAuth, async (req, res) => {
+    try {
+      const pickListId = parseInt(req.params.id);
+      const lineId = parseInt(req.params.lineId);
+
+      const parsed = pickLineSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { pickedQuantity } = parsed.data;
+
+      const pickList = await storage.getPickList(pickListId);
+      if (!pickList) {
+        return res.status(404).json({ message: "Lista de separação não encontrada" });
+      }
+      if (pickList.status !== "open") {
+        return res.status(400).json({ message: "Esta lista de separação já foi encerrada" });
+      }
+
+      const line = pickList.lines.find(item => item.id === lineId);
+      if (!line) {
+        return res.status(404).json({ message: "Item não encontrado nesta lista" });
+      }
+      if (line.pickedQuantity !== null) {
+        return res.status(400).json({ message: "Este item já foi separado" });
+      }
+      if (pickedQuantity > line.quantity) {
+        return res.status(400).json({ message: `Quantidade maior que a prevista (${line.quantity})` });
+      }
+
+      const userId = req.session.userId;
+      const updated = await storage.transaction(async (tx) => {
+        // With the list locked, a repeated tap or a concurrent cancel sees what the other request did
+        const locked = await tx.lockPickList(pickListId);
+        if (locked?.status !== "open") {
+          throw new Error("Esta lista de separação já foi encerrada");
+        }
+        const pickedLine = await tx.pickPickListLine(lineId, { pickedQuantity, pickedBy: userId, pickedAt: new Date() });
+        if (!pickedLine) return undefined;
+
+        if (pickedQuantity > 0 && line.itemType === "pico") {
+          const pico = line.picoId ? await tx.getPico(line.picoId) : undefined;
+          if (!pico) throw new Error(`O pico de ${line.product.code} foi eliminado após a geração da lista`);
+          if (pico.totalUnits < pickedQuantity) {
+            throw new Error(`Unidades insuficientes no pico (disponível: ${pico.totalUnits})`);
+          }
+
+          const { bases, looseUnits, totalUnits } = takeUnitsFromPico(pico, pickedQuantity, pico.product.unitsPerBase);
+          // Versioned even when it empties the pico, so units added in the meantime aren't deleted with it
+          const updatedPico = await tx.updatePico(pico.id, { bases, looseUnits, totalUnits, updatedBy: userId }, pico.version);
+          if (!updatedPico) throw new Error(`O pico de ${line.product.code} foi alterado durante a separação, tente novamente`);
+          if (totalUnits === 0) {
+            await tx.deletePico(pico.id);
+          }
+          await tx.createStockMovement({
+            itemType: "pico",
+            product: pico.product,
+            previousQuantity: pico.totalUnits,
+            newQuantity: totalUnits,
+            reason: "separacao",
+            userId,
+          });
+        } else if (pickedQuantity > 0) {
+          const stock = line.paletizadoStockId ? await tx.getPaletizadoStock(line.paletizadoStockId) : undefined;
+          if (!stock) throw new Error(`O estoque paletizado de ${line.product.code} foi eliminado após a geração da lista`);
+          if (stock.quantity < pickedQuantity) {
+            throw new Error(`Estoque paletizado insuficiente (disponível: ${stock.quantity} paletes)`);
+          }
+
+          const updatedStock = await tx.updatePaletizadoStock(stock.id, {
+            quantity: stock.quantity - pickedQuantity,
+            updatedBy: userId,
+          }, stock.version);
+          if (!updatedStock) throw new Error(`O estoque paletizado de ${line.product.code} foi alterado durante a separação, tente novamente`);
+          await tx.createStockMovement({
+            itemType: "paletizado",
+            product: stock.product,
+            previousQuantity: stock.quantity,
+            newQuantity: updatedStock.quantity,
+            reason: "separacao",
+            userId,
+          });
+        }
+
+        // A lista se encerra sozinha quando a última parada é confirmada
+        const remaining = await tx.countUnpickedPickListLines(pickListId);
+        if (remaining === 0) {
+          await tx.updatePickList(pickListId, { status: "completed", completedAt: new Date() });
+        }
+        return pickedLine;
+      });
+
+      if (!updated) {
+        return res.status(409).json({ message: "Este item já foi separado" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao separar item:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Erro ao separar item",
+      });
+    }
+  });
+
+  app.post("/api/pick-lists/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pickList = await storage.getPickList(id);
+      if (!pickList) {
+        return res.status(404).json({ message: "Lista de separação não encontrada" });
+      }
+      if (pickList.status !== "open") {
+        return res.status(400).json({ message: "Esta lista de separação já foi encerrada" });
+      }
+
+      // Conditional, so a list completed by a pick in the meantime isn't turned into cancelled
+      const updated = await storage.updatePickList(id, { status: "cancelled", completedAt: new Date() }, "open");
+      if (!updated) {
+        return res.status(409).json({ message: "Esta lista de separação já foi encerrada" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Erro ao cancelar lista de separação:", error);
+      res.status(400).json({ message: "Erro ao cancelar lista de separação" });
+    }
+  });
+
+  // Histórico de movimentações: filtros da tela, também aplicados na exportação; valores inválidos são ignorados
+  const activityFilters = (query: Record<string, unknown>): ActivityLogFilters => {
+    const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+    const date = (value: unknown) =>
+      typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+    const userId = Number(query.userId);
+    return {
+      search: text(query.search),
+      category: text(query.category) ?? "all",
+      from: date(query.from),
+      to: date(query.to),
+      type: activityTypes.find(type => type === query.type),
+      itemType: activityItemTypes.find(itemType => itemType === query.itemType),
+      productCode: text(query.productCode),
+      userId: Number.isInteger(userId) && userId > 0 ? userId : undefined,
+    };
+  };
+
+  app.get("/api/activity", requireAuth, async (req, res) => {
+    try {
+      const cursor = req.query.cursor !== undefined ? Number(req.query.cursor) : undefined;
+      if (cursor !== undefined && (!Number.isInteger(cursor) || cursor <= 0)) {
+        return res.status(400).json({ message: "Cursor inválido" });
+      }
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : ACTIVITY_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ACTIVITY_PAGE_SIZE) {
+        return res.status(400).json({ message: `Limite deve estar entre 1 e ${MAX_ACTIVITY_PAGE_SIZE}` });
+      }
+
+      const page = await storage.getActivityLogPage(activityFilters(req.query), cursor, limit);
+      res.json(page);
+    } catch (error) {
+      console.error("Erro ao buscar histórico:", error);
+      res.status(500).json({ message: "Erro ao buscar histórico" });
+    }
+  });
+
+  // Usuários para o filtro do histórico (a lista completa de usuários é restrita a administradores)
+  app.get("/api/activity/users", requireAuth, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(({ id, name, nickname }) => ({ id, name, nickname })));
+    } catch (error) {
+      console.error("Erro ao buscar usuários do histórico:", error);
+      res.status(500).json({ message: "Erro ao buscar usuários" });
+    }
+  });
+
+  // Exportações CSV/XLSX com os mesmos filtros de busca, categoria e reposição das telas
+  const exportFilters = (query: Record<string, unknown>): ProductFilters => ({
+    search: typeof query.search === "string" ? query.search : "",
+    category: typeof query.category === "string" ? query.category : "all",
+  });
+
+  // "Reposição necessária": mantém só os produtos abaixo do mínimo, do mais urgente ao menos urgente
+  const applyReplenishmentExportFilter = async <T extends { productId: number }>(
+    items: T[],
+    enabled: boolean,
+    itemType: "pico" | "paletizado",
+  ): Promise<T[]> => {
+    if (!enabled) return items;
+    const alerts = evaluateReplenishment(await storage.getProductStockLevels());
+    const urgencyByProduct = new Map(
+      alerts
+        .filter(alert => (itemType === "pico" ? alert.picoShortfall : alert.paletizadoShortfall) > 0)
+        .map(alert => [alert.product.id, alert.urgency]),
+    );
+    return items
+      .filter(item => urgencyByProduct.has(item.productId))
+      .sort((a, b) => urgencyByProduct.get(b.productId)! - urgencyByProduct.get(a.productId)!);
+  };
+
+  const sendSpreadsheet = async <T>(
+    res: Response,
+    query: Record<string, unknown>,
+    name: string,
+    columns: SpreadsheetColumn<T>[],
+    rows: T[],
+  ) => {
+    const format = (query.format ?? "csv") as SpreadsheetFormat;
+    if (!spreadsheetFormats.includes(format)) {
+      return res.status(400).json({ message: "Formato inválido (use CSV ou XLSX)" });
+    }
+    const buffer = await writeSpreadsheet(columns, rows, format, name);
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", spreadsheetContentTypes[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${name}-${date}.${format}"`);
+    res.send(buffer);
+  };
+
+  const formatDateTime = (value: Date | null) =>
+    value ? value.toLocaleString("pt-BR", { timeZone: "America/Sao_Paulo" }) : null;
+
+  const productColumns: SpreadsheetColumn<Product>[] = [
+    { header: "Código", value: product => product.code },
+    { header: "Descrição", value: product => product.description, width: 40 },
+    { header: "Qtd. Bases", value: product => product.quantityBases },
+    { header: "Unidades/Base", value: product => product.unitsPerBase },
+    { header: "Unidades/Caixa", value: product => product.unitsPerCase },
+    { header: "Categoria", value: product => categoryLabels[product.category] },
+    { header: "Mín. Pico (unid.)", value: product => product.minPicoUnits },
+    { header: "Máx. Pico (unid.)", value: product => product.maxPicoUnits },
+    { header: "Mín. Paletes", value: product => product.minPaletizadoPallets },
+    { header: "Máx. Paletes", value: product => product.maxPaletizadoPallets },
+  ];
+
+  const picoColumns: SpreadsheetColumn<PicoWithProduct>[] = [
+    { header: "Código", value: pico => pico.product.code },
+    { header: "Descrição", value: pico => pico.product.description, width: 40 },
+    { header: "Categoria", value: pico => categoryLabels[pico.product.category] },
+    { header: "Endereço", value: pico => pico.location.code },
+    { header: "Lote", value: pico => pico.lot },
+    { header: "Validade", value: pico => pico.expiryDate && formatExpiryDate(pico.expiryDate) },
+    { header: "Bases", value: pico => pico.bases },
+    { header: "Unid. Soltas", value: pico => pico.looseUnits },
+    { header: "Total (unid.)", value: pico => pico.totalUnits },
+    { header: "Atualizado em", value: pico => formatDateTime(pico.updatedAt), width: 20 },
+  ];
+
+  const paletizadoColumns: SpreadsheetColumn<PaletizadoStockWithProduct>[] = [
+    { header: "Código", value: stock => stock.product.code },
+    { header: "Descrição", value: stock => stock.product.description, width: 40 },
+    { header: "Categoria", value: stock => categoryLabels[stock.product.category] },
+    { header: "Endereço", value: stock => stock.location?.code ?? null },
+    { header: "Lote", value: stock => stock.lot },
+    { header: "Validade", value: stock => stock.expiryDate && formatExpiryDate(stock.expiryDate) },
+    { header: "Paletes", value: stock => stock.quantity },
+    { header: "Atualizado em", value: stock => formatDateTime(stock.updatedAt), width: 20 },
+  ];
+
+  const activityColumns: SpreadsheetColumn<ActivityLogWithUser>[] = [
+    { header: "Data", value: activity => formatDateTime(activity.createdAt), width: 20 },
+    { header: "Tipo", value: activity => (activity.itemType === "pico" ? "Pico" : "Paletizado") },
+    { header: "Código", value: activity => activity.productCode },
+    { header: "Descrição", value: activity => activity.productDescription, width: 40 },
+    { header: "Categoria", value: activity => categoryLabels[activity.category] },
+    { header: "Motivo", value: activity => movementReasonLabels[activity.reason as MovementReason] ?? activity.reason, width: 22 },
+    { header: "Anterior", value: activity => activity.previousQuantity },
+    { header: "Novo", value: activity => activity.newQuantity },
+    { header: "Variação", value: activity => activity.delta },
+    { header: "Unidade", value: activity => (activity.itemType === "pico" ? "unid." : "paletes") },
+    { header: "Usuário", value: activity => activity.user?.nickname ?? null },
+  ];
+
+  app.get("/api/export/products", requireAuth, async (req, res) => {
+    try {
+      const filters = exportFilters(req.query);
+      const products = (await storage.getAllProducts()).filter(product => matchesProductFilters(product, filters));
+      await sendSpreadsheet(res, req.query, "produtos", productColumns, products);
+    } catch (error) {
+      console.error("Erro ao exportar produtos:", error);
+      res.status(500).json({ message: "Erro ao exportar produtos" });
+    }
+  });
+
+  app.get("/api/export/picos", requireAuth, async (req, res) => {
+    try {
+      const filters = exportFilters(req.query);
+      const picos = (await storage.getAllPicos()).filter(pico => matchesProductFilters(pico.product, filters));
+      const rows = await applyReplenishmentExportFilter(picos, req.query.replenishment === "true", "pico");
+      await sendSpreadsheet(res, req.query, "picos", picoColumns, rows);
+    } catch (error) {
+      console.error("Erro ao exportar picos:", error);
+      res.status(500).json({ message: "Erro ao exportar picos" });
+    }
+  });
+
+  app.get("/api/export/paletizado-stock", requireAuth, async (req, res) => {
+    try {
+      const filters = exportFilters(req.query);
+      const stock = (await storage.getAllPaletizadoStock()).filter(item => matchesProductFilters(item.product, filters));
+      const rows = await applyReplenishmentExportFilter(stock, req.query.replenishment === "true", "paletizado");
+      await sendSpreadsheet(res, req.query, "paletizados", paletizadoColumns, rows);
+    } catch (error) {
+      console.error("Erro ao exportar paletizados:", error);
+      res.status(500).json({ message: "Erro ao exportar paletizados" });
+    }
+  });
+
+  app.get("/api/export/activity", requireAuth, async (req, res) => {
+    try {
+      const activities = await storage.getActivityLog(activityFilters(req.query));
+      await sendSpreadsheet(res, req.query, "historico", activityColumns, activities);
+    } catch (error) {
+      console.error("Erro ao exportar histórico:", error);
+      res.status(500).json({ message: "Erro ao exportar histórico" });
+    }
+  });
+
+  // Relatórios PDF para contagem física: agrupamento, linhas em branco e rodapé de assinatura
+  const parseReportOptions = (query: Record<string, unknown>) => {
+    const grouping = (query.groupBy ?? "none") as ReportGrouping;
+    const blankRows = query.blankRows === undefined ? DEFAULT_BLANK_ROWS : Number(query.blankRows);
+    if (!reportGroupings.includes(grouping)) return null;
+    if (!Number.isInteger(blankRows) || blankRows < 0 || blankRows > MAX_BLANK_ROWS) return null;
+    return { grouping, blankRows };
+  };
+
+  const reportDetails = (query: Record<string, unknown>, grouping: ReportGrouping) => {
+    const filters = exportFilters(query);
+    const details = [
+      `Categoria: ${filters.category && filters.category !== "all"
+        ? categoryLabels[filters.category as Product["category"]] ?? filters.category
+        : "Todas as categorias"}`,
+    ];
+    if (filters.search) details.push(`Busca: ${filters.search}`);
+    if (query.replenishment === "true") details.push("Somente reposição necessária");
+    if (grouping !== "none") details.push(`Agrupado por ${grouping === "category" ? "categoria" : "torre"}`);
+    return details;
+  };
+
+  const compareAddressPart = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+  const formatAddressPart = (value: string) => value.toUpperCase().padStart(2, "0");
+
+  // Groups keep the incoming order inside each section (e.g. urgency when filtering by replenishment)
+  const groupReport = <T extends { product: Product; location?: Location | null }>(
+    rows: T[],
+    grouping: ReportGrouping,
+  ) => {
+    if (grouping === "category") {
+      const order = Object.keys(categoryLabels);
+      const sorted = [...rows].sort((a, b) => order.indexOf(a.product.category) - order.indexOf(b.product.category));
+      return groupReportRows(sorted, row => categoryLabels[row.product.category]);
+    }
+    if (grouping === "tower") {
+      const sorted = [...rows].sort((a, b) => {
+        if (!a.location || !b.location) return (a.location ? 0 : 1) - (b.location ? 0 : 1);
+        return compareAddressPart(a.location.aisle, b.location.aisle) ||
+          compareAddressPart(a.location.tower, b.location.tower) ||
+          compareAddressPart(a.location.code, b.location.code);
+      });
+      return groupReportRows(sorted, row =>
+        row.location
+          ? `Rua ${formatAddressPart(row.location.aisle)} - Torre ${formatAddressPart(row.location.tower)}`
+          : "Sem endereço",
+      );
+    }
+    return [{ label: "", rows }];
+  };
+
+  const sendPdfReport = (res: Response, name: string, buffer: Buffer) => {
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${name}-${date}.pdf"`);
+    res.send(buffer);
+  };
+
+  const invalidReportMessage = `Parâmetros do relatório inválidos (agrupamento: ${reportGroupings.join(", ")}; linhas em branco: 0 a ${MAX_BLANK_ROWS})`;
+
+  const picoReportColumns: ReportColumn<PicoWithProduct>[] = [
+    { header: "Código", value: pico => pico.product.code, width: 8 },
+    { header: "Descrição", value: pico => pico.product.description, width: 26 },
+    { header: "Categoria", value: pico => categoryLabels[pico.product.category], width: 10 },
+    { header: "Endereço", value: pico => pico.location.code, width: 11 },
+    { header: "Lote", value: pico => pico.lot, width: 9 },
+    { header: "Validade", value: pico => pico.expiryDate && formatExpiryDate(pico.expiryDate), width: 8 },
+    { header: "Bases", value: pico => pico.bases, width: 6, align: "right" },
+    { header: "Unid. Soltas", value: pico => pico.looseUnits, width: 7, align: "right" },
+    { header: "Total", value: pico => pico.totalUnits, width: 6, align: "right" },
+    { header: "Contado", value: () => null, width: 9 },
+  ];
+
+  const paletizadoReportColumns: ReportColumn<PaletizadoStockWithProduct>[] = [
+    { header: "Código", value: stock => stock.product.code, width: 8 },
+    { header: "Descrição", value: stock => stock.product.description, width: 28 },
+    { header: "Categoria", value: stock => categoryLabels[stock.product.category], width: 10 },
+    { header: "Endereço", value: stock => stock.location?.code, width: 11 },
+    { header: "Lote", value: stock => stock.lot, width: 10 },
+    { header: "Validade", value: stock => stock.expiryDate && formatExpiryDate(stock.expiryDate), width: 8 },
+    { header: "Paletes", value: stock => stock.quantity, width: 7, align: "right" },
+    { header: "Contado", value: () => null, width: 9 },
+  ];
+
+  const paletizadoSummaryReportColumns: ReportColumn<PaletizadoStockSummary>[] = [
+    { header: "Código", value: summary => summary.product.code, width: 8 },
+    { header: "Descrição", value: summary => summary.product.description, width: 30 },
+    { header: "Categoria", value: summary => categoryLabels[summary.product.category], width: 10 },
+    { header: "Registros", value: summary => summary.records, width: 7, align: "right" },
+    { header: "Endereços", value: summary => summary.locations, width: 7, align: "right" },
+    { header: "Total de Paletes", value: summary => summary.totalQuantity, width: 9, align: "right" },
+    { header: "Contado", value: () => null, width: 9 },
+  ];
+
+  app.get("/api/reports/picos", requireAuth, async (req, res) => {
+    try {
+      const options = parseReportOptions(req.query);
+      if (!options) {
+        return res.status(400).json({ message: invalidReportMessage });
+      }
+      const filters = exportFilters(req.query);
+      const picos = (await storage.getAllPicos()).filter(pico => matchesProductFilters(pico.product, filters));
+      const rows = await applyReplenishmentExportFilter(picos, req.query.replenishment === "true", "pico");
+      const buffer = await writePdfReport({
+        title: "Relatório de Picos",
+        details: reportDetails(req.query, options.grouping),
+        columns: picoReportColumns,
+        groups: groupReport(rows, options.grouping),
+        blankRows: options.blankRows,
+      });
+      sendPdfReport(res, "picos", buffer);
+    } catch (error) {
+      console.error("Erro ao gerar relatório de picos:", error);
+      res.status(500).json({ message: "Erro ao gerar relatório de picos" });
+    }
+  });
+
+  // view=products resume os paletizados por produto, como a visão "Por produto" da tela de estoque
+  app.get("/api/reports/paletizado-stock", requireAuth, async (req, res) => {
+    try {
+      const options = parseReportOptions(req.query);
+      if (!options) {
+        return res.status(400).json({ message: invalidReportMessage });
+      }
+      const byProduct = req.query.view === "products";
+      if (byProduct && options.grouping === "tower") {
+        return res.status(400).json({ message: "Agrupamento por torre não disponível no resumo por produto" });
+      }
+      const filters = exportFilters(req.query);
+      const stock = (await storage.getAllPaletizadoStock()).filter(item => matchesProductFilters(item.product, filters));
+      const rows = await applyReplenishmentExportFilter(stock, req.query.replenishment === "true", "paletizado");
+      const details = reportDetails(req.query, options.grouping);
+
+      let buffer: Buffer;
+      if (byProduct) {
+        const summaries = new Map<number, PaletizadoStockSummary & { locationIds: Set<number | null> }>();
+        for (const item of rows) {
+          const entry = summaries.get(item.productId) ??
+            { product: item.product, totalQuantity: 0, records: 0, locations: 0, locationIds: new Set() };
+          entry.totalQuantity += item.quantity;
+          entry.records += 1;
+          entry.locationIds.add(item.locationId);
+          entry.locations = entry.locationIds.size;
+          summaries.set(item.productId, entry);
+        }
+        const summaryRows = Array.from(summaries.values());
+        if (req.query.replenishment !== "true") {
+          summaryRows.sort((a, b) => a.product.code.localeCompare(b.product.code));
+        }
+        buffer = await writePdfReport({
+          title: "Relatório de Paletizados por Produto",
+          details,
+          columns: paletizadoSummaryReportColumns,
+          groups: groupReport(summaryRows, options.grouping),
+          blankRows: options.blankRows,
+        });
+      } else {
+        buffer = await writePdfReport({
+          title: "Relatório de Paletizados",
+          details,
+          columns: paletizadoReportColumns,
+          groups: groupReport(rows, options.grouping),
+          blankRows: options.blankRows,
+        });
+      }
+      sendPdfReport(res, "paletizados", buffer);
+    } catch (error) {
+      console.error("Erro ao gerar relatório de paletizados:", error);
+      res.status(500).json({ message: "Erro ao gerar relatório de paletizados" });
+    }
+  });
+
+  // Etiquetas com código de barras/QR em PDF (uma etiqueta por página) ou ZPL para impressoras térmicas
+  app.post("/api/labels", requireAuth, async (req, res) => {
+    try {
+      const parsed = labelRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { target, ids, format, copies, ...layout } = parsed.data;
+
+      let labels: (LabelContent | null)[];
+      if (target === "product") {
+        const byId = new Map((await storage.getAllProducts()).map(product => [product.id, product]));
+        labels = ids.map(id => byId.get(id) ? productLabel(byId.get(id)!, layout.fields) : null);
+      } else if (target === "pico") {
+        const byId = new Map((await storage.getAllPicos()).map(pico => [pico.id, pico]));
+        labels = ids.map(id => byId.get(id) ? picoLabel(byId.get(id)!, layout.fields) : null);
+      } else if (target === "paletizado") {
+        const byId = new Map((await storage.getAllPaletizadoStock()).map(stock => [stock.id, stock]));
+        labels = ids.map(id => byId.get(id) ? paletizadoLabel(byId.get(id)!, layout.fields) : null);
+      } else {
+        const byId = new Map((await storage.getAllLocations()).map(location => [location.id, location]));
+        labels = ids.map(id => byId.get(id) ? locationLabel(byId.get(id)!, layout.fields) : null);
+      }
+
+      if (labels.some(label => label === null)) {
+        return res.status(404).json({ message: "Um ou mais itens selecionados não foram encontrados" });
+      }
+      const contents = labels as LabelContent[];
+
+      const invalid = contents
+        .map(label => ({ code: label.barcode, error: barcodeError(label.barcode, layout.symbology) }))
+        .filter(item => item.error);
+      if (invalid.length > 0) {
+        const codes = Array.from(new Set(invalid.map(item => item.code)));
+        return res.status(400).json({
+          message: `${invalid[0].error}: ${codes.slice(0, 10).join(", ")}${codes.length > 10 ? "..." : ""}`,
+        });
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === "zpl") {
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="etiquetas-${date}.zpl"`);
+        return res.send(writeLabelsZpl(contents, layout, copies));
+      }
+      const buffer = await writeLabelsPdf(contents, layout, copies);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="etiquetas-${date}.pdf"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Erro ao gerar etiquetas:", error);
+      res.status(500).json({ message: "Erro ao gerar etiquetas" });
+    }
+  });
+
+  // Dashboard stats
+  app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
+    try {
+      const stats = await storage.getDashboardStats();
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+    }
+  });
+
+  // Entradas, saídas e saldo por período (dia, semana ou mês); padrão: últimos 30 dias, por dia
+  app.get("/api/dashboard/movements", requireAuth, async (req, res) => {
+    try {
+      const isDate = (value: unknown): value is string =>
+        typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+      const dayMs = 24 * 60 * 60 * 1000;
+
+      const to = req.query.to === undefined ? new Date().toISOString().slice(0, 10) : req.query.to;
+      const from = req.query.from === undefined
+        ? new Date(Date.parse(`${to}T00:00:00Z`) - 29 * dayMs).toISOString().slice(0, 10)
+        : req.query.from;
+      if (!isDate(from) || !isDate(to)) {
+        return res.status(400).json({ message: "Período inválido" });
+      }
+      const days = (Date.parse(to) - Date.parse(from)) / dayMs;
+      if (days < 0 || days > MAX_MOVEMENT_SERIES_DAYS) {
+        return res.status(400).json({ message: `O período deve ter de 1 a ${MAX_MOVEMENT_SERIES_DAYS + 1} dias` });
+      }
+
+      const bucket = req.query.bucket === undefined ? "day" : movementSeriesBuckets.find(item => item === req.query.bucket);
+      if (!bucket) {
+        return res.status(400).json({ message: "Agrupamento inválido (use day, week ou month)" });
+      }
+
+      const series: MovementSeries = {
+        from,
+        to,
+        bucket,
+        points: await storage.getMovementSeries(from, to, bucket),
+      };
+      res.json(series);
+    } catch (error) {
+      console.error("Erro ao buscar movimentações por período:", error);
+      res.status(500).json({ message: "Erro ao buscar movimentações por período" });
+    }
+  });
+
+  // Produtos abaixo do mínimo de pico ou de paletizado, do mais urgente ao menos urgente
+  app.get("/api/replenishment/alerts", requireAuth, async (req, res) => {
+    try {
+      const levels = await storage.getProductStockLevels();
+      res.json(evaluateReplenishment(levels));
+    } catch (error) {
+      console.error("Erro ao avaliar reposição:", error);
+      res.status(500).json({ message: "Erro ao avaliar reposição" });
+    }
+  });
+
+  // Estoque vencido ou a vencer nos próximos N dias (padrão 30)
+  app.get("/api/dashboard/expiring", requireAuth, async (req, res) => {
+    try {
+      const days = req.query.days !== undefined ? Number(req.query.days) : 30;
+      if (!Number.isInteger(days) || days < 0 || days > 365) {
+        return res.status(400).json({ message: "Período deve ser entre 0 e 365 dias" });
+      }
+
+      const until = new Date();
+      until.setUTCDate(until.getUTCDate() + days);
+
+      const items = await storage.getExpiringStock(until.toISOString().slice(0, 10));
+      res.json(items);
+    } catch (error) {
+      console.error("Erro ao buscar estoque a vencer:", error);
+      res.status(500).json({ message: "Erro ao buscar estoque a vencer" });
     }
   });
 
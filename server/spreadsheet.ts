@@ -0,0 +1,137 @@
+import ExcelJS from "exceljs";
+
+export const spreadsheetFormats = ["csv", "xlsx"] as const;
+export type SpreadsheetFormat = typeof spreadsheetFormats[number];
+
+// A data row keyed by its normalized header, with the 1-based line number in the file
+export type SpreadsheetRecord = {
+  line: number;
+  values: Record<string, string>;
+};
+
+// "Unidades/Base" and "unidades_por_base" should both reach the same column
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// Minimal RFC 4180 parser. Brazilian Excel exports use ";" so the delimiter is taken from the header line.
+function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function readXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  for (let index = 1; index <= sheet.rowCount; index++) {
+    const row = sheet.getRow(index);
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? "");
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+// Reads the first sheet; the first row is the header and blank rows are ignored
+export async function readSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): Promise<SpreadsheetRecord[]> {
+  const rows = format === "xlsx" ? await readXlsx(buffer) : parseCsv(buffer.toString("utf8"));
+  const [header, ...dataRows] = rows;
+  if (!header) return [];
+
+  const keys = header.map(normalizeHeader);
+  return dataRows.flatMap((cells, index) => {
+    if (cells.every(cell => cell.trim() === "")) return [];
+    const values: Record<string, string> = {};
+    keys.forEach((key, column) => {
+      if (key) values[key] = (cells[column] ?? "").trim();
+    });
+    return [{ line: index + 2, values }];
+  });
+}
+
+export type SpreadsheetColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | null;
+  width?: number;
+};
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV uses ";" and a BOM so Excel in pt-BR opens it with the right columns and accents
+export async function writeSpreadsheet<T>(
+  columns: SpreadsheetColumn<T>[],
+  rows: T[],
+  format: SpreadsheetFormat,
+  sheetName: string,
+): Promise<Buffer> {
+  if (format === "csv") {
+    const lines = [
+      columns.map(column => csvField(column.header)).join(";"),
+      ...rows.map(row => columns.map(column => csvField(column.value(row))).join(";")),
+    ];
+    return Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf8");
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = columns.map(column => ({ header: column.header, width: column.width ?? 15 }));
+  sheet.getRow(1).font = { bold: true };
+  rows.forEach(row => sheet.addRow(columns.map(column => column.value(row))));
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export const spreadsheetContentTypes: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
@@ -1,13 +1,31 @@
 import {
   users,
   products,
+  productBarcodes,
   picos,
   paletizadoStock,
   activityLog,
+  locations,
+  countSessions,
+  countSessionItems,
+  inboundReceipts,
+  inboundReceiptLines,
+  transferOrders,
+  transferOrderLines,
+  pickLists,
+  pickListItems,
+  pickListLines,
+  formatLocationCode,
+  sortByFefo,
   type User,
   type InsertUser,
   type Product,
   type InsertProduct,
+  type ProductBarcode,
+  type InsertProductBarcode,
+  type ProductBarcodeLookup,
+  type Location,
+  type InsertLocation,
   type Pico,
   type InsertPico,
   type PaletizadoStock,
@@ -16,11 +34,76 @@ import {
   type InsertActivityLog,
   type PicoWithProduct,
   type PaletizadoStockWithProduct,
+  type ExpiringStockItem,
+  type StockMovement,
+  type ProductStockAt,
+  type ProductStockLevel,
+  type UserSummary,
+  type ActivityLogWithUser,
+  type ActivityLogFilters,
+  type ActivityLogPage,
+  type ProductBalancePoint,
+  type MovementSeriesBucket,
+  type MovementSeriesPoint,
+  type ActivityItemType,
+  type CountSession,
+  type InsertCountSession,
+  type CountSessionItem,
+  type InsertCountSessionItem,
+  type CountSessionItemWithProduct,
+  type CountSessionWithItems,
+  type CountSessionSummary,
+  type InboundReceipt,
+  type InsertInboundReceipt,
+  type InboundReceiptLine,
+  type InsertInboundReceiptLine,
+  type InboundReceiptWithLines,
+  type InboundReceiptSummary,
+  type TransferOrder,
+  type InsertTransferOrder,
+  type TransferOrderLine,
+  type InsertTransferOrderLine,
+  type TransferOrderWithLines,
+  type TransferOrderSummary,
+  type PickList,
+  type InsertPickList,
+  type InsertPickListItem,
+  type PickListLine,
+  type InsertPickListLine,
+  type PickListWithLines,
+  type PickListSummary,
+  type PickListStatus,
+  type TransferOrderStatus,
+  type InboundStatus,
+  type CountSessionStatus,
 } from "@shared/schema";
+import * as schema from "@shared/schema";
 import { db } from "./db";
-import { eq, like, sql, desc } from "drizzle-orm";
+import { eq, like, ilike, sql, desc, and, or, lt, lte, gte, asc, isNull, isNotNull, inArray, type ExtractTablesWithRelations } from "drizzle-orm";
+import { alias, type PgDatabase } from "drizzle-orm/pg-core";
+import type { NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
+
+// Either the pooled connection or an open transaction
+type DbExecutor = PgDatabase<
+  NodePgQueryResultHKT,
+  typeof schema,
+  ExtractTablesWithRelations<typeof schema>
+>;
+
+const createdByUsers = alias(users, "created_by_user");
+const updatedByUsers = alias(users, "updated_by_user");
+const approvedByUsers = alias(users, "approved_by_user");
+const receivedByUsers = alias(users, "received_by_user");
+const dispatchedByUsers = alias(users, "dispatched_by_user");
+
+function toUserSummary(user: User | null): UserSummary | null {
+  return user ? { id: user.id, name: user.name, nickname: user.nickname } : null;
+}
 
 export interface IStorage {
+  // Unit of work: every operation on the given storage commits or rolls back together
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -38,51 +121,155 @@ export interface IStorage {
   deleteProduct(id: number): Promise<void>;
   getAllProducts(): Promise<Product[]>;
   searchProductsByCode(query: string): Promise<Product[]>;
+  findProductByBarcode(value: string): Promise<ProductBarcodeLookup | undefined>;
+  getProductBarcodes(productId: number): Promise<ProductBarcode[]>;
+  getAllProductBarcodes(): Promise<ProductBarcode[]>;
+  getProductBarcodesByCodes(codes: string[]): Promise<ProductBarcode[]>;
+  replaceProductBarcodes(productId: number, barcodes: Omit<InsertProductBarcode, "productId">[]): Promise<ProductBarcode[]>;
   
+  // Location operations
+  getLocation(id: number): Promise<Location | undefined>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: number, updates: Partial<InsertLocation>): Promise<Location | undefined>;
+  deleteLocation(id: number): Promise<void>;
+  getAllLocations(): Promise<Location[]>;
+  isLocationInUse(id: number): Promise<boolean>;
+
   // Pico operations
   getPico(id: number): Promise<PicoWithProduct | undefined>;
+  getPicoByProductAndLocation(productId: number, locationId: number): Promise<PicoWithProduct | undefined>;
   createPico(pico: InsertPico): Promise<Pico>;
   updatePico(id: number, updates: Partial<InsertPico>): Promise<Pico>;
+  // Only updates while the row is still at expectedVersion; undefined means someone changed it first
+  updatePico(id: number, updates: Partial<InsertPico>, expectedVersion: number): Promise<Pico | undefined>;
   deletePico(id: number): Promise<void>;
   getAllPicos(): Promise<PicoWithProduct[]>;
+  getPicosByProductId(productId: number): Promise<PicoWithProduct[]>;
   
   // Paletizado Stock operations
   getPaletizadoStock(id: number): Promise<PaletizadoStockWithProduct | undefined>;
-  getPaletizadoStockByProductId(productId: number): Promise<PaletizadoStockWithProduct | undefined>;
+  getPaletizadoStockByProductId(productId: number): Promise<PaletizadoStockWithProduct[]>;
+  findPaletizadoStock(productId: number, locationId: number | null, lot: string | null): Promise<PaletizadoStockWithProduct | undefined>;
   createPaletizadoStock(stock: InsertPaletizadoStock): Promise<PaletizadoStock>;
   updatePaletizadoStock(id: number, updates: Partial<InsertPaletizadoStock>): Promise<PaletizadoStock>;
+  // Only updates while the row is still at expectedVersion; undefined means someone changed it first
+  updatePaletizadoStock(id: number, updates: Partial<InsertPaletizadoStock>, expectedVersion: number): Promise<PaletizadoStock | undefined>;
+  // Relative withdrawal that never overdraws; undefined when fewer than `pallets` are left
+  withdrawPaletizadoPallets(id: number, pallets: number, updatedBy?: number): Promise<PaletizadoStock | undefined>;
   deletePaletizadoStock(id: number): Promise<void>;
   getAllPaletizadoStock(): Promise<PaletizadoStockWithProduct[]>;
+
+  // Expiry operations
+  getExpiringStock(until: string): Promise<ExpiringStockItem[]>;
   
   // Activity Log operations
   createActivityLog(activity: InsertActivityLog): Promise<ActivityLog>;
-  getRecentActivity(limit?: number): Promise<ActivityLog[]>;
+  createStockMovement(movement: StockMovement): Promise<ActivityLog>;
+  getRecentActivity(limit?: number): Promise<ActivityLogWithUser[]>;
+  getActivityLog(filters: ActivityLogFilters): Promise<ActivityLogWithUser[]>;
+  getActivityLogPage(filters: ActivityLogFilters, cursor: number | undefined, limit: number): Promise<ActivityLogPage>;
+  getProductStockAt(productId: number, at: Date): Promise<ProductStockAt>;
+  getProductBalanceHistory(productId: number): Promise<ProductBalancePoint[]>;
+
+  // Replenishment operations
+  getProductStockLevels(): Promise<ProductStockLevel[]>;
+
+  // Cycle count operations
+  getAllCountSessions(): Promise<CountSessionSummary[]>;
+  getCountSession(id: number): Promise<CountSessionWithItems | undefined>;
+  createCountSession(
+    session: InsertCountSession,
+    items: Omit<InsertCountSessionItem, "sessionId">[],
+  ): Promise<CountSession>;
+  updateCountSession(id: number, updates: Partial<InsertCountSession>): Promise<CountSession>;
+  // Only applies while the status is still expectedStatus; undefined means another request changed it first
+  updateCountSession(id: number, updates: Partial<InsertCountSession>, expectedStatus: CountSessionStatus): Promise<CountSession | undefined>;
+  getCountSessionItem(id: number): Promise<CountSessionItem | undefined>;
+  updateCountSessionItem(id: number, updates: Partial<InsertCountSessionItem>): Promise<CountSessionItem>;
+
+  // Inbound receiving operations
+  getAllInboundReceipts(): Promise<InboundReceiptSummary[]>;
+  getInboundReceipt(id: number): Promise<InboundReceiptWithLines | undefined>;
+  getInboundReceiptByDocument(supplier: string, documentNumber: string): Promise<InboundReceipt | undefined>;
+  createInboundReceipt(
+    receipt: InsertInboundReceipt,
+    lines: Omit<InsertInboundReceiptLine, "receiptId">[],
+  ): Promise<InboundReceipt>;
+  updateInboundReceipt(id: number, updates: Partial<InsertInboundReceipt>): Promise<InboundReceipt>;
+  // Only applies while the status is still expectedStatus; undefined means another request changed it first
+  updateInboundReceipt(id: number, updates: Partial<InsertInboundReceipt>, expectedStatus: InboundStatus): Promise<InboundReceipt | undefined>;
+  getInboundReceiptLine(id: number): Promise<InboundReceiptLine | undefined>;
+  updateInboundReceiptLine(id: number, updates: Partial<InsertInboundReceiptLine>): Promise<InboundReceiptLine>;
+
+  // Store transfer order operations
+  getAllTransferOrders(): Promise<TransferOrderSummary[]>;
+  getTransferOrder(id: number): Promise<TransferOrderWithLines | undefined>;
+  createTransferOrder(
+    order: InsertTransferOrder,
+    lines: Omit<InsertTransferOrderLine, "orderId">[],
+  ): Promise<TransferOrder>;
+  updateTransferOrder(id: number, updates: Partial<InsertTransferOrder>): Promise<TransferOrder>;
+  // Only applies while the status is still expectedStatus; undefined means another request changed it first
+  updateTransferOrder(id: number, updates: Partial<InsertTransferOrder>, expectedStatus: TransferOrderStatus): Promise<TransferOrder | undefined>;
+  getTransferOrderLine(id: number): Promise<TransferOrderLine | undefined>;
+  updateTransferOrderLine(id: number, updates: Partial<InsertTransferOrderLine>): Promise<TransferOrderLine>;
+
+  // Pick list operations
+  getAllPickLists(): Promise<PickListSummary[]>;
+  getPickList(id: number): Promise<PickListWithLines | undefined>;
+  createPickList(
+    pickList: InsertPickList,
+    items: Omit<InsertPickListItem, "pickListId">[],
+    lines: Omit<InsertPickListLine, "pickListId">[],
+  ): Promise<PickList>;
+  updatePickList(id: number, updates: Partial<InsertPickList>): Promise<PickList>;
+  // Only applies while the status is still expectedStatus; undefined means another request changed it first
+  updatePickList(id: number, updates: Partial<InsertPickList>, expectedStatus: PickListStatus): Promise<PickList | undefined>;
+  // Locks the list row until the transaction ends, so picks on the same list run one at a time
+  lockPickList(id: number): Promise<PickList | undefined>;
+  getPickListLine(id: number): Promise<PickListLine | undefined>;
+  updatePickListLine(id: number, updates: Partial<InsertPickListLine>): Promise<PickListLine>;
+  // Records the pick only while the line is still unpicked; undefined means it was picked already
+  pickPickListLine(
+    id: number,
+    pick: Pick<InsertPickListLine, "pickedQuantity" | "pickedBy" | "pickedAt">,
+  ): Promise<PickListLine | undefined>;
+  countUnpickedPickListLines(pickListId: number): Promise<number>;
   
   // Dashboard statistics
+  getMovementSeries(from: string, to: string, bucket: MovementSeriesBucket): Promise<MovementSeriesPoint[]>;
   getDashboardStats(): Promise<{
     totalPicos: number;
     totalPaletizados: number;
+    totalPallets: number;
+    paletizadoLocations: number;
     altaRotacao: number;
     baixaRotacao: number;
-    recentEntries: ActivityLog[];
-    recentExits: ActivityLog[];
+    recentEntries: ActivityLogWithUser[];
+    recentExits: ActivityLogWithUser[];
   }>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly executor: DbExecutor = db) {}
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.executor.transaction((tx) => work(new DatabaseStorage(tx)));
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.executor.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.executor.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.executor
       .insert(users)
       .values(insertUser)
       .returning();
@@ -90,7 +277,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUser(id: number, updates: Partial<InsertUser>): Promise<User> {
-    const [user] = await db
+    const [user] = await this.executor
       .update(users)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(users.id, id))
@@ -99,15 +286,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteUser(id: number): Promise<void> {
-    await db.delete(users).where(eq(users.id, id));
+    await this.executor.delete(users).where(eq(users.id, id));
   }
 
   async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(users.name);
+    return await this.executor.select().from(users).orderBy(users.name);
   }
 
   async updateUserPassword(id: number, hashedPassword: string): Promise<void> {
-    await db
+    await this.executor
       .update(users)
       .set({ password: hashedPassword, isFirstLogin: false, updatedAt: new Date() })
       .where(eq(users.id, id));
@@ -115,17 +302,17 @@ export class DatabaseStorage implements IStorage {
 
   // Product operations
   async getProduct(id: number): Promise<Product | undefined> {
-    const [product] = await db.select().from(products).where(eq(products.id, id));
+    const [product] = await this.executor.select().from(products).where(eq(products.id, id));
     return product || undefined;
   }
 
   async getProductByCode(code: string): Promise<Product | undefined> {
-    const [product] = await db.select().from(products).where(eq(products.code, code));
+    const [product] = await this.executor.select().from(products).where(eq(products.code, code));
     return product || undefined;
   }
 
   async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const [product] = await db
+    const [product] = await this.executor
       .insert(products)
       .values(insertProduct)
       .returning();
@@ -133,7 +320,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateProduct(id: number, updates: Partial<InsertProduct>): Promise<Product> {
-    const [product] = await db
+    const [product] = await this.executor
       .update(products)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(products.id, id))
@@ -142,144 +329,350 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProduct(id: number): Promise<void> {
-    await db.delete(products).where(eq(products.id, id));
+    await this.executor.delete(products).where(eq(products.id, id));
   }
 
   async getAllProducts(): Promise<Product[]> {
-    return await db.select().from(products).orderBy(products.code);
+    return await this.executor.select().from(products).orderBy(products.code);
   }
 
+  // Matches the internal code or any alternate barcode
   async searchProductsByCode(query: string): Promise<Product[]> {
-    return await db
+    const aliasMatches = this.executor
+      .select({ productId: productBarcodes.productId })
+      .from(productBarcodes)
+      .where(like(productBarcodes.code, `%${query}%`));
+    return await this.executor
       .select()
       .from(products)
-      .where(like(products.code, `%${query}%`))
+      .where(or(like(products.code, `%${query}%`), inArray(products.id, aliasMatches)))
       .limit(10);
   }
 
+  // Resolves a scanned value to its product: exact internal code first, then alternate barcodes
+  async findProductByBarcode(value: string): Promise<ProductBarcodeLookup | undefined> {
+    const code = value.trim();
+    const product = await this.getProductByCode(code);
+    if (product) return { product, barcode: null };
+
+    const [match] = await this.executor
+      .select({ product: products, barcode: productBarcodes })
+      .from(productBarcodes)
+      .innerJoin(products, eq(productBarcodes.productId, products.id))
+      .where(eq(productBarcodes.code, code));
+    return match;
+  }
+
+  async getProductBarcodes(productId: number): Promise<ProductBarcode[]> {
+    return await this.executor
+      .select()
+      .from(productBarcodes)
+      .where(eq(productBarcodes.productId, productId))
+      .orderBy(productBarcodes.id);
+  }
+
+  async getAllProductBarcodes(): Promise<ProductBarcode[]> {
+    return await this.executor.select().from(productBarcodes).orderBy(productBarcodes.code);
+  }
+
+  async getProductBarcodesByCodes(codes: string[]): Promise<ProductBarcode[]> {
+    if (codes.length === 0) return [];
+    return await this.executor.select().from(productBarcodes).where(inArray(productBarcodes.code, codes));
+  }
+
+  async replaceProductBarcodes(
+    productId: number,
+    barcodes: Omit<InsertProductBarcode, "productId">[],
+  ): Promise<ProductBarcode[]> {
+    await this.executor.delete(productBarcodes).where(eq(productBarcodes.productId, productId));
+    if (barcodes.length === 0) return [];
+    return await this.executor
+      .insert(productBarcodes)
+      .values(barcodes.map(barcode => ({ ...barcode, productId })))
+      .returning();
+  }
+
+  // Location operations
+  async getLocation(id: number): Promise<Location | undefined> {
+    const [location] = await this.executor.select().from(locations).where(eq(locations.id, id));
+    return location || undefined;
+  }
+
+  async createLocation(insertLocation: InsertLocation): Promise<Location> {
+    const [location] = await this.executor
+      .insert(locations)
+      .values({ ...insertLocation, code: formatLocationCode(insertLocation) })
+      .returning();
+    return location;
+  }
+
+  async updateLocation(id: number, updates: Partial<InsertLocation>): Promise<Location | undefined> {
+    const existing = await this.getLocation(id);
+    if (!existing) return undefined;
+
+    // The code follows the address, so it is rebuilt from the merged fields
+    const merged = { ...existing, ...updates };
+    const [location] = await this.executor
+      .update(locations)
+      .set({ ...updates, code: formatLocationCode(merged), updatedAt: new Date() })
+      .where(eq(locations.id, id))
+      .returning();
+    return location;
+  }
+
+  async deleteLocation(id: number): Promise<void> {
+    await this.executor.delete(locations).where(eq(locations.id, id));
+  }
+
+  async getAllLocations(): Promise<Location[]> {
+    return await this.executor
+      .select()
+      .from(locations)
+      .orderBy(asc(locations.aisle), asc(locations.tower), asc(locations.level), asc(locations.position));
+  }
+
+  async isLocationInUse(id: number): Promise<boolean> {
+    const [picoResult] = await this.executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(picos)
+      .where(eq(picos.locationId, id));
+    const [stockResult] = await this.executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(paletizadoStock)
+      .where(eq(paletizadoStock.locationId, id));
+    return (picoResult?.count ?? 0) + (stockResult?.count ?? 0) > 0;
+  }
+
   // Pico operations
-  async getPico(id: number): Promise<PicoWithProduct | undefined> {
-    const [pico] = await db
+  private selectPicosWithProduct() {
+    return this.executor
       .select()
       .from(picos)
       .leftJoin(products, eq(picos.productId, products.id))
-      .where(eq(picos.id, id));
-    
-    if (!pico || !pico.products) return undefined;
-    
+      .leftJoin(locations, eq(picos.locationId, locations.id))
+      .leftJoin(createdByUsers, eq(picos.createdBy, createdByUsers.id))
+      .leftJoin(updatedByUsers, eq(picos.updatedBy, updatedByUsers.id));
+  }
+
+  private toPicoWithProduct(
+    result: Awaited<ReturnType<DatabaseStorage["selectPicosWithProduct"]>>[number],
+  ): PicoWithProduct | undefined {
+    if (!result.products || !result.locations) return undefined;
+
     return {
-      ...pico.picos,
-      product: pico.products,
+      ...result.picos,
+      product: result.products,
+      location: result.locations,
+      createdByUser: toUserSummary(result.created_by_user),
+      updatedByUser: toUserSummary(result.updated_by_user),
     };
   }
 
+  async getPico(id: number): Promise<PicoWithProduct | undefined> {
+    const [pico] = await this.selectPicosWithProduct().where(eq(picos.id, id));
+    return pico ? this.toPicoWithProduct(pico) : undefined;
+  }
+
+  async getPicoByProductAndLocation(productId: number, locationId: number): Promise<PicoWithProduct | undefined> {
+    const [pico] = await this.selectPicosWithProduct()
+      .where(and(eq(picos.productId, productId), eq(picos.locationId, locationId)));
+    return pico ? this.toPicoWithProduct(pico) : undefined;
+  }
+
   async createPico(insertPico: InsertPico): Promise<Pico> {
-    const [pico] = await db
+    const [pico] = await this.executor
       .insert(picos)
       .values(insertPico)
       .returning();
     return pico;
   }
 
-  async updatePico(id: number, updates: Partial<InsertPico>): Promise<Pico> {
-    const [pico] = await db
+  updatePico(id: number, updates: Partial<InsertPico>): Promise<Pico>;
+  updatePico(id: number, updates: Partial<InsertPico>, expectedVersion: number): Promise<Pico | undefined>;
+  async updatePico(id: number, updates: Partial<InsertPico>, expectedVersion?: number): Promise<Pico | undefined> {
+    const [pico] = await this.executor
       .update(picos)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(picos.id, id))
+      .set({ ...updates, version: sql`${picos.version} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(picos.id, id),
+        expectedVersion !== undefined ? eq(picos.version, expectedVersion) : undefined,
+      ))
       .returning();
     return pico;
   }
 
   async deletePico(id: number): Promise<void> {
-    await db.delete(picos).where(eq(picos.id, id));
+    await this.executor.delete(picos).where(eq(picos.id, id));
   }
 
   async getAllPicos(): Promise<PicoWithProduct[]> {
-    const results = await db
-      .select()
-      .from(picos)
-      .leftJoin(products, eq(picos.productId, products.id))
-      .orderBy(desc(picos.createdAt));
-    
+    const results = await this.selectPicosWithProduct().orderBy(desc(picos.createdAt));
+
+    return results
+      .map(result => this.toPicoWithProduct(result))
+      .filter((pico): pico is PicoWithProduct => !!pico);
+  }
+
+  async getPicosByProductId(productId: number): Promise<PicoWithProduct[]> {
+    const results = await this.selectPicosWithProduct()
+      .where(eq(picos.productId, productId))
+      .orderBy(asc(picos.createdAt));
+
     return results
-      .filter(result => result.products)
-      .map(result => ({
-        ...result.picos,
-        product: result.products!,
-      }));
+      .map(result => this.toPicoWithProduct(result))
+      .filter((pico): pico is PicoWithProduct => !!pico);
   }
 
   // Paletizado Stock operations
-  async getPaletizadoStock(id: number): Promise<PaletizadoStockWithProduct | undefined> {
-    const [stock] = await db
+  private selectPaletizadoStockWithProduct() {
+    return this.executor
       .select()
       .from(paletizadoStock)
       .leftJoin(products, eq(paletizadoStock.productId, products.id))
-      .where(eq(paletizadoStock.id, id));
-    
-    if (!stock || !stock.products) return undefined;
-    
-    return {
-      ...stock.paletizado_stock,
-      product: stock.products,
-    };
+      .leftJoin(locations, eq(paletizadoStock.locationId, locations.id))
+      .leftJoin(createdByUsers, eq(paletizadoStock.createdBy, createdByUsers.id))
+      .leftJoin(updatedByUsers, eq(paletizadoStock.updatedBy, updatedByUsers.id));
   }
 
-  async getPaletizadoStockByProductId(productId: number): Promise<PaletizadoStockWithProduct | undefined> {
-    const [stock] = await db
-      .select()
-      .from(paletizadoStock)
-      .leftJoin(products, eq(paletizadoStock.productId, products.id))
-      .where(eq(paletizadoStock.productId, productId));
-    
-    if (!stock || !stock.products) return undefined;
-    
+  private toPaletizadoStockWithProduct(
+    result: Awaited<ReturnType<DatabaseStorage["selectPaletizadoStockWithProduct"]>>[number],
+  ): PaletizadoStockWithProduct | undefined {
+    if (!result.products) return undefined;
+
     return {
-      ...stock.paletizado_stock,
-      product: stock.products,
+      ...result.paletizado_stock,
+      product: result.products,
+      location: result.locations,
+      createdByUser: toUserSummary(result.created_by_user),
+      updatedByUser: toUserSummary(result.updated_by_user),
     };
   }
 
+  async getPaletizadoStock(id: number): Promise<PaletizadoStockWithProduct | undefined> {
+    const [stock] = await this.selectPaletizadoStockWithProduct()
+      .where(eq(paletizadoStock.id, id));
+    return stock ? this.toPaletizadoStockWithProduct(stock) : undefined;
+  }
+
+  async getPaletizadoStockByProductId(productId: number): Promise<PaletizadoStockWithProduct[]> {
+    const results = await this.selectPaletizadoStockWithProduct()
+      .where(eq(paletizadoStock.productId, productId))
+      .orderBy(asc(paletizadoStock.createdAt));
+
+    return results
+      .map(result => this.toPaletizadoStockWithProduct(result))
+      .filter((stock): stock is PaletizadoStockWithProduct => !!stock);
+  }
+
+  async findPaletizadoStock(
+    productId: number,
+    locationId: number | null,
+    lot: string | null,
+  ): Promise<PaletizadoStockWithProduct | undefined> {
+    const [stock] = await this.selectPaletizadoStockWithProduct()
+      .where(and(
+        eq(paletizadoStock.productId, productId),
+        locationId === null ? isNull(paletizadoStock.locationId) : eq(paletizadoStock.locationId, locationId),
+        lot === null ? isNull(paletizadoStock.lot) : eq(paletizadoStock.lot, lot),
+      ));
+    return stock ? this.toPaletizadoStockWithProduct(stock) : undefined;
+  }
+
   async createPaletizadoStock(insertStock: InsertPaletizadoStock): Promise<PaletizadoStock> {
-    const [stock] = await db
+    const [stock] = await this.executor
       .insert(paletizadoStock)
       .values(insertStock)
       .returning();
     return stock;
   }
 
-  async updatePaletizadoStock(id: number, updates: Partial<InsertPaletizadoStock>): Promise<PaletizadoStock> {
-    const [stock] = await db
+  updatePaletizadoStock(id: number, updates: Partial<InsertPaletizadoStock>): Promise<PaletizadoStock>;
+  updatePaletizadoStock(id: number, updates: Partial<InsertPaletizadoStock>, expectedVersion: number): Promise<PaletizadoStock | undefined>;
+  async updatePaletizadoStock(id: number, updates: Partial<InsertPaletizadoStock>, expectedVersion?: number): Promise<PaletizadoStock | undefined> {
+    const [stock] = await this.executor
       .update(paletizadoStock)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(paletizadoStock.id, id))
+      .set({ ...updates, version: sql`${paletizadoStock.version} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(paletizadoStock.id, id),
+        expectedVersion !== undefined ? eq(paletizadoStock.version, expectedVersion) : undefined,
+      ))
+      .returning();
+    return stock;
+  }
+
+  async withdrawPaletizadoPallets(id: number, pallets: number, updatedBy?: number): Promise<PaletizadoStock | undefined> {
+    const [stock] = await this.executor
+      .update(paletizadoStock)
+      .set({
+        quantity: sql`${paletizadoStock.quantity} - ${pallets}`,
+        version: sql`${paletizadoStock.version} + 1`,
+        updatedBy,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(paletizadoStock.id, id), gte(paletizadoStock.quantity, pallets)))
       .returning();
     return stock;
   }
 
   async deletePaletizadoStock(id: number): Promise<void> {
-    await db.delete(paletizadoStock).where(eq(paletizadoStock.id, id));
+    await this.executor.delete(paletizadoStock).where(eq(paletizadoStock.id, id));
   }
 
   async getAllPaletizadoStock(): Promise<PaletizadoStockWithProduct[]> {
-    const results = await db
-      .select()
-      .from(paletizadoStock)
-      .leftJoin(products, eq(paletizadoStock.productId, products.id))
+    const results = await this.selectPaletizadoStockWithProduct()
       .orderBy(desc(paletizadoStock.createdAt));
-    
+
     return results
-      .filter(result => result.products)
-      .map(result => ({
-        ...result.paletizado_stock,
-        product: result.products!,
-      }));
+      .map(result => this.toPaletizadoStockWithProduct(result))
+      .filter((stock): stock is PaletizadoStockWithProduct => !!stock);
+  }
+
+  // Expiry operations
+  async getExpiringStock(until: string): Promise<ExpiringStockItem[]> {
+    // Already expired records are included too, they are the most urgent ones
+    const picoResults = await this.selectPicosWithProduct()
+      .where(and(isNotNull(picos.expiryDate), lte(picos.expiryDate, until)));
+    const stockResults = await this.selectPaletizadoStockWithProduct()
+      .where(and(
+        isNotNull(paletizadoStock.expiryDate),
+        lte(paletizadoStock.expiryDate, until),
+        sql`${paletizadoStock.quantity} > 0`,
+      ));
+
+    const items: ExpiringStockItem[] = [
+      ...picoResults
+        .map(result => this.toPicoWithProduct(result))
+        .filter((pico): pico is PicoWithProduct => !!pico)
+        .map(pico => ({
+          itemType: "pico" as const,
+          id: pico.id,
+          product: pico.product,
+          location: pico.location,
+          lot: pico.lot,
+          expiryDate: pico.expiryDate!,
+          quantity: pico.totalUnits,
+        })),
+      ...stockResults
+        .map(result => this.toPaletizadoStockWithProduct(result))
+        .filter((stock): stock is PaletizadoStockWithProduct => !!stock)
+        .map(stock => ({
+          itemType: "paletizado" as const,
+          id: stock.id,
+          product: stock.product,
+          location: stock.location,
+          lot: stock.lot,
+          expiryDate: stock.expiryDate!,
+          quantity: stock.quantity,
+        })),
+    ];
+
+    return sortByFefo(items);
   }
 
   // Activity Log operations
   async createActivityLog(insertActivity: InsertActivityLog): Promise<ActivityLog> {
     try {
-      const [activity] = await db
+      const [activity] = await this.executor
         .insert(activityLog)
         .values(insertActivity)
         .returning();
@@ -290,49 +683,693 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getRecentActivity(limit: number = 10): Promise<ActivityLog[]> {
-    return await db
+  async createStockMovement(movement: StockMovement): Promise<ActivityLog> {
+    const delta = movement.newQuantity - movement.previousQuantity;
+
+    return this.createActivityLog({
+      type: delta > 0 ? "entry" : delta < 0 ? "exit" : "update",
+      itemType: movement.itemType,
+      productId: movement.product.id,
+      productCode: movement.product.code,
+      productDescription: movement.product.description,
+      quantity: Math.abs(delta),
+      previousQuantity: movement.previousQuantity,
+      newQuantity: movement.newQuantity,
+      delta,
+      reason: movement.reason,
+      userId: movement.userId ?? null,
+      transferId: movement.transferId ?? null,
+      transferOrderId: movement.transferOrderId ?? null,
+      category: movement.product.category,
+    });
+  }
+
+  private selectActivityWithUser() {
+    return this.executor
       .select()
       .from(activityLog)
+      .leftJoin(users, eq(activityLog.userId, users.id));
+  }
+
+  private toActivityLogWithUser(
+    result: Awaited<ReturnType<DatabaseStorage["selectActivityWithUser"]>>[number],
+  ): ActivityLogWithUser {
+    return {
+      ...result.activity_log,
+      user: toUserSummary(result.users),
+    };
+  }
+
+  async getRecentActivity(limit: number = 10): Promise<ActivityLogWithUser[]> {
+    const results = await this.selectActivityWithUser()
       .orderBy(desc(activityLog.createdAt))
       .limit(limit);
+    return results.map(result => this.toActivityLogWithUser(result));
+  }
+
+  private activityLogConditions({ search, category, from, to, type, itemType, productCode, userId }: ActivityLogFilters) {
+    const conditions = [];
+    if (search) {
+      const pattern = `%${search}%`;
+      conditions.push(or(ilike(activityLog.productCode, pattern), ilike(activityLog.productDescription, pattern)));
+    }
+    if (category && category !== "all") {
+      conditions.push(eq(activityLog.category, category as Product["category"]));
+    }
+    if (from) {
+      conditions.push(gte(activityLog.createdAt, new Date(`${from}T00:00:00.000Z`)));
+    }
+    if (to) {
+      conditions.push(lte(activityLog.createdAt, new Date(`${to}T23:59:59.999Z`)));
+    }
+    if (type) {
+      conditions.push(eq(activityLog.type, type));
+    }
+    if (itemType) {
+      conditions.push(eq(activityLog.itemType, itemType));
+    }
+    if (productCode) {
+      conditions.push(eq(activityLog.productCode, productCode));
+    }
+    if (userId) {
+      conditions.push(eq(activityLog.userId, userId));
+    }
+    return conditions;
+  }
+
+  async getActivityLog(filters: ActivityLogFilters): Promise<ActivityLogWithUser[]> {
+    const results = await this.selectActivityWithUser()
+      .where(and(...this.activityLogConditions(filters)))
+      .orderBy(desc(activityLog.createdAt));
+    return results.map(result => this.toActivityLogWithUser(result));
+  }
+
+  // Keyset paging on the id, which grows in insertion order, so new movements don't shift later pages
+  async getActivityLogPage(filters: ActivityLogFilters, cursor: number | undefined, limit: number): Promise<ActivityLogPage> {
+    const conditions = this.activityLogConditions(filters);
+    if (cursor) {
+      conditions.push(lt(activityLog.id, cursor));
+    }
+
+    const results = await this.selectActivityWithUser()
+      .where(and(...conditions))
+      .orderBy(desc(activityLog.id))
+      .limit(limit + 1);
+    const items = results.slice(0, limit).map(result => this.toActivityLogWithUser(result));
+    return {
+      items,
+      nextCursor: results.length > limit ? items[items.length - 1].id : null,
+    };
+  }
+
+  async getProductStockAt(productId: number, at: Date): Promise<ProductStockAt> {
+    // Replay the ledger up to the given moment, per item type
+    const results = await this.executor
+      .select({
+        itemType: activityLog.itemType,
+        balance: sql<number>`coalesce(sum(${activityLog.delta}), 0)::int`,
+      })
+      .from(activityLog)
+      .where(and(eq(activityLog.productId, productId), lte(activityLog.createdAt, at)))
+      .groupBy(activityLog.itemType);
+
+    const balanceOf = (itemType: string) =>
+      results.find(result => result.itemType === itemType)?.balance ?? 0;
+
+    return {
+      productId,
+      at: at.toISOString(),
+      picoUnits: balanceOf("pico"),
+      paletizadoPallets: balanceOf("paletizado"),
+    };
+  }
+
+  async getProductBalanceHistory(productId: number): Promise<ProductBalancePoint[]> {
+    const movements = await this.executor
+      .select({ itemType: activityLog.itemType, delta: activityLog.delta, createdAt: activityLog.createdAt })
+      .from(activityLog)
+      .where(eq(activityLog.productId, productId))
+      .orderBy(asc(activityLog.createdAt), asc(activityLog.id));
+
+    // Running sums per item type, one point per movement; opening balances are dated before the first movement
+    let picoUnits = 0;
+    let paletizadoPallets = 0;
+    return movements.map(movement => {
+      if (movement.itemType === "pico") {
+        picoUnits += movement.delta;
+      } else {
+        paletizadoPallets += movement.delta;
+      }
+      return { at: (movement.createdAt ?? new Date()).toISOString(), picoUnits, paletizadoPallets };
+    });
+  }
+
+  // Replenishment operations
+  async getProductStockLevels(): Promise<ProductStockLevel[]> {
+    const picoTotals = this.executor
+      .select({
+        productId: picos.productId,
+        units: sql<number>`sum(${picos.totalUnits})::int`.as("units"),
+      })
+      .from(picos)
+      .groupBy(picos.productId)
+      .as("pico_totals");
+
+    const paletizadoTotals = this.executor
+      .select({
+        productId: paletizadoStock.productId,
+        pallets: sql<number>`sum(${paletizadoStock.quantity})::int`.as("pallets"),
+      })
+      .from(paletizadoStock)
+      .groupBy(paletizadoStock.productId)
+      .as("paletizado_totals");
+
+    // Only products with at least one minimum are evaluated
+    const results = await this.executor
+      .select({
+        product: products,
+        picoUnits: picoTotals.units,
+        paletizadoPallets: paletizadoTotals.pallets,
+      })
+      .from(products)
+      .leftJoin(picoTotals, eq(products.id, picoTotals.productId))
+      .leftJoin(paletizadoTotals, eq(products.id, paletizadoTotals.productId))
+      .where(or(isNotNull(products.minPicoUnits), isNotNull(products.minPaletizadoPallets)));
+
+    return results.map(result => ({
+      product: result.product,
+      picoUnits: result.picoUnits ?? 0,
+      paletizadoPallets: result.paletizadoPallets ?? 0,
+    }));
+  }
+
+  // Cycle count operations
+  async getAllCountSessions(): Promise<CountSessionSummary[]> {
+    const results = await this.executor
+      .select({
+        session: countSessions,
+        createdByUser: createdByUsers,
+        itemCount: sql<number>`count(${countSessionItems.id})::int`,
+        countedCount: sql<number>`count(${countSessionItems.countedQuantity})::int`,
+      })
+      .from(countSessions)
+      .leftJoin(countSessionItems, eq(countSessionItems.sessionId, countSessions.id))
+      .leftJoin(createdByUsers, eq(countSessions.createdBy, createdByUsers.id))
+      .groupBy(countSessions.id, createdByUsers.id)
+      .orderBy(desc(countSessions.createdAt));
+
+    return results.map(result => ({
+      ...result.session,
+      itemCount: result.itemCount,
+      countedCount: result.countedCount,
+      createdByUser: toUserSummary(result.createdByUser),
+    }));
+  }
+
+  async getCountSession(id: number): Promise<CountSessionWithItems | undefined> {
+    const [result] = await this.executor
+      .select()
+      .from(countSessions)
+      .leftJoin(createdByUsers, eq(countSessions.createdBy, createdByUsers.id))
+      .leftJoin(approvedByUsers, eq(countSessions.approvedBy, approvedByUsers.id))
+      .where(eq(countSessions.id, id));
+    if (!result) return undefined;
+
+    // Items in walking order: by address, records without address last
+    const itemResults = await this.executor
+      .select()
+      .from(countSessionItems)
+      .innerJoin(products, eq(countSessionItems.productId, products.id))
+      .leftJoin(locations, eq(countSessionItems.locationId, locations.id))
+      .leftJoin(users, eq(countSessionItems.countedBy, users.id))
+      .where(eq(countSessionItems.sessionId, id))
+      .orderBy(sql`${locations.code} asc nulls last`, products.code, countSessionItems.id);
+
+    const items: CountSessionItemWithProduct[] = itemResults.map(item => ({
+      ...item.count_session_items,
+      product: item.products,
+      location: item.locations,
+      countedByUser: toUserSummary(item.users),
+    }));
+
+    return {
+      ...result.count_sessions,
+      items,
+      createdByUser: toUserSummary(result.created_by_user),
+      approvedByUser: toUserSummary(result.approved_by_user),
+    };
+  }
+
+  async createCountSession(
+    session: InsertCountSession,
+    items: Omit<InsertCountSessionItem, "sessionId">[],
+  ): Promise<CountSession> {
+    const [created] = await this.executor
+      .insert(countSessions)
+      .values(session)
+      .returning();
+    if (items.length > 0) {
+      await this.executor
+        .insert(countSessionItems)
+        .values(items.map(item => ({ ...item, sessionId: created.id })));
+    }
+    return created;
+  }
+
+  updateCountSession(id: number, updates: Partial<InsertCountSession>): Promise<CountSession>;
+  updateCountSession(id: number, updates: Partial<InsertCountSession>, expectedStatus: CountSessionStatus): Promise<CountSession | undefined>;
+  async updateCountSession(id: number, updates: Partial<InsertCountSession>, expectedStatus?: CountSessionStatus): Promise<CountSession | undefined> {
+    const [session] = await this.executor
+      .update(countSessions)
+      .set(updates)
+      .where(and(
+        eq(countSessions.id, id),
+        expectedStatus !== undefined ? eq(countSessions.status, expectedStatus) : undefined,
+      ))
+      .returning();
+    return session;
+  }
+
+  async getCountSessionItem(id: number): Promise<CountSessionItem | undefined> {
+    const [item] = await this.executor
+      .select()
+      .from(countSessionItems)
+      .where(eq(countSessionItems.id, id));
+    return item || undefined;
+  }
+
+  async updateCountSessionItem(id: number, updates: Partial<InsertCountSessionItem>): Promise<CountSessionItem> {
+    const [item] = await this.executor
+      .update(countSessionItems)
+      .set(updates)
+      .where(eq(countSessionItems.id, id))
+      .returning();
+    return item;
+  }
+
+  // Inbound receiving operations
+  async getAllInboundReceipts(): Promise<InboundReceiptSummary[]> {
+    const results = await this.executor
+      .select({
+        receipt: inboundReceipts,
+        createdByUser: createdByUsers,
+        lineCount: sql<number>`count(${inboundReceiptLines.id})::int`,
+        expectedPallets: sql<number>`coalesce(sum(${inboundReceiptLines.expectedPallets}), 0)::int`,
+        receivedPallets: sql<number>`coalesce(sum(${inboundReceiptLines.receivedPallets}), 0)::int`,
+      })
+      .from(inboundReceipts)
+      .leftJoin(inboundReceiptLines, eq(inboundReceiptLines.receiptId, inboundReceipts.id))
+      .leftJoin(createdByUsers, eq(inboundReceipts.createdBy, createdByUsers.id))
+      .groupBy(inboundReceipts.id, createdByUsers.id)
+      .orderBy(desc(inboundReceipts.createdAt));
+
+    return results.map(result => ({
+      ...result.receipt,
+      lineCount: result.lineCount,
+      expectedPallets: result.expectedPallets,
+      receivedPallets: result.receivedPallets,
+      createdByUser: toUserSummary(result.createdByUser),
+    }));
+  }
+
+  async getInboundReceipt(id: number): Promise<InboundReceiptWithLines | undefined> {
+    const [result] = await this.executor
+      .select()
+      .from(inboundReceipts)
+      .leftJoin(createdByUsers, eq(inboundReceipts.createdBy, createdByUsers.id))
+      .leftJoin(receivedByUsers, eq(inboundReceipts.receivedBy, receivedByUsers.id))
+      .where(eq(inboundReceipts.id, id));
+    if (!result) return undefined;
+
+    const lineResults = await this.executor
+      .select()
+      .from(inboundReceiptLines)
+      .innerJoin(products, eq(inboundReceiptLines.productId, products.id))
+      .leftJoin(locations, eq(inboundReceiptLines.locationId, locations.id))
+      .where(eq(inboundReceiptLines.receiptId, id))
+      .orderBy(inboundReceiptLines.id);
+
+    return {
+      ...result.inbound_receipts,
+      lines: lineResults.map(line => ({
+        ...line.inbound_receipt_lines,
+        product: line.products,
+        location: line.locations,
+      })),
+      createdByUser: toUserSummary(result.created_by_user),
+      receivedByUser: toUserSummary(result.received_by_user),
+    };
+  }
+
+  async getInboundReceiptByDocument(supplier: string, documentNumber: string): Promise<InboundReceipt | undefined> {
+    const [receipt] = await this.executor
+      .select()
+      .from(inboundReceipts)
+      .where(and(eq(inboundReceipts.supplier, supplier), eq(inboundReceipts.documentNumber, documentNumber)));
+    return receipt || undefined;
+  }
+
+  async createInboundReceipt(
+    receipt: InsertInboundReceipt,
+    lines: Omit<InsertInboundReceiptLine, "receiptId">[],
+  ): Promise<InboundReceipt> {
+    const [created] = await this.executor
+      .insert(inboundReceipts)
+      .values(receipt)
+      .returning();
+    await this.executor
+      .insert(inboundReceiptLines)
+      .values(lines.map(line => ({ ...line, receiptId: created.id })));
+    return created;
+  }
+
+  updateInboundReceipt(id: number, updates: Partial<InsertInboundReceipt>): Promise<InboundReceipt>;
+  updateInboundReceipt(id: number, updates: Partial<InsertInboundReceipt>, expectedStatus: InboundStatus): Promise<InboundReceipt | undefined>;
+  async updateInboundReceipt(id: number, updates: Partial<InsertInboundReceipt>, expectedStatus?: InboundStatus): Promise<InboundReceipt | undefined> {
+    const [receipt] = await this.executor
+      .update(inboundReceipts)
+      .set(updates)
+      .where(and(
+        eq(inboundReceipts.id, id),
+        expectedStatus !== undefined ? eq(inboundReceipts.status, expectedStatus) : undefined,
+      ))
+      .returning();
+    return receipt;
+  }
+
+  async getInboundReceiptLine(id: number): Promise<InboundReceiptLine | undefined> {
+    const [line] = await this.executor
+      .select()
+      .from(inboundReceiptLines)
+      .where(eq(inboundReceiptLines.id, id));
+    return line || undefined;
+  }
+
+  async updateInboundReceiptLine(id: number, updates: Partial<InsertInboundReceiptLine>): Promise<InboundReceiptLine> {
+    const [line] = await this.executor
+      .update(inboundReceiptLines)
+      .set(updates)
+      .where(eq(inboundReceiptLines.id, id))
+      .returning();
+    return line;
+  }
+
+  // Store transfer order operations
+  async getAllTransferOrders(): Promise<TransferOrderSummary[]> {
+    const results = await this.executor
+      .select({
+        order: transferOrders,
+        createdByUser: createdByUsers,
+        lineCount: sql<number>`count(${transferOrderLines.id})::int`,
+        pickedCount: sql<number>`count(${transferOrderLines.pickedQuantity})::int`,
+      })
+      .from(transferOrders)
+      .leftJoin(transferOrderLines, eq(transferOrderLines.orderId, transferOrders.id))
+      .leftJoin(createdByUsers, eq(transferOrders.createdBy, createdByUsers.id))
+      .groupBy(transferOrders.id, createdByUsers.id)
+      .orderBy(desc(transferOrders.createdAt));
+
+    return results.map(result => ({
+      ...result.order,
+      lineCount: result.lineCount,
+      pickedCount: result.pickedCount,
+      createdByUser: toUserSummary(result.createdByUser),
+    }));
+  }
+
+  async getTransferOrder(id: number): Promise<TransferOrderWithLines | undefined> {
+    const [result] = await this.executor
+      .select()
+      .from(transferOrders)
+      .leftJoin(createdByUsers, eq(transferOrders.createdBy, createdByUsers.id))
+      .leftJoin(dispatchedByUsers, eq(transferOrders.dispatchedBy, dispatchedByUsers.id))
+      .where(eq(transferOrders.id, id));
+    if (!result) return undefined;
+
+    const lineResults = await this.executor
+      .select()
+      .from(transferOrderLines)
+      .innerJoin(products, eq(transferOrderLines.productId, products.id))
+      .leftJoin(locations, eq(transferOrderLines.locationId, locations.id))
+      .where(eq(transferOrderLines.orderId, id))
+      .orderBy(transferOrderLines.id);
+
+    return {
+      ...result.transfer_orders,
+      lines: lineResults.map(line => ({
+        ...line.transfer_order_lines,
+        product: line.products,
+        location: line.locations,
+      })),
+      createdByUser: toUserSummary(result.created_by_user),
+      dispatchedByUser: toUserSummary(result.dispatched_by_user),
+    };
+  }
+
+  async createTransferOrder(
+    order: InsertTransferOrder,
+    lines: Omit<InsertTransferOrderLine, "orderId">[],
+  ): Promise<TransferOrder> {
+    const [created] = await this.executor
+      .insert(transferOrders)
+      .values(order)
+      .returning();
+    await this.executor
+      .insert(transferOrderLines)
+      .values(lines.map(line => ({ ...line, orderId: created.id })));
+    return created;
+  }
+
+  updateTransferOrder(id: number, updates: Partial<InsertTransferOrder>): Promise<TransferOrder>;
+  updateTransferOrder(id: number, updates: Partial<InsertTransferOrder>, expectedStatus: TransferOrderStatus): Promise<TransferOrder | undefined>;
+  async updateTransferOrder(id: number, updates: Partial<InsertTransferOrder>, expectedStatus?: TransferOrderStatus): Promise<TransferOrder | undefined> {
+    const [order] = await this.executor
+      .update(transferOrders)
+      .set(updates)
+      .where(and(
+        eq(transferOrders.id, id),
+        expectedStatus !== undefined ? eq(transferOrders.status, expectedStatus) : undefined,
+      ))
+      .returning();
+    return order;
+  }
+
+  async getTransferOrderLine(id: number): Promise<TransferOrderLine | undefined> {
+    const [line] = await this.executor
+      .select()
+      .from(transferOrderLines)
+      .where(eq(transferOrderLines.id, id));
+    return line || undefined;
+  }
+
+  async updateTransferOrderLine(id: number, updates: Partial<InsertTransferOrderLine>): Promise<TransferOrderLine> {
+    const [line] = await this.executor
+      .update(transferOrderLines)
+      .set(updates)
+      .where(eq(transferOrderLines.id, id))
+      .returning();
+    return line;
+  }
+
+  // Pick list operations
+  async getAllPickLists(): Promise<PickListSummary[]> {
+    const results = await this.executor
+      .select({
+        pickList: pickLists,
+        createdByUser: createdByUsers,
+        lineCount: sql<number>`(select count(*) from ${pickListLines} where ${pickListLines.pickListId} = ${pickLists.id})::int`,
+        pickedCount: sql<number>`(select count(${pickListLines.pickedQuantity}) from ${pickListLines} where ${pickListLines.pickListId} = ${pickLists.id})::int`,
+        shortageCount: sql<number>`(select count(*) from ${pickListItems} where ${pickListItems.pickListId} = ${pickLists.id} and ${pickListItems.shortageUnits} > 0)::int`,
+      })
+      .from(pickLists)
+      .leftJoin(createdByUsers, eq(pickLists.createdBy, createdByUsers.id))
+      .orderBy(desc(pickLists.createdAt));
+
+    return results.map(result => ({
+      ...result.pickList,
+      lineCount: result.lineCount,
+      pickedCount: result.pickedCount,
+      shortageCount: result.shortageCount,
+      createdByUser: toUserSummary(result.createdByUser),
+    }));
+  }
+
+  async getPickList(id: number): Promise<PickListWithLines | undefined> {
+    const [result] = await this.executor
+      .select()
+      .from(pickLists)
+      .leftJoin(createdByUsers, eq(pickLists.createdBy, createdByUsers.id))
+      .where(eq(pickLists.id, id));
+    if (!result) return undefined;
+
+    const itemResults = await this.executor
+      .select()
+      .from(pickListItems)
+      .innerJoin(products, eq(pickListItems.productId, products.id))
+      .where(eq(pickListItems.pickListId, id))
+      .orderBy(pickListItems.id);
+
+    const lineResults = await this.executor
+      .select()
+      .from(pickListLines)
+      .innerJoin(products, eq(pickListLines.productId, products.id))
+      .leftJoin(locations, eq(pickListLines.locationId, locations.id))
+      .leftJoin(users, eq(pickListLines.pickedBy, users.id))
+      .where(eq(pickListLines.pickListId, id))
+      .orderBy(pickListLines.sequence);
+
+    return {
+      ...result.pick_lists,
+      items: itemResults.map(item => ({ ...item.pick_list_items, product: item.products })),
+      lines: lineResults.map(line => ({
+        ...line.pick_list_lines,
+        product: line.products,
+        location: line.locations,
+        pickedByUser: toUserSummary(line.users),
+      })),
+      createdByUser: toUserSummary(result.created_by_user),
+    };
+  }
+
+  async createPickList(
+    pickList: InsertPickList,
+    items: Omit<InsertPickListItem, "pickListId">[],
+    lines: Omit<InsertPickListLine, "pickListId">[],
+  ): Promise<PickList> {
+    const [created] = await this.executor
+      .insert(pickLists)
+      .values(pickList)
+      .returning();
+    await this.executor
+      .insert(pickListItems)
+      .values(items.map(item => ({ ...item, pickListId: created.id })));
+    if (lines.length > 0) {
+      await this.executor
+        .insert(pickListLines)
+        .values(lines.map(line => ({ ...line, pickListId: created.id })));
+    }
+    return created;
+  }
+
+  updatePickList(id: number, updates: Partial<InsertPickList>): Promise<PickList>;
+  updatePickList(id: number, updates: Partial<InsertPickList>, expectedStatus: PickListStatus): Promise<PickList | undefined>;
+  async updatePickList(id: number, updates: Partial<InsertPickList>, expectedStatus?: PickListStatus): Promise<PickList | undefined> {
+    const [pickList] = await this.executor
+      .update(pickLists)
+      .set(updates)
+      .where(and(
+        eq(pickLists.id, id),
+        expectedStatus !== undefined ? eq(pickLists.status, expectedStatus) : undefined,
+      ))
+      .returning();
+    return pickList;
+  }
+
+  async lockPickList(id: number): Promise<PickList | undefined> {
+    const [pickList] = await this.executor
+      .select()
+      .from(pickLists)
+      .where(eq(pickLists.id, id))
+      .for("update");
+    return pickList || undefined;
+  }
+
+  async getPickListLine(id: number): Promise<PickListLine | undefined> {
+    const [line] = await this.executor
+      .select()
+      .from(pickListLines)
+      .where(eq(pickListLines.id, id));
+    return line || undefined;
+  }
+
+  async updatePickListLine(id: number, updates: Partial<InsertPickListLine>): Promise<PickListLine> {
+    const [line] = await this.executor
+      .update(pickListLines)
+      .set(updates)
+      .where(eq(pickListLines.id, id))
+      .returning();
+    return line;
+  }
+
+  async pickPickListLine(
+    id: number,
+    pick: Pick<InsertPickListLine, "pickedQuantity" | "pickedBy" | "pickedAt">,
+  ): Promise<PickListLine | undefined> {
+    const [line] = await this.executor
+      .update(pickListLines)
+      .set(pick)
+      .where(and(eq(pickListLines.id, id), isNull(pickListLines.pickedQuantity)))
+      .returning();
+    return line;
+  }
+
+  async countUnpickedPickListLines(pickListId: number): Promise<number> {
+    const [result] = await this.executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(pickListLines)
+      .where(and(eq(pickListLines.pickListId, pickListId), isNull(pickListLines.pickedQuantity)));
+    return result.count;
   }
 
   // Dashboard statistics
+  async getMovementSeries(from: string, to: string, bucket: MovementSeriesBucket): Promise<MovementSeriesPoint[]> {
+    // bucket comes from movementSeriesBuckets, so it is safe to inline into date_trunc
+    const period = sql<string>`to_char(date_trunc('${sql.raw(bucket)}', ${activityLog.createdAt}), 'YYYY-MM-DD')`;
+    const results = await this.executor
+      .select({
+        period,
+        itemType: activityLog.itemType,
+        category: activityLog.category,
+        entries: sql<number>`coalesce(sum(${activityLog.delta}) filter (where ${activityLog.delta} > 0), 0)::int`,
+        exits: sql<number>`coalesce(sum(-${activityLog.delta}) filter (where ${activityLog.delta} < 0), 0)::int`,
+        net: sql<number>`coalesce(sum(${activityLog.delta}), 0)::int`,
+      })
+      .from(activityLog)
+      .where(and(
+        gte(activityLog.createdAt, new Date(`${from}T00:00:00.000Z`)),
+        lte(activityLog.createdAt, new Date(`${to}T23:59:59.999Z`)),
+      ))
+      .groupBy(period, activityLog.itemType, activityLog.category)
+      .orderBy(period);
+
+    return results.map(result => ({ ...result, itemType: result.itemType as ActivityItemType }));
+  }
+
   async getDashboardStats() {
     // Count total picos
-    const [totalPicosResult] = await db
+    const [totalPicosResult] = await this.executor
       .select({ count: sql<number>`count(*)` })
       .from(picos);
     
-    // Count total paletizados
-    const [totalPaletizadosResult] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(paletizadoStock);
+    // Count products with paletizado stock, total pallets and occupied locations
+    const [totalPaletizadosResult] = await this.executor
+      .select({
+        count: sql<number>`count(distinct ${paletizadoStock.productId})::int`,
+        pallets: sql<number>`coalesce(sum(${paletizadoStock.quantity}), 0)::int`,
+        locations: sql<number>`count(distinct ${paletizadoStock.locationId})::int`,
+      })
+      .from(paletizadoStock)
+      .where(sql`${paletizadoStock.quantity} > 0`);
     
     // Count alta rotacao products
-    const [altaRotacaoResult] = await db
+    const [altaRotacaoResult] = await this.executor
       .select({ count: sql<number>`count(*)` })
       .from(products)
       .where(eq(products.category, 'alta_rotacao'));
     
     // Count baixa rotacao products
-    const [baixaRotacaoResult] = await db
+    const [baixaRotacaoResult] = await this.executor
       .select({ count: sql<number>`count(*)` })
       .from(products)
       .where(eq(products.category, 'baixa_rotacao'));
     
     // Get recent entries and exits
-    const recentEntries = await db
-      .select()
-      .from(activityLog)
+    const recentEntries = await this.selectActivityWithUser()
       .where(eq(activityLog.type, 'entry'))
       .orderBy(desc(activityLog.createdAt))
       .limit(5);
     
-    const recentExits = await db
-      .select()
-      .from(activityLog)
+    const recentExits = await this.selectActivityWithUser()
       .where(eq(activityLog.type, 'exit'))
       .orderBy(desc(activityLog.createdAt))
       .limit(5);
@@ -340,10 +1377,12 @@ export class DatabaseStorage implements IStorage {
     return {
       totalPicos: totalPicosResult?.count || 0,
       totalPaletizados: totalPaletizadosResult?.count || 0,
+      totalPallets: totalPaletizadosResult?.pallets || 0,
+      paletizadoLocations: totalPaletizadosResult?.locations || 0,
       altaRotacao: altaRotacaoResult?.count || 0,
       baixaRotacao: baixaRotacaoResult?.count || 0,
-      recentEntries,
-      recentExits,
+      recentEntries: recentEntries.map(result => this.toActivityLogWithUser(result)),
+      recentExits: recentExits.map(result => this.toActivityLogWithUser(result)),
     };
   }
 }
@@ -5,17 +5,22 @@ import {
   boolean,
   integer,
   timestamp,
+  date,
   varchar,
   decimal,
   pgEnum,
+  index,
+  unique,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { uoms } from "./uom";
 
 // Enums
 export const userRoleEnum = pgEnum("user_role", ["administrador", "armazenista"]);
 export const categoryEnum = pgEnum("category", ["alta_rotacao", "baixa_rotacao"]);
+export const locationTypeEnum = pgEnum("location_type", ["picking", "porta_palete"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -37,7 +42,42 @@ export const products = pgTable("products", {
   description: text("description").notNull(),
   quantityBases: integer("quantity_bases").notNull(),
   unitsPerBase: integer("units_per_base").notNull(),
+  unitsPerCase: integer("units_per_case"), // optional case level between unit and base
   category: categoryEnum("category").notNull(),
+  // Reorder thresholds; null means no threshold for that stock type
+  minPicoUnits: integer("min_pico_units"),
+  maxPicoUnits: integer("max_pico_units"),
+  minPaletizadoPallets: integer("min_paletizado_pallets"),
+  maxPaletizadoPallets: integer("max_paletizado_pallets"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const barcodeTypeEnum = pgEnum("barcode_type", ["ean13", "dun14", "outro"]);
+
+// Alternate codes that identify a product, e.g. the supplier's EAN-13 (unit) or DUN-14 (case)
+export const productBarcodes = pgTable("product_barcodes", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  code: text("code").notNull().unique(),
+  type: barcodeTypeEnum("type").notNull(),
+  units: integer("units").notNull().default(1), // units in one scan, e.g. the case quantity of a DUN-14
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("product_barcodes_product_idx").on(table.productId),
+]);
+
+// Locations table: hierarchical warehouse addresses (rua, torre, nível, posição)
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // derived from the address, e.g. R01-T03-N02-P01
+  aisle: varchar("aisle", { length: 4 }).notNull(),
+  tower: varchar("tower", { length: 4 }).notNull(),
+  level: varchar("level", { length: 4 }).notNull(),
+  position: varchar("position", { length: 4 }).notNull(),
+  type: locationTypeEnum("type").notNull(),
+  capacity: integer("capacity"), // bases for picking, pallets for porta_palete
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -49,41 +89,282 @@ export const picos = pgTable("picos", {
   bases: integer("bases").notNull().default(0),
   looseUnits: integer("loose_units").notNull().default(0),
   totalUnits: integer("total_units").notNull(),
-  towerLocation: varchar("tower_location", { length: 2 }).notNull(),
+  locationId: integer("location_id").references(() => locations.id).notNull(),
+  lot: text("lot"),
+  expiryDate: date("expiry_date"), // YYYY-MM-DD
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  version: integer("version").notNull().default(1), // bumped on every update (optimistic locking)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Replenishment tops up the pico of a product at an address, so there is at most one
+  unique("picos_product_location_unique").on(table.productId, table.locationId),
+]);
 
-// Paletizado Stock table
+// Paletizado Stock table: one record per product, location and lot
 export const paletizadoStock = pgTable("paletizado_stock", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").references(() => products.id).notNull(),
   quantity: integer("quantity").notNull().default(0),
+  locationId: integer("location_id").references(() => locations.id),
+  lot: text("lot"),
+  expiryDate: date("expiry_date"), // YYYY-MM-DD
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  version: integer("version").notNull().default(1), // bumped on every update (optimistic locking)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  unique("paletizado_stock_product_location_lot_unique")
+    .on(table.productId, table.locationId, table.lot)
+    .nullsNotDistinct(),
+]);
 
-// Activity Log table for tracking entries and exits
+// Activity Log table: stock movement ledger for every change to picos and paletizados.
+// Quantities are in units for picos and in pallets for paletizados.
 export const activityLog = pgTable("activity_log", {
   id: serial("id").primaryKey(),
-  type: text("type").notNull(), // 'entry' or 'exit'
+  type: text("type").notNull(), // 'entry', 'exit' or 'update' (derived from delta)
   itemType: text("item_type").notNull(), // 'pico' or 'paletizado'
+  productId: integer("product_id").references(() => products.id, { onDelete: "set null" }),
   productCode: text("product_code").notNull(),
   productDescription: text("product_description").notNull(),
-  quantity: integer("quantity").notNull(),
+  quantity: integer("quantity").notNull(), // absolute value of delta
+  previousQuantity: integer("previous_quantity").notNull().default(0),
+  newQuantity: integer("new_quantity").notNull().default(0),
+  delta: integer("delta").notNull().default(0),
+  reason: text("reason").notNull().default("ajuste"), // see movementReasons
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  transferId: text("transfer_id"), // links the legs of a transfer between pico and paletizado
+  transferOrderId: integer("transfer_order_id").references(() => transferOrders.id, { onDelete: "set null" }),
   category: categoryEnum("category").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("activity_log_product_created_idx").on(table.productId, table.createdAt),
+  index("activity_log_transfer_idx").on(table.transferId),
+  index("activity_log_transfer_order_idx").on(table.transferOrderId),
+  index("activity_log_created_idx").on(table.createdAt),
+]);
+
+export const countSessionStatusEnum = pgEnum("count_session_status", [
+  "open",
+  "submitted",
+  "approved",
+  "cancelled",
+]);
+
+// Cycle count (inventário) sessions: expected quantities are snapshotted when the session is created
+export const countSessions = pgTable("count_sessions", {
+  id: serial("id").primaryKey(),
+  description: text("description").notNull(),
+  blind: boolean("blind").notNull().default(false), // operators do not see expected quantities
+  status: countSessionStatusEnum("status").notNull().default("open"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  approvedBy: integer("approved_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  submittedAt: timestamp("submitted_at"),
+  closedAt: timestamp("closed_at"), // approved or cancelled
+});
+
+// One line per counted pico or paletizado record; quantities in units for picos, pallets for paletizados
+export const countSessionItems = pgTable("count_session_items", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => countSessions.id, { onDelete: "cascade" }).notNull(),
+  itemType: text("item_type").notNull(), // 'pico' or 'paletizado'
+  picoId: integer("pico_id").references(() => picos.id, { onDelete: "set null" }),
+  paletizadoStockId: integer("paletizado_stock_id").references(() => paletizadoStock.id, { onDelete: "set null" }),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
+  lot: text("lot"),
+  expectedQuantity: integer("expected_quantity").notNull(),
+  countedQuantity: integer("counted_quantity"),
+  countedBy: integer("counted_by").references(() => users.id, { onDelete: "set null" }),
+  countedAt: timestamp("counted_at"),
+}, (table) => [
+  index("count_session_items_session_idx").on(table.sessionId),
+]);
+
+export const inboundStatusEnum = pgEnum("inbound_status", ["expected", "received", "cancelled"]);
+
+// Recebimento: expected supplier delivery, confirmed line by line into paletizado stock
+export const inboundReceipts = pgTable("inbound_receipts", {
+  id: serial("id").primaryKey(),
+  supplier: text("supplier").notNull(),
+  documentNumber: text("document_number").notNull(), // nota fiscal or delivery document
+  expectedDate: date("expected_date"), // YYYY-MM-DD
+  status: inboundStatusEnum("status").notNull().default("expected"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  receivedBy: integer("received_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  receivedAt: timestamp("received_at"),
+}, (table) => [
+  unique("inbound_receipts_supplier_document_unique").on(table.supplier, table.documentNumber),
+]);
+
+// Quantities in pallets; destination, lot and expiry are filled in when the line is received
+export const inboundReceiptLines = pgTable("inbound_receipt_lines", {
+  id: serial("id").primaryKey(),
+  receiptId: integer("receipt_id").references(() => inboundReceipts.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  expectedPallets: integer("expected_pallets").notNull(),
+  receivedPallets: integer("received_pallets"),
+  locationId: integer("location_id").references(() => locations.id),
+  lot: text("lot"),
+  expiryDate: date("expiry_date"),
+}, (table) => [
+  index("inbound_receipt_lines_receipt_idx").on(table.receiptId),
+]);
+
+export const transferOrderStatusEnum = pgEnum("transfer_order_status", ["picking", "dispatched", "cancelled"]);
+
+// Reposição em loja: outbound order to a store, picked from picos/paletizados and dispatched at once
+export const transferOrders = pgTable("transfer_orders", {
+  id: serial("id").primaryKey(),
+  store: text("store").notNull(), // destination store
+  notes: text("notes"),
+  status: transferOrderStatusEnum("status").notNull().default("picking"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  dispatchedBy: integer("dispatched_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  dispatchedAt: timestamp("dispatched_at"),
 });
 
+// One line per product and source type; quantities in units for picos, pallets for paletizados.
+// The picked source is snapshotted (location, lot, expiry) so the dispatch note survives its removal.
+export const transferOrderLines = pgTable("transfer_order_lines", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => transferOrders.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  itemType: text("item_type").notNull(), // 'pico' or 'paletizado'
+  requestedQuantity: integer("requested_quantity").notNull(),
+  pickedQuantity: integer("picked_quantity"),
+  picoId: integer("pico_id").references(() => picos.id, { onDelete: "set null" }),
+  paletizadoStockId: integer("paletizado_stock_id").references(() => paletizadoStock.id, { onDelete: "set null" }),
+  locationId: integer("location_id").references(() => locations.id),
+  lot: text("lot"),
+  expiryDate: date("expiry_date"),
+}, (table) => [
+  index("transfer_order_lines_order_idx").on(table.orderId),
+]);
+
+export const pickListStatusEnum = pgEnum("pick_list_status", ["open", "completed", "cancelled"]);
+
+// Lista de separação generated from requested product quantities (in units)
+export const pickLists = pgTable("pick_lists", {
+  id: serial("id").primaryKey(),
+  reference: text("reference"), // free text, e.g. the customer or store order
+  status: pickListStatusEnum("status").notNull().default("open"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"), // completed or cancelled
+});
+
+// One row per requested product, with what could not be allocated from stock
+export const pickListItems = pgTable("pick_list_items", {
+  id: serial("id").primaryKey(),
+  pickListId: integer("pick_list_id").references(() => pickLists.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  requestedUnits: integer("requested_units").notNull(),
+  shortageUnits: integer("shortage_units").notNull().default(0),
+}, (table) => [
+  index("pick_list_items_pick_list_idx").on(table.pickListId),
+]);
+
+// One stop of the route; quantity in units for picos, pallets for paletizados
+export const pickListLines = pgTable("pick_list_lines", {
+  id: serial("id").primaryKey(),
+  pickListId: integer("pick_list_id").references(() => pickLists.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  sequence: integer("sequence").notNull(), // position in the walking route
+  itemType: text("item_type").notNull(), // 'pico' or 'paletizado'
+  picoId: integer("pico_id").references(() => picos.id, { onDelete: "set null" }),
+  paletizadoStockId: integer("paletizado_stock_id").references(() => paletizadoStock.id, { onDelete: "set null" }),
+  locationId: integer("location_id").references(() => locations.id),
+  lot: text("lot"),
+  expiryDate: date("expiry_date"),
+  quantity: integer("quantity").notNull(),
+  pickedQuantity: integer("picked_quantity"),
+  pickedBy: integer("picked_by").references(() => users.id, { onDelete: "set null" }),
+  pickedAt: timestamp("picked_at"),
+}, (table) => [
+  index("pick_list_lines_pick_list_idx").on(table.pickListId),
+]);
+
+// Reasons recorded on ledger movements
+export const movementReasons = [
+  "entrada",
+  "ajuste",
+  "eliminacao",
+  "reposicao_pico",
+  "baixa_parcial",
+  "ajuste_inventario",
+  "recebimento",
+  "expedicao_loja",
+  "separacao",
+  "saldo_inicial", // opening balance of stock that existed before the ledger
+] as const;
+export type MovementReason = typeof movementReasons[number];
+
+export const movementReasonLabels: Record<MovementReason, string> = {
+  entrada: "Entrada",
+  ajuste: "Ajuste",
+  eliminacao: "Eliminação",
+  reposicao_pico: "Reposição de pico",
+  baixa_parcial: "Baixa parcial",
+  ajuste_inventario: "Ajuste de inventário",
+  recebimento: "Recebimento",
+  expedicao_loja: "Expedição para loja",
+  separacao: "Separação",
+  saldo_inicial: "Saldo inicial",
+};
+
+// Ledger movement direction, derived from the sign of delta
+export const activityTypes = ["entry", "exit", "update"] as const;
+export type ActivityType = typeof activityTypes[number];
+
+export const activityTypeLabels: Record<ActivityType, string> = {
+  entry: "Entrada",
+  exit: "Saída",
+  update: "Atualização",
+};
+
+export const activityItemTypes = ["pico", "paletizado"] as const;
+export type ActivityItemType = typeof activityItemTypes[number];
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
-  createdPicos: many(picos),
-  createdStock: many(paletizadoStock),
+  createdPicos: many(picos, { relationName: "picoCreatedBy" }),
+  updatedPicos: many(picos, { relationName: "picoUpdatedBy" }),
+  createdStock: many(paletizadoStock, { relationName: "stockCreatedBy" }),
+  updatedStock: many(paletizadoStock, { relationName: "stockUpdatedBy" }),
+  activities: many(activityLog),
+  createdCountSessions: many(countSessions, { relationName: "countSessionCreatedBy" }),
+  approvedCountSessions: many(countSessions, { relationName: "countSessionApprovedBy" }),
+  createdInboundReceipts: many(inboundReceipts, { relationName: "inboundCreatedBy" }),
+  receivedInboundReceipts: many(inboundReceipts, { relationName: "inboundReceivedBy" }),
+  createdTransferOrders: many(transferOrders, { relationName: "transferOrderCreatedBy" }),
+  dispatchedTransferOrders: many(transferOrders, { relationName: "transferOrderDispatchedBy" }),
+  createdPickLists: many(pickLists),
 }));
 
 export const productsRelations = relations(products, ({ many }) => ({
   picos: many(picos),
   stock: many(paletizadoStock),
+  activities: many(activityLog),
+  barcodes: many(productBarcodes),
+}));
+
+export const productBarcodesRelations = relations(productBarcodes, ({ one }) => ({
+  product: one(products, {
+    fields: [productBarcodes.productId],
+    references: [products.id],
+  }),
+}));
+
+export const locationsRelations = relations(locations, ({ many }) => ({
+  picos: many(picos),
+  stock: many(paletizadoStock),
 }));
 
 export const picosRelations = relations(picos, ({ one }) => ({
@@ -91,6 +372,20 @@ export const picosRelations = relations(picos, ({ one }) => ({
     fields: [picos.productId],
     references: [products.id],
   }),
+  location: one(locations, {
+    fields: [picos.locationId],
+    references: [locations.id],
+  }),
+  createdByUser: one(users, {
+    fields: [picos.createdBy],
+    references: [users.id],
+    relationName: "picoCreatedBy",
+  }),
+  updatedByUser: one(users, {
+    fields: [picos.updatedBy],
+    references: [users.id],
+    relationName: "picoUpdatedBy",
+  }),
 }));
 
 export const paletizadoStockRelations = relations(paletizadoStock, ({ one }) => ({
@@ -98,6 +393,174 @@ export const paletizadoStockRelations = relations(paletizadoStock, ({ one }) =>
     fields: [paletizadoStock.productId],
     references: [products.id],
   }),
+  location: one(locations, {
+    fields: [paletizadoStock.locationId],
+    references: [locations.id],
+  }),
+  createdByUser: one(users, {
+    fields: [paletizadoStock.createdBy],
+    references: [users.id],
+    relationName: "stockCreatedBy",
+  }),
+  updatedByUser: one(users, {
+    fields: [paletizadoStock.updatedBy],
+    references: [users.id],
+    relationName: "stockUpdatedBy",
+  }),
+}));
+
+export const activityLogRelations = relations(activityLog, ({ one }) => ({
+  product: one(products, {
+    fields: [activityLog.productId],
+    references: [products.id],
+  }),
+  user: one(users, {
+    fields: [activityLog.userId],
+    references: [users.id],
+  }),
+  transferOrder: one(transferOrders, {
+    fields: [activityLog.transferOrderId],
+    references: [transferOrders.id],
+  }),
+}));
+
+export const countSessionsRelations = relations(countSessions, ({ one, many }) => ({
+  items: many(countSessionItems),
+  createdByUser: one(users, {
+    fields: [countSessions.createdBy],
+    references: [users.id],
+    relationName: "countSessionCreatedBy",
+  }),
+  approvedByUser: one(users, {
+    fields: [countSessions.approvedBy],
+    references: [users.id],
+    relationName: "countSessionApprovedBy",
+  }),
+}));
+
+export const countSessionItemsRelations = relations(countSessionItems, ({ one }) => ({
+  session: one(countSessions, {
+    fields: [countSessionItems.sessionId],
+    references: [countSessions.id],
+  }),
+  product: one(products, {
+    fields: [countSessionItems.productId],
+    references: [products.id],
+  }),
+  location: one(locations, {
+    fields: [countSessionItems.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const inboundReceiptsRelations = relations(inboundReceipts, ({ one, many }) => ({
+  lines: many(inboundReceiptLines),
+  createdByUser: one(users, {
+    fields: [inboundReceipts.createdBy],
+    references: [users.id],
+    relationName: "inboundCreatedBy",
+  }),
+  receivedByUser: one(users, {
+    fields: [inboundReceipts.receivedBy],
+    references: [users.id],
+    relationName: "inboundReceivedBy",
+  }),
+}));
+
+export const inboundReceiptLinesRelations = relations(inboundReceiptLines, ({ one }) => ({
+  receipt: one(inboundReceipts, {
+    fields: [inboundReceiptLines.receiptId],
+    references: [inboundReceipts.id],
+  }),
+  product: one(products, {
+    fields: [inboundReceiptLines.productId],
+    references: [products.id],
+  }),
+  location: one(locations, {
+    fields: [inboundReceiptLines.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const transferOrdersRelations = relations(transferOrders, ({ one, many }) => ({
+  lines: many(transferOrderLines),
+  movements: many(activityLog),
+  createdByUser: one(users, {
+    fields: [transferOrders.createdBy],
+    references: [users.id],
+    relationName: "transferOrderCreatedBy",
+  }),
+  dispatchedByUser: one(users, {
+    fields: [transferOrders.dispatchedBy],
+    references: [users.id],
+    relationName: "transferOrderDispatchedBy",
+  }),
+}));
+
+export const transferOrderLinesRelations = relations(transferOrderLines, ({ one }) => ({
+  order: one(transferOrders, {
+    fields: [transferOrderLines.orderId],
+    references: [transferOrders.id],
+  }),
+  product: one(products, {
+    fields: [transferOrderLines.productId],
+    references: [products.id],
+  }),
+  pico: one(picos, {
+    fields: [transferOrderLines.picoId],
+    references: [picos.id],
+  }),
+  paletizadoStock: one(paletizadoStock, {
+    fields: [transferOrderLines.paletizadoStockId],
+    references: [paletizadoStock.id],
+  }),
+  location: one(locations, {
+    fields: [transferOrderLines.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const pickListsRelations = relations(pickLists, ({ one, many }) => ({
+  items: many(pickListItems),
+  lines: many(pickListLines),
+  createdByUser: one(users, {
+    fields: [pickLists.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const pickListItemsRelations = relations(pickListItems, ({ one }) => ({
+  pickList: one(pickLists, {
+    fields: [pickListItems.pickListId],
+    references: [pickLists.id],
+  }),
+  product: one(products, {
+    fields: [pickListItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const pickListLinesRelations = relations(pickListLines, ({ one }) => ({
+  pickList: one(pickLists, {
+    fields: [pickListLines.pickListId],
+    references: [pickLists.id],
+  }),
+  product: one(products, {
+    fields: [pickListLines.productId],
+    references: [products.id],
+  }),
+  pico: one(picos, {
+    fields: [pickListLines.picoId],
+    references: [picos.id],
+  }),
+  paletizadoStock: one(paletizadoStock, {
+    fields: [pickListLines.paletizadoStockId],
+    references: [paletizadoStock.id],
+  }),
+  location: one(locations, {
+    fields: [pickListLines.locationId],
+    references: [locations.id],
+  }),
 }));
 
 // Insert schemas
@@ -107,32 +570,84 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+const stockThreshold = z.number().int().min(0, "Limites de estoque não podem ser negativos").nullable().optional();
+
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  unitsPerCase: z.number().int().positive("Unidades por caixa deve ser maior que zero").nullable().optional(),
+  minPicoUnits: stockThreshold,
+  maxPicoUnits: stockThreshold,
+  minPaletizadoPallets: stockThreshold,
+  maxPaletizadoPallets: stockThreshold,
+});
+
+type StockThresholds = Pick<
+  Product,
+  "minPicoUnits" | "maxPicoUnits" | "minPaletizadoPallets" | "maxPaletizadoPallets"
+>;
+
+// Returns a validation message when a maximum is below its minimum
+export function checkStockThresholds(thresholds: Partial<StockThresholds>): string | null {
+  const { minPicoUnits, maxPicoUnits, minPaletizadoPallets, maxPaletizadoPallets } = thresholds;
+  if (minPicoUnits != null && maxPicoUnits != null && maxPicoUnits < minPicoUnits) {
+    return "Máximo do pico deve ser maior ou igual ao mínimo";
+  }
+  if (minPaletizadoPallets != null && maxPaletizadoPallets != null && maxPaletizadoPallets < minPaletizadoPallets) {
+    return "Máximo de paletes deve ser maior ou igual ao mínimo";
+  }
+  return null;
+}
+
+const addressPart = (label: string) =>
+  z.string().regex(/^[A-Z0-9]{1,4}$/i, `${label} deve ter de 1 a 4 letras ou dígitos`);
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+  code: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  aisle: addressPart("Rua"),
+  tower: addressPart("Torre"),
+  level: addressPart("Nível"),
+  position: addressPart("Posição"),
+  capacity: z.number().int().positive("Capacidade deve ser maior que zero").nullable().optional(),
 });
 
+const lotSchema = z.string().trim().max(50, "Lote deve ter no máximo 50 caracteres").nullable().optional();
+const expiryDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Validade inválida").nullable().optional();
+
 export const insertPicoSchema = createInsertSchema(picos).omit({
   id: true,
+  version: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  towerLocation: z.string().regex(/^\d{2}$/, "Torre deve ter exatamente 2 dígitos (ex: 01, 12)"),
+  locationId: z.number().positive("Endereço é obrigatório"),
+  lot: lotSchema,
+  expiryDate: expiryDateSchema,
 });
 
 export const insertPaletizadoStockSchema = createInsertSchema(paletizadoStock).omit({
   id: true,
+  version: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   productId: z.number().positive("ID do produto é obrigatório"),
   quantity: z.number().min(0, "Quantidade deve ser maior ou igual a zero"),
+  lot: lotSchema,
+  expiryDate: expiryDateSchema,
 });
 
 export const insertActivityLogSchema = createInsertSchema(activityLog).omit({
   id: true,
   createdAt: true,
+}).extend({
+  reason: z.enum(movementReasons),
 });
 
 // Types
@@ -142,22 +657,385 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
+export type ProductBarcode = typeof productBarcodes.$inferSelect;
+export type InsertProductBarcode = typeof productBarcodes.$inferInsert;
+export type BarcodeType = ProductBarcode["type"];
+
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type LocationType = Location["type"];
+
 export type Pico = typeof picos.$inferSelect;
 export type InsertPico = z.infer<typeof insertPicoSchema>;
 
 export type PaletizadoStock = typeof paletizadoStock.$inferSelect;
 export type InsertPaletizadoStock = z.infer<typeof insertPaletizadoStockSchema>;
 
+export type CountSession = typeof countSessions.$inferSelect;
+export type InsertCountSession = typeof countSessions.$inferInsert;
+export type CountSessionStatus = CountSession["status"];
+
+export type CountSessionItem = typeof countSessionItems.$inferSelect;
+export type InsertCountSessionItem = typeof countSessionItems.$inferInsert;
+
+export type InboundReceipt = typeof inboundReceipts.$inferSelect;
+export type InsertInboundReceipt = typeof inboundReceipts.$inferInsert;
+export type InboundStatus = InboundReceipt["status"];
+
+export type InboundReceiptLine = typeof inboundReceiptLines.$inferSelect;
+export type InsertInboundReceiptLine = typeof inboundReceiptLines.$inferInsert;
+
+export type TransferOrder = typeof transferOrders.$inferSelect;
+export type InsertTransferOrder = typeof transferOrders.$inferInsert;
+export type TransferOrderStatus = TransferOrder["status"];
+
+export type TransferOrderLine = typeof transferOrderLines.$inferSelect;
+export type InsertTransferOrderLine = typeof transferOrderLines.$inferInsert;
+
+export type PickList = typeof pickLists.$inferSelect;
+export type InsertPickList = typeof pickLists.$inferInsert;
+export type PickListStatus = PickList["status"];
+
+export type PickListItem = typeof pickListItems.$inferSelect;
+export type InsertPickListItem = typeof pickListItems.$inferInsert;
+
+export type PickListLine = typeof pickListLines.$inferSelect;
+export type InsertPickListLine = typeof pickListLines.$inferInsert;
+
 export type ActivityLog = typeof activityLog.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 
+// A stock change to be recorded in the ledger; type, delta and quantity are derived
+export type StockMovement = {
+  itemType: "pico" | "paletizado";
+  product: Product;
+  previousQuantity: number;
+  newQuantity: number;
+  reason: MovementReason;
+  userId?: number | null;
+  transferId?: string | null;
+  transferOrderId?: number | null;
+};
+
+// Ledger-derived stock of a product at a point in time
+export type ProductStockAt = {
+  productId: number;
+  at: string;
+  picoUnits: number;
+  paletizadoPallets: number;
+};
+
+// Ledger balance right after one movement, replayed the same way as ProductStockAt
+export type ProductBalancePoint = {
+  at: string;
+  picoUnits: number;
+  paletizadoPallets: number;
+};
+
+// Ficha de estoque: catalog data, current stock rows and the balance history of one product
+export type ProductStockCard = {
+  product: Product;
+  barcodes: ProductBarcode[];
+  picos: PicoWithProduct[];
+  paletizadoStock: PaletizadoStockWithProduct[];
+  picoUnits: number;
+  paletizadoPallets: number;
+  totalUnits: number; // picos plus paletizados converted to units
+  balanceHistory: ProductBalancePoint[];
+};
+
+export const locationTypeLabels: Record<LocationType, string> = {
+  picking: "Picking",
+  porta_palete: "Porta-palete",
+};
+
+// Builds the location code from its address, e.g. R01-T03-N02-P01
+export function formatLocationCode(address: Pick<Location, "aisle" | "tower" | "level" | "position">): string {
+  const part = (value: string) => value.toUpperCase().padStart(2, "0");
+  return `R${part(address.aisle)}-T${part(address.tower)}-N${part(address.level)}-P${part(address.position)}`;
+}
+
+// Public user fields shown next to the operations they performed
+export type UserSummary = Pick<User, "id" | "name" | "nickname">;
+
 // Extended types with relations
 export type PicoWithProduct = Pico & {
   product: Product;
+  location: Location;
+  createdByUser: UserSummary | null;
+  updatedByUser: UserSummary | null;
 };
 
 export type PaletizadoStockWithProduct = PaletizadoStock & {
   product: Product;
+  location: Location | null;
+  createdByUser: UserSummary | null;
+  updatedByUser: UserSummary | null;
+};
+
+// Current stock of a product that has reorder thresholds
+export type ProductStockLevel = {
+  product: Product;
+  picoUnits: number;
+  paletizadoPallets: number;
+};
+
+// Product below minimum, with what is missing and how much to replenish up to the maximum
+export type ReplenishmentAlert = ProductStockLevel & {
+  picoShortfall: number;
+  paletizadoShortfall: number;
+  suggestedPicoUnits: number;
+  suggestedPallets: number;
+  urgency: number; // fraction below minimum, weighted by category
+};
+
+// Per-product aggregate of all paletizado stock records
+export type PaletizadoStockSummary = {
+  product: Product;
+  totalQuantity: number;
+  records: number;
+  locations: number;
+};
+
+// Pico or paletizado record whose expiry date falls within the dashboard window
+export type ExpiringStockItem = {
+  itemType: "pico" | "paletizado";
+  id: number;
+  product: Product;
+  location: Location | null;
+  lot: string | null;
+  expiryDate: string;
+  quantity: number; // units for picos, pallets for paletizados
+};
+
+export const categoryLabels: Record<Product["category"], string> = {
+  alta_rotacao: "Alta Rotação",
+  baixa_rotacao: "Baixa Rotação",
+};
+
+export const barcodeTypeLabels: Record<BarcodeType, string> = {
+  ean13: "EAN-13",
+  dun14: "DUN-14",
+  outro: "Outro",
+};
+
+// GS1 check digit of the data digits (weights 3 and 1 alternating from the right)
+export function gtinCheckDigit(digits: string): number {
+  const sum = digits
+    .split("")
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidGtin(code: string): boolean {
+  return /^\d{8,14}$/.test(code) && gtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+// A scanned value resolved to its product; barcode is null when it matched the internal code
+export type ProductBarcodeLookup = {
+  product: Product;
+  barcode: ProductBarcode | null;
+};
+
+// Search and category filters of the inventory and product screens, also applied by the exports
+export type ProductFilters = {
+  search?: string;
+  category?: string; // "all" or a category
+};
+
+// Ledger filters; dates are YYYY-MM-DD and both ends are inclusive
+export type ActivityLogFilters = ProductFilters & {
+  from?: string;
+  to?: string;
+  type?: ActivityType;
+  itemType?: ActivityItemType;
+  productCode?: string; // exact code, unlike search
+  userId?: number;
+};
+
+export function matchesProductFilters(
+  product: Pick<Product, "code" | "description" | "category">,
+  { search = "", category = "all" }: ProductFilters,
+): boolean {
+  const term = search.toLowerCase();
+  const matchesSearch = product.code.toLowerCase().includes(term) ||
+    product.description.toLowerCase().includes(term);
+  return matchesSearch && (category === "all" || product.category === category);
+}
+
+// FEFO (first-expired-first-out): earliest expiry first, records without expiry last
+export function sortByFefo<T extends { expiryDate: string | null }>(items: T[]): T[] {
+  return [...items].sort((a, b) => {
+    if (a.expiryDate === b.expiryDate) return 0;
+    if (!a.expiryDate) return 1;
+    if (!b.expiryDate) return -1;
+    return a.expiryDate.localeCompare(b.expiryDate);
+  });
+}
+
+// Formats a YYYY-MM-DD expiry date as DD/MM/YYYY without timezone shifts
+export function formatExpiryDate(value: string | null): string {
+  if (!value) return "-";
+  const [year, month, day] = value.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+export const countSessionStatusLabels: Record<CountSessionStatus, string> = {
+  open: "Em contagem",
+  submitted: "Aguardando aprovação",
+  approved: "Aprovado",
+  cancelled: "Cancelado",
+};
+
+// expectedQuantity is null while a blind session is being counted by an armazenista
+export type CountSessionItemWithProduct = Omit<CountSessionItem, "expectedQuantity"> & {
+  expectedQuantity: number | null;
+  product: Product;
+  location: Location | null;
+  countedByUser: UserSummary | null;
+};
+
+export type CountSessionWithItems = CountSession & {
+  items: CountSessionItemWithProduct[];
+  createdByUser: UserSummary | null;
+  approvedByUser: UserSummary | null;
+};
+
+export type CountSessionSummary = CountSession & {
+  itemCount: number;
+  countedCount: number;
+  createdByUser: UserSummary | null;
+};
+
+export const inboundStatusLabels: Record<InboundStatus, string> = {
+  expected: "Aguardando",
+  received: "Recebido",
+  cancelled: "Cancelado",
+};
+
+export type InboundReceiptLineWithProduct = InboundReceiptLine & {
+  product: Product;
+  location: Location | null;
+};
+
+export type InboundReceiptWithLines = InboundReceipt & {
+  lines: InboundReceiptLineWithProduct[];
+  createdByUser: UserSummary | null;
+  receivedByUser: UserSummary | null;
+};
+
+export type InboundReceiptSummary = InboundReceipt & {
+  lineCount: number;
+  expectedPallets: number;
+  receivedPallets: number;
+  createdByUser: UserSummary | null;
+};
+
+export const transferOrderStatusLabels: Record<TransferOrderStatus, string> = {
+  picking: "Em separação",
+  dispatched: "Expedido",
+  cancelled: "Cancelado",
+};
+
+export type TransferOrderLineWithProduct = TransferOrderLine & {
+  product: Product;
+  location: Location | null;
+};
+
+export type TransferOrderWithLines = TransferOrder & {
+  lines: TransferOrderLineWithProduct[];
+  createdByUser: UserSummary | null;
+  dispatchedByUser: UserSummary | null;
+};
+
+export type TransferOrderSummary = TransferOrder & {
+  lineCount: number;
+  pickedCount: number;
+  createdByUser: UserSummary | null;
+};
+
+export const pickListStatusLabels: Record<PickListStatus, string> = {
+  open: "Em separação",
+  completed: "Concluída",
+  cancelled: "Cancelada",
+};
+
+export type PickListItemWithProduct = PickListItem & {
+  product: Product;
+};
+
+export type PickListLineWithProduct = PickListLine & {
+  product: Product;
+  location: Location | null;
+  pickedByUser: UserSummary | null;
+};
+
+export type PickListWithLines = PickList & {
+  items: PickListItemWithProduct[];
+  lines: PickListLineWithProduct[];
+  createdByUser: UserSummary | null;
+};
+
+export type PickListSummary = PickList & {
+  lineCount: number;
+  pickedCount: number;
+  shortageCount: number;
+  createdByUser: UserSummary | null;
+};
+
+// Outcome of one spreadsheet row in a product import (line is the row number in the file)
+export type ProductImportRow = {
+  line: number;
+  code: string;
+  description: string;
+  action: "create" | "update" | "skip";
+  errors: string[];
+};
+
+export type ProductImportResult = {
+  dryRun: boolean;
+  rows: ProductImportRow[];
+  created: number;
+  updated: number;
+  skipped: number;
+};
+
+export type ActivityLogWithUser = ActivityLog & {
+  user: UserSummary | null;
+};
+
+// Dashboard time series: entries, exits and net movement per period, item type and category.
+// Periods start on the day, the Monday of the week or the first of the month (YYYY-MM-DD, UTC).
+export const movementSeriesBuckets = ["day", "week", "month"] as const;
+export type MovementSeriesBucket = typeof movementSeriesBuckets[number];
+
+export const movementSeriesBucketLabels: Record<MovementSeriesBucket, string> = {
+  day: "Diário",
+  week: "Semanal",
+  month: "Mensal",
+};
+
+export type MovementSeriesPoint = {
+  period: string;
+  itemType: ActivityItemType;
+  category: Product["category"];
+  entries: number; // units for picos, pallets for paletizados
+  exits: number;
+  net: number;
+};
+
+export type MovementSeries = {
+  from: string;
+  to: string;
+  bucket: MovementSeriesBucket;
+  points: MovementSeriesPoint[];
+};
+
+// One page of the ledger, newest first; nextCursor goes back as ?cursor= for the following page
+export type ActivityLogPage = {
+  items: ActivityLogWithUser[];
+  nextCursor: number | null;
 };
 
 // Login schema
@@ -174,5 +1052,193 @@ export const passwordChangeSchema = z.object({
   path: ["confirmPassword"],
 });
 
+// Repor pico: move pallets from a paletizado stock record into a pico at the given location
+export const replenishPicoSchema = z.object({
+  paletizadoStockId: z.number().int().positive("Selecione o estoque paletizado de origem"),
+  pallets: z.number().int().positive("Quantidade de paletes deve ser maior que zero"),
+  locationId: z.number().positive("Endereço de destino é obrigatório"),
+});
+
+// Baixa parcial: remove a quantity from a pico in any UoM of the product
+export const consumePicoSchema = z.object({
+  quantity: z.number().int().positive("Quantidade deve ser maior que zero"),
+  unit: z.enum(uoms),
+});
+
+// Inventário: scope of a new count session; empty lists mean "all"
+export const createCountSessionSchema = z.object({
+  description: z.string().trim().min(1, "Descrição é obrigatória"),
+  blind: z.boolean().default(false),
+  itemTypes: z.array(z.enum(["pico", "paletizado"])).min(1, "Selecione picos e/ou paletizados"),
+  productIds: z.array(z.number().int().positive()).default([]),
+  locationIds: z.array(z.number().int().positive()).default([]),
+});
+
+export const countItemSchema = z.object({
+  countedQuantity: z.number().int().min(0, "Quantidade contada deve ser maior ou igual a zero"),
+});
+
+// Recebimento: expected delivery with its lines
+export const createInboundReceiptSchema = z.object({
+  supplier: z.string().trim().min(1, "Fornecedor é obrigatório"),
+  documentNumber: z.string().trim().min(1, "Número do documento é obrigatório"),
+  expectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data prevista inválida").nullable().optional(),
+  lines: z.array(z.object({
+    productCode: z.string().min(1, "Produto é obrigatório"),
+    expectedPallets: z.number().int().positive("Paletes esperados devem ser maiores que zero"),
+  })).min(1, "Informe ao menos um item"),
+});
+
+export const receiveInboundLineSchema = z.object({
+  receivedPallets: z.number().int().min(0, "Paletes recebidos devem ser maiores ou iguais a zero"),
+  locationId: z.number().int().positive().nullable().optional(),
+  lot: lotSchema,
+  expiryDate: expiryDateSchema,
+});
+
+// Reposição em loja: order header and requested lines
+export const createTransferOrderSchema = z.object({
+  store: z.string().trim().min(1, "Loja de destino é obrigatória"),
+  notes: z.string().trim().max(500).nullable().optional(),
+  lines: z.array(z.object({
+    productCode: z.string().min(1, "Produto é obrigatório"),
+    itemType: z.enum(["pico", "paletizado"]),
+    requestedQuantity: z.number().int().positive("Quantidade solicitada deve ser maior que zero"),
+  })).min(1, "Informe ao menos um item"),
+});
+
+// Separação: the pico or paletizado record a line is picked from
+export const pickTransferOrderLineSchema = z.object({
+  sourceId: z.number().int().positive("Selecione a origem da separação"),
+  pickedQuantity: z.number().int().min(0, "Quantidade separada deve ser maior ou igual a zero"),
+});
+
+// Lista de separação: requested quantities in any UoM (units by default); repeated codes are summed
+export const createPickListSchema = z.object({
+  reference: z.string().trim().max(100).nullable().optional(),
+  lines: z.array(z.object({
+    productCode: z.string().trim().min(1, "Produto é obrigatório"),
+    quantity: z.number().int().positive("Quantidade deve ser maior que zero"),
+    uom: z.enum(uoms).default("unit"),
+  })).min(1, "Informe ao menos um item"),
+});
+
+export const pickLineSchema = z.object({
+  pickedQuantity: z.number().int().min(0, "Quantidade separada deve ser maior ou igual a zero"),
+});
+
+const barcodeLengths: Partial<Record<BarcodeType, number>> = { ean13: 13, dun14: 14 };
+
+// Códigos alternativos: the submitted list replaces all of the product's barcodes
+export const productBarcodesSchema = z.object({
+  barcodes: z.array(z.object({
+    code: z.string().trim().min(1, "Código de barras é obrigatório").max(50, "Código de barras muito longo"),
+    type: z.enum(barcodeTypeEnum.enumValues),
+    units: z.number().int().positive("Unidades deve ser maior que zero"),
+  }).superRefine((barcode, ctx) => {
+    const length = barcodeLengths[barcode.type];
+    if (length && (barcode.code.length !== length || !isValidGtin(barcode.code))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["code"],
+        message: `${barcodeTypeLabels[barcode.type]} inválido: ${barcode.code}`,
+      });
+    }
+  })).max(20, "Máximo de 20 códigos por produto"),
+});
+
+// Etiquetas: what can be labeled, the barcode symbology and the optional text fields
+export const labelTargets = ["product", "pico", "paletizado", "location"] as const;
+export type LabelTarget = typeof labelTargets[number];
+
+export const labelSymbologies = ["code128", "ean13", "qrcode"] as const;
+export type LabelSymbology = typeof labelSymbologies[number];
+
+export const labelFields = ["description", "category", "unitsPerBase", "location", "lot", "expiryDate", "quantity"] as const;
+export type LabelField = typeof labelFields[number];
+
+export const labelSymbologyLabels: Record<LabelSymbology, string> = {
+  code128: "Code 128",
+  ean13: "EAN-13",
+  qrcode: "QR Code",
+};
+
+export const labelFieldLabels: Record<LabelField, string> = {
+  description: "Descrição",
+  category: "Categoria",
+  unitsPerBase: "Unidades por base",
+  location: "Endereço",
+  lot: "Lote",
+  expiryDate: "Validade",
+  quantity: "Quantidade",
+};
+
+export const labelFormats = ["pdf", "zpl"] as const;
+export type LabelFormat = typeof labelFormats[number];
+
+// Label size in millimetres plus what is printed on it
+export const labelTemplateSchema = z.object({
+  widthMm: z.number().min(20, "Largura mínima de 20 mm").max(200, "Largura máxima de 200 mm"),
+  heightMm: z.number().min(15, "Altura mínima de 15 mm").max(300, "Altura máxima de 300 mm"),
+  symbology: z.enum(labelSymbologies),
+  fields: z.array(z.enum(labelFields)),
+});
+
+export const labelRequestSchema = labelTemplateSchema.extend({
+  target: z.enum(labelTargets),
+  ids: z.array(z.number().int().positive()).min(1, "Selecione ao menos um item").max(500, "Máximo de 500 itens por lote"),
+  format: z.enum(labelFormats),
+  copies: z.number().int().min(1, "Mínimo de 1 cópia").max(100, "Máximo de 100 cópias"),
+});
+
+export type LabelTemplate = z.infer<typeof labelTemplateSchema> & { name: string };
+
+// Common thermal label sizes; the size, symbology and fields can still be changed before printing
+export const labelTemplatePresets: LabelTemplate[] = [
+  { name: "Produto 100 x 50 mm", widthMm: 100, heightMm: 50, symbology: "code128", fields: ["description", "category", "unitsPerBase"] },
+  { name: "Palete 100 x 150 mm", widthMm: 100, heightMm: 150, symbology: "code128", fields: ["description", "location", "lot", "expiryDate", "quantity"] },
+  { name: "Endereço 100 x 30 mm", widthMm: 100, heightMm: 30, symbology: "code128", fields: [] },
+  { name: "QR Code 50 x 50 mm", widthMm: 50, heightMm: 50, symbology: "qrcode", fields: ["description"] },
+];
+
 export type LoginData = z.infer<typeof loginSchema>;
 export type PasswordChangeData = z.infer<typeof passwordChangeSchema>;
+export type ReplenishPicoData = z.infer<typeof replenishPicoSchema>;
+
+export type ConsumePicoData = z.infer<typeof consumePicoSchema>;
+export type CreateCountSessionData = z.infer<typeof createCountSessionSchema>;
+export type CountItemData = z.infer<typeof countItemSchema>;
+export type CreateInboundReceiptData = z.infer<typeof createInboundReceiptSchema>;
+export type ReceiveInboundLineData = z.infer<typeof receiveInboundLineSchema>;
+export type CreateTransferOrderData = z.infer<typeof createTransferOrderSchema>;
+export type PickTransferOrderLineData = z.infer<typeof pickTransferOrderLineSchema>;
+export type CreatePickListData = z.infer<typeof createPickListSchema>;
+export type PickLineData = z.infer<typeof pickLineSchema>;
+export type LabelRequestData = z.infer<typeof labelRequestSchema>;
+export type ProductBarcodesData = z.infer<typeof productBarcodesSchema>;
+
+export type ConsumePicoResult = {
+  consumedUnits: number;
+  closed: boolean;
+  pico: Pico | null;
+};
+
+export type ReplenishPicoResult = {
+  transferId: string;
+  pico: Pico;
+  paletizadoStock: PaletizadoStock;
+};
+
+// Live updates pushed over /api/events (Server-Sent Events) after a successful change
+export const liveEventTopics = ["stock", "products", "locations", "activity"] as const;
+export type LiveEventTopic = typeof liveEventTopics[number];
+
+export type LiveEvent = {
+  topics: LiveEventTopic[];
+};
+
+// 409 body of a stock edit made from a stale version; current is the record as it is now
+export type StockConflict<T> = {
+  message: string;
+  current: T;
+};
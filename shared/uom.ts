@@ -0,0 +1,93 @@
+import type { Product } from "./schema";
+
+// Packaging hierarchy of a product: unit → case (optional) → base (pallet layer) → pallet
+export const uoms = ["unit", "case", "base", "pallet"] as const;
+export type Uom = typeof uoms[number];
+
+export const uomLabels: Record<Uom, string> = {
+  unit: "Unidade",
+  case: "Caixa",
+  base: "Base",
+  pallet: "Palete",
+};
+
+export const uomShortLabels: Record<Uom, string> = {
+  unit: "unid.",
+  case: "cx.",
+  base: "bases",
+  pallet: "paletes",
+};
+
+// Conversion factors: units per case and per base, bases per pallet
+export type PackagingHierarchy = Pick<Product, "unitsPerBase" | "quantityBases"> & {
+  unitsPerCase?: number | null;
+};
+
+// How many units one of the given UoM holds; null when the product has no case size
+export function unitsPerUom(product: PackagingHierarchy, uom: Uom): number | null {
+  switch (uom) {
+    case "unit":
+      return 1;
+    case "case":
+      return product.unitsPerCase ?? null;
+    case "base":
+      return product.unitsPerBase;
+    case "pallet":
+      return product.unitsPerBase * product.quantityBases;
+  }
+}
+
+export function unitsPerPallet(product: PackagingHierarchy): number {
+  return product.unitsPerBase * product.quantityBases;
+}
+
+// UoMs configured for the product, smallest first
+export function availableUoms(product: PackagingHierarchy): Uom[] {
+  return uoms.filter(uom => unitsPerUom(product, uom) !== null);
+}
+
+export function toUnits(quantity: number, uom: Uom, product: PackagingHierarchy): number | null {
+  const factor = unitsPerUom(product, uom);
+  return factor === null ? null : quantity * factor;
+}
+
+// May be fractional, e.g. 30 units = 2.5 cases; null when either UoM is not configured
+export function convertQuantity(quantity: number, from: Uom, to: Uom, product: PackagingHierarchy): number | null {
+  const units = toUnits(quantity, from, product);
+  const factor = unitsPerUom(product, to);
+  return units === null || factor === null ? null : units / factor;
+}
+
+// Pico stock is kept as closed bases plus loose units
+export function totalPicoUnits(bases: number, looseUnits: number, product: Pick<Product, "unitsPerBase">): number {
+  return (bases * product.unitsPerBase) + looseUnits;
+}
+
+export function splitIntoBases(units: number, product: Pick<Product, "unitsPerBase">): { bases: number; looseUnits: number } {
+  return {
+    bases: Math.floor(units / product.unitsPerBase),
+    looseUnits: units % product.unitsPerBase,
+  };
+}
+
+// Returns a validation message when the factors don't form a hierarchy
+export function checkPackaging(product: Partial<PackagingHierarchy>): string | null {
+  const { unitsPerCase, unitsPerBase } = product;
+  if (unitsPerCase != null && unitsPerBase != null && unitsPerCase > unitsPerBase) {
+    return "A caixa não pode ter mais unidades que a base";
+  }
+  return null;
+}
+
+// e.g. 2 paletes + 3 bases + 5 unid.; cases are left out since they don't always divide a base
+export function formatUnitsBreakdown(units: number, product: PackagingHierarchy): string {
+  const pallets = Math.floor(units / unitsPerPallet(product));
+  const rest = units - pallets * unitsPerPallet(product);
+  const { bases, looseUnits } = splitIntoBases(rest, product);
+  const parts = [
+    pallets > 0 && `${pallets} ${uomShortLabels.pallet}`,
+    bases > 0 && `${bases} ${uomShortLabels.base}`,
+    (looseUnits > 0 || units === 0) && `${looseUnits} ${uomShortLabels.unit}`,
+  ].filter(Boolean);
+  return parts.join(" + ");
+}